@@ -0,0 +1,107 @@
+import { ReactNode } from 'react'
+import { renderHook, act } from '@testing-library/react'
+import { useLocalStorage } from '../../app/hooks/useLocalStorage'
+import GameDataProvider from '../../app/components/GameDataProvider'
+import { defaultLocalStorageData, serializeStoredData } from '../../app/utils/storageSchema'
+import { PersonalBests } from '../../app/types/game'
+
+const DATA_KEY = 'emoji-memory-game-data'
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <GameDataProvider profileId="default">{children}</GameDataProvider>
+)
+
+// Two components reading the store under one provider, like the board and its game over modal
+const renderConsumers = () => renderHook(() => ({ board: useLocalStorage(), modal: useLocalStorage() }), { wrapper })
+
+// What another tab sees: the value changes underneath it, then a storage event arrives
+const writeFromOtherTab = (value: string) => {
+  localStorage.setItem(DATA_KEY, value)
+  window.dispatchEvent(new StorageEvent('storage', { key: DATA_KEY, newValue: value }))
+}
+
+const storedGames = () => JSON.parse(localStorage.getItem(DATA_KEY)!).gameStats.totalGames
+
+describe('useLocalStorage hook', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should throw outside a GameDataProvider', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    expect(() => renderHook(() => useLocalStorage())).toThrow('useLocalStorage must be used inside a GameDataProvider')
+  })
+
+  it('should share one copy of the data between components', () => {
+    const { result } = renderConsumers()
+
+    act(() => {
+      result.current.board.updateGameStats('easy', 12, 40, true, 1500, 'food')
+    })
+
+    expect(result.current.modal.gameStats.totalGames).toBe(1)
+    expect(result.current.modal.getDifficultyStats('easy').bestMoves).toBe(12)
+  })
+
+  it('should report personal bests against the records from before the game', () => {
+    const { result } = renderConsumers()
+    const personalBests: PersonalBests[] = []
+
+    act(() => {
+      personalBests.push(result.current.board.updateGameStats('easy', 12, 40, true, 1500, 'food'))
+      personalBests.push(result.current.board.updateGameStats('easy', 10, 45, true, 1600, 'food'))
+      personalBests.push(result.current.board.updateGameStats('easy', 10, 45, true, 1600, 'food'))
+      personalBests.push(result.current.board.updateGameStats('easy', 8, 30, false, 0, 'food'))
+    })
+
+    expect(personalBests).toEqual([
+      { time: true, moves: true, either: true },
+      { time: false, moves: true, either: true },
+      { time: false, moves: false, either: false },
+      { time: false, moves: false, either: false },
+    ])
+  })
+
+  it('should follow writes from another tab', () => {
+    const { result } = renderConsumers()
+    const elsewhere = { ...defaultLocalStorageData, preferences: { ...defaultLocalStorageData.preferences, soundEnabled: false } }
+
+    act(() => {
+      writeFromOtherTab(serializeStoredData(elsewhere))
+    })
+
+    expect(result.current.board.preferences.soundEnabled).toBe(false)
+    expect(result.current.modal.preferences.soundEnabled).toBe(false)
+  })
+
+  it('should add to results saved by another tab instead of overwriting them', () => {
+    const { result } = renderConsumers()
+    const elsewhere = { ...defaultLocalStorageData, gameStats: { ...defaultLocalStorageData.gameStats, totalGames: 3, gamesLost: 3 } }
+
+    // The other tab's event hasn't arrived yet, so this tab's copy is stale when it saves
+    localStorage.setItem(DATA_KEY, serializeStoredData(elsewhere))
+    act(() => {
+      result.current.board.updateGameStats('easy', 12, 40, false, 0, 'food')
+    })
+
+    expect(storedGames()).toBe(4)
+    expect(result.current.modal.gameStats.gamesLost).toBe(4)
+  })
+
+  it('should compose changes made in the same tick', () => {
+    const { result } = renderConsumers()
+
+    act(() => {
+      result.current.board.updateGameStats('easy', 12, 40, true, 1500, 'food')
+      result.current.board.recordDailyResult({ date: '2026-03-01', difficulty: 'easy', category: 'food', seed: 7, completed: true, moves: 12, time: 40, score: 1500 })
+    })
+
+    expect(storedGames()).toBe(1)
+    expect(result.current.modal.dailyHistory).toHaveLength(1)
+  })
+})
@@ -0,0 +1,78 @@
+import { renderHook, act } from '@testing-library/react'
+import { useProfiles } from '../../app/hooks/useProfiles'
+import { createGameHistoryStore } from '../../app/utils/gameHistoryStore'
+import { addProfile, parseProfileRegistry } from '../../app/utils/profiles'
+
+jest.mock('../../app/utils/gameHistoryStore', () => ({
+  createGameHistoryStore: jest.fn(),
+}))
+
+const PROFILES_KEY = 'emoji-memory-game-profiles'
+
+// What another tab sees when it reads the registry
+const readRegistry = () => parseProfileRegistry(localStorage.getItem(PROFILES_KEY))!
+
+describe('useProfiles hook', () => {
+  const deleteProfileGames = jest.fn()
+
+  beforeEach(() => {
+    localStorage.clear()
+    deleteProfileGames.mockReset().mockResolvedValue(3)
+    jest.mocked(createGameHistoryStore).mockReturnValue({ deleteProfileGames } as never)
+  })
+
+  it('should start with the existing data as the first profile', () => {
+    const { result } = renderHook(() => useProfiles())
+
+    expect(result.current.isLoaded).toBe(true)
+    expect(result.current.profiles).toHaveLength(1)
+    expect(result.current.activeProfile.id).toBe('default')
+  })
+
+  it('should delete a profile along with its stored data, saved game and game history', () => {
+    const { result } = renderHook(() => useProfiles())
+    act(() => {
+      result.current.createProfile('Anna', '🦊')
+    })
+    const anna = result.current.activeProfile
+    localStorage.setItem(`emoji-memory-game-data:${anna.id}`, '{}')
+    localStorage.setItem(`emoji-memory-game-saved:${anna.id}`, '{}')
+
+    act(() => {
+      result.current.deleteProfile(anna.id)
+    })
+
+    expect(result.current.profiles.map(profile => profile.id)).toEqual(['default'])
+    expect(localStorage.getItem(`emoji-memory-game-data:${anna.id}`)).toBeNull()
+    expect(localStorage.getItem(`emoji-memory-game-saved:${anna.id}`)).toBeNull()
+    expect(deleteProfileGames).toHaveBeenCalledWith(anna.id)
+  })
+  it('should keep profiles another tab created when it changes the registry', () => {
+    const { result } = renderHook(() => useProfiles())
+    // Another tab adds a profile and switches to it, without this tab hearing about it
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(addProfile(readRegistry(), 'Ben', '🐻')))
+
+    act(() => {
+      result.current.createProfile('Anna', '🦊')
+    })
+    act(() => {
+      result.current.switchProfile('default')
+    })
+
+    expect(readRegistry().profiles).toHaveLength(3)
+    expect(result.current.profiles.map(profile => profile.name)).toContain('Ben')
+    expect(result.current.activeProfile.id).toBe('default')
+  })
+
+  it('should follow other tabs while staying on this tab\'s profile', () => {
+    const { result } = renderHook(() => useProfiles())
+    const fromOtherTab = addProfile(readRegistry(), 'Ben', '🐻')
+
+    act(() => {
+      window.dispatchEvent(new StorageEvent('storage', { key: PROFILES_KEY, newValue: JSON.stringify(fromOtherTab) }))
+    })
+
+    expect(result.current.profiles.map(profile => profile.name)).toContain('Ben')
+    expect(result.current.activeProfile.id).toBe('default')
+  })
+})
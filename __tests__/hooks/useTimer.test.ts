@@ -113,6 +113,99 @@ describe('useTimer hook', () => {
     expect(result.current.isPaused).toBe(false)
   })
 
+  it('should carry on from a restored time', () => {
+    const { result } = renderHook(() => useTimer())
+    
+    act(() => {
+      result.current.restore(42500)
+    })
+    
+    expect(result.current.timeElapsed).toBe(42)
+    expect(result.current.isPaused).toBe(true)
+    
+    act(() => {
+      result.current.resume()
+    })
+    
+    act(() => {
+      jest.advanceTimersByTime(2000)
+    })
+    
+    expect(result.current.elapsedMs).toBe(44500)
+    expect(result.current.timeElapsed).toBe(44)
+  })
+
+  describe('with an injected clock', () => {
+    let now: number
+    const clock = () => now
+
+    beforeEach(() => {
+      now = 1000
+    })
+
+    it('should keep sub-second time across pauses', () => {
+      const { result } = renderHook(() => useTimer({ clock }))
+
+      // Three short runs of 700ms each would lose time if pauses rounded to whole seconds
+      for (let run = 0; run < 3; run++) {
+        act(() => {
+          result.current.start()
+        })
+        now += 700
+        act(() => {
+          result.current.pause()
+        })
+        now += 5000 // Time spent paused never counts
+      }
+
+      expect(result.current.elapsedMs).toBe(2100)
+      expect(result.current.timeElapsed).toBe(2)
+      expect(result.current.getElapsedMs()).toBe(2100)
+    })
+
+    it('should read the exact time between display ticks', () => {
+      const { result } = renderHook(() => useTimer({ clock }))
+
+      act(() => {
+        result.current.start()
+      })
+      now += 1234
+
+      expect(result.current.getElapsedMs()).toBe(1234)
+    })
+
+    it('should not drift when ticks arrive late', () => {
+      const { result } = renderHook(() => useTimer({ clock }))
+
+      act(() => {
+        result.current.start()
+      })
+      // One display tick fires, but the clock has moved on by far more
+      now += 60123
+      act(() => {
+        jest.advanceTimersByTime(100)
+      })
+
+      expect(result.current.elapsedMs).toBe(60123)
+    })
+
+    it('should hold at the time limit', () => {
+      const { result } = renderHook(() => useTimer({ timeLimit: 3, clock }))
+
+      act(() => {
+        result.current.start()
+      })
+      now += 3500
+      act(() => {
+        jest.advanceTimersByTime(100)
+      })
+
+      expect(result.current.elapsedMs).toBe(3000)
+      expect(result.current.timeRemaining).toBe(0)
+      expect(result.current.isTimeUp).toBe(true)
+    })
+  })
+
   it('should cleanup interval on unmount', () => {
     const { result, unmount } = renderHook(() => useTimer())
     
@@ -189,4 +282,36 @@ describe('useTimer hook', () => {
     expect(result.current.isRunning).toBe(true)
     expect(result.current.isPaused).toBe(false)
   })
-})
\ No newline at end of file
+
+  it('should count down and stop at the time limit', () => {
+    const { result } = renderHook(() => useTimer({ timeLimit: 3 }))
+
+    expect(result.current.timeRemaining).toBe(3)
+    expect(result.current.isTimeUp).toBe(false)
+
+    act(() => {
+      result.current.start()
+    })
+
+    act(() => {
+      jest.advanceTimersByTime(2000)
+    })
+
+    expect(result.current.timeRemaining).toBe(1)
+
+    act(() => {
+      jest.advanceTimersByTime(5000)
+    })
+
+    expect(result.current.timeElapsed).toBe(3)
+    expect(result.current.timeRemaining).toBe(0)
+    expect(result.current.isTimeUp).toBe(true)
+  })
+
+  it('should not report remaining time without a limit', () => {
+    const { result } = renderHook(() => useTimer())
+
+    expect(result.current.timeRemaining).toBeNull()
+    expect(result.current.isTimeUp).toBe(false)
+  })
+})
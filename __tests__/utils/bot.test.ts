@@ -0,0 +1,153 @@
+import {
+  BOT_STRENGTHS,
+  chooseBotFlip,
+  createBotMemory,
+  decayMemory,
+  observeBoard,
+  recordMismatch,
+} from '../../app/utils/bot'
+import { gameReducer, initialGameState } from '../../app/utils/gameReducer'
+import { getTurnOutcome } from '../../app/utils/gameLogic'
+import { getDefaultCategory } from '../../app/utils/emojiData'
+import { Card, GameState } from '../../app/types/game'
+
+// Pairs sit side by side: 🍎 🍎 🍌 🍌 🍒 🍒 ...
+const EMOJIS = ['🍎', '🍌', '🍒', '🍇', '🍉', '🍋', '🍓', '🍑']
+const createBoard = (): Card[] =>
+  EMOJIS.flatMap((emoji, index) => [0, 1].map(offset => ({
+    id: index * 2 + offset,
+    emoji,
+    isFlipped: false,
+    isMatched: false,
+    pairId: index,
+  })))
+
+const reveal = (board: Card[], ids: number[]): Card[] =>
+  board.map(card => (ids.includes(card.id) ? { ...card, isFlipped: true } : card))
+
+const firstChoice = () => 0
+
+// Two different pairs that look the same: 🍎 0 and 2 match, 🍎 1 and 3 match
+const createLookalikeBoard = (): Card[] =>
+  createBoard().map(card => card.id < 4 ? { ...card, emoji: '🍎', pairId: card.id % 2 } : card)
+
+// Let a perfect-memory bot play a whole game, resolving turns as the board does
+const playToEnd = (board: Card[]): GameState => {
+  let state = gameReducer(initialGameState, {
+    type: 'START_GAME',
+    payload: { difficulty: 'easy', category: getDefaultCategory(), board }
+  })
+  let memory = createBotMemory()
+
+  for (let flips = 0; state.gameStatus === 'playing' && flips < 200; flips++) {
+    const cardId = chooseBotFlip(memory, state.board, state.flippedCards, 2, firstChoice)
+    if (cardId === null) break
+    state = gameReducer(state, { type: 'FLIP_CARD', payload: { cardId } })
+    memory = observeBoard(memory, state.board, 'perfect')
+
+    const outcome = getTurnOutcome(state.board, state.flippedCards, 2)
+    if (outcome === 'pending') continue
+
+    const cardIds = state.flippedCards
+    state = gameReducer(state, { type: outcome === 'match' ? 'MATCH_CARDS' : 'UNMATCH_CARDS', payload: { cardIds } })
+    memory = observeBoard(outcome === 'mismatch' ? recordMismatch(memory, cardIds) : memory, state.board, 'perfect')
+  }
+
+  return state
+}
+
+describe('bot utilities', () => {
+  describe('observeBoard', () => {
+    it('should only learn cards that are face-up', () => {
+      const memory = observeBoard(createBotMemory(), reveal(createBoard(), [0, 3]), 'perfect')
+
+      expect(memory.seen).toEqual({ 0: '🍎', 3: '🍌' })
+      expect(memory.order).toEqual([0, 3])
+    })
+
+    it('should forget matched cards', () => {
+      const board = reveal(createBoard(), [0, 1])
+      const memory = observeBoard(createBotMemory(), board, 'perfect')
+      const matched = board.map(card => (card.id < 2 ? { ...card, isMatched: true } : card))
+
+      expect(observeBoard(memory, matched, 'perfect').seen).toEqual({})
+    })
+
+    it('should keep only the most recent cards with a limited memory', () => {
+      const { memoryWindow } = BOT_STRENGTHS.limited
+      let memory = createBotMemory()
+      for (let id = 0; id < 10; id++) {
+        memory = observeBoard(memory, reveal(createBoard(), [id]), 'limited')
+      }
+
+      expect(memory.order).toHaveLength(memoryWindow!)
+      expect(memory.order[memory.order.length - 1]).toBe(9)
+      expect(memory.seen[0]).toBeUndefined()
+    })
+  })
+
+  describe('decayMemory', () => {
+    const memory = observeBoard(createBotMemory(), reveal(createBoard(), [0, 2, 4]), 'perfect')
+
+    it('should never forget with perfect recall', () => {
+      expect(decayMemory(memory, 'perfect', () => 0)).toBe(memory)
+    })
+
+    it('should forget cards by chance when forgetful', () => {
+      expect(decayMemory(memory, 'forgetful', () => 0).order).toEqual([])
+      expect(decayMemory(memory, 'forgetful', () => 0.99)).toEqual(memory)
+    })
+  })
+
+  describe('chooseBotFlip', () => {
+    it('should complete a remembered pair', () => {
+      const board = createBoard()
+      const memory = observeBoard(createBotMemory(), reveal(board, [5, 4]), 'perfect')
+
+      expect(chooseBotFlip(memory, board, [], 2, firstChoice)).toBe(4)
+    })
+
+    it('should match the card turned over this turn from memory', () => {
+      const seen = observeBoard(createBotMemory(), reveal(createBoard(), [7]), 'perfect')
+      const board = reveal(createBoard(), [6])
+
+      expect(chooseBotFlip(observeBoard(seen, board, 'perfect'), board, [6], 2, firstChoice)).toBe(7)
+    })
+
+    it('should explore unseen cards when nothing is remembered', () => {
+      const board = createBoard()
+      const memory = observeBoard(createBotMemory(), reveal(board, [0, 2]), 'perfect')
+
+      expect(chooseBotFlip(memory, board, [], 2, firstChoice)).toBe(1)
+    })
+
+    it('should ignore hidden pair ids', () => {
+      // Every card claims the same pair; only what has been seen should matter
+      const board = createBoard().map(card => ({ ...card, pairId: 0 }))
+
+      expect(chooseBotFlip(createBotMemory(), board, [], 2, firstChoice)).toBe(0)
+      expect(chooseBotFlip(createBotMemory(), reveal(board, [0]), [0], 2, () => 0.99)).toBe(15)
+    })
+
+    it('should return null when no card can be flipped', () => {
+      const board = createBoard().map(card => ({ ...card, isMatched: true }))
+
+      expect(chooseBotFlip(createBotMemory(), board, [], 2, firstChoice)).toBeNull()
+    })
+
+    it('should not retry lookalike cards that already failed to match', () => {
+      const board = createLookalikeBoard()
+      const memory = recordMismatch(observeBoard(createBotMemory(), reveal(board, [0, 1]), 'perfect'), [0, 1])
+
+      expect(chooseBotFlip(memory, board, [], 2, firstChoice)).toBe(2)
+      expect(chooseBotFlip(observeBoard(memory, reveal(board, [2]), 'perfect'), reveal(board, [2]), [2], 2, firstChoice)).toBe(0)
+    })
+
+    it('should finish a board with repeated faces', () => {
+      const state = playToEnd(createLookalikeBoard())
+
+      expect(state.gameStatus).toBe('completed')
+      expect(state.moves).toBeLessThan(20)
+    })
+  })
+})
@@ -0,0 +1,101 @@
+import {
+  getDateKey,
+  parseDateKey,
+  addDaysToDateKey,
+  getDailyChallenge,
+  calculateDailyStreak,
+  getCalendarDays,
+} from '../../app/utils/dailyChallenge'
+import { getEmojiCategory } from '../../app/utils/emojiData'
+import { DIFFICULTY_CONFIGS, DailyChallengeResult } from '../../app/types/game'
+
+const createResult = (date: string, completed = true): DailyChallengeResult => ({
+  date,
+  difficulty: 'easy',
+  category: 'food',
+  seed: 1,
+  completed,
+  moves: 12,
+  time: 40,
+  score: 1500,
+})
+
+describe('dailyChallenge utilities', () => {
+  describe('date keys', () => {
+    it('should format local dates as YYYY-MM-DD', () => {
+      expect(getDateKey(new Date(2026, 0, 5))).toBe('2026-01-05')
+    })
+
+    it('should round-trip through parseDateKey', () => {
+      expect(getDateKey(parseDateKey('2026-10-18'))).toBe('2026-10-18')
+    })
+
+    it('should shift across month and year boundaries', () => {
+      expect(addDaysToDateKey('2026-03-01', -1)).toBe('2026-02-28')
+      expect(addDaysToDateKey('2026-12-31', 1)).toBe('2027-01-01')
+    })
+  })
+
+  describe('getDailyChallenge', () => {
+    it('should return the same challenge for any time on the same day', () => {
+      const morning = getDailyChallenge(new Date(2026, 9, 18, 7, 0))
+      const evening = getDailyChallenge(new Date(2026, 9, 18, 23, 59))
+
+      expect(evening).toEqual(morning)
+    })
+
+    it('should vary between days', () => {
+      const seeds = new Set(
+        Array.from({ length: 7 }, (_, day) => getDailyChallenge(new Date(2026, 9, day + 1)).seed)
+      )
+
+      expect(seeds.size).toBe(7)
+    })
+
+    it('should pick a valid difficulty and category', () => {
+      const challenge = getDailyChallenge(new Date(2026, 9, 18))
+      const category = getEmojiCategory(challenge.categoryId)
+
+      expect(DIFFICULTY_CONFIGS[challenge.difficulty]).toBeDefined()
+      expect(category).toBeDefined()
+      expect(category!.emojis.length).toBeGreaterThanOrEqual(DIFFICULTY_CONFIGS[challenge.difficulty].pairs)
+    })
+  })
+
+  describe('calculateDailyStreak', () => {
+    it('should count consecutive completed days ending today', () => {
+      const history = ['2026-10-16', '2026-10-17', '2026-10-18'].map(date => createResult(date))
+
+      expect(calculateDailyStreak(history, '2026-10-18')).toBe(3)
+    })
+
+    it('should keep the streak alive when today is not played yet', () => {
+      const history = ['2026-10-16', '2026-10-17'].map(date => createResult(date))
+
+      expect(calculateDailyStreak(history, '2026-10-18')).toBe(2)
+    })
+
+    it('should break on missed or failed days', () => {
+      const history = [
+        createResult('2026-10-14'),
+        createResult('2026-10-16', false),
+        createResult('2026-10-17'),
+      ]
+
+      expect(calculateDailyStreak(history, '2026-10-18')).toBe(1)
+      expect(calculateDailyStreak([], '2026-10-18')).toBe(0)
+    })
+  })
+
+  describe('getCalendarDays', () => {
+    it('should pad the first week and include every day of the month', () => {
+      // October 2026 starts on a Thursday
+      const days = getCalendarDays(2026, 9)
+
+      expect(days.slice(0, 4)).toEqual([null, null, null, null])
+      expect(days[4]).toBe('2026-10-01')
+      expect(days[days.length - 1]).toBe('2026-10-31')
+      expect(days.filter(Boolean)).toHaveLength(31)
+    })
+  })
+})
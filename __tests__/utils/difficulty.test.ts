@@ -0,0 +1,102 @@
+import {
+  CUSTOM_BOARD_LIMITS,
+  createCustomDifficulty,
+  getDifficultyConfig,
+  getDifficultyLabel,
+  getPreviewSeconds,
+  interpolateByCellCount,
+  isValidDifficulty,
+  parseCustomDifficulty,
+} from '../../app/utils/difficulty'
+import { DIFFICULTY_CONFIGS } from '../../app/types/game'
+import { EMOJI_CATEGORIES } from '../../app/utils/emojiData'
+
+describe('difficulty utilities', () => {
+  describe('custom difficulty ids', () => {
+    it('should round-trip the grid size through the id', () => {
+      const id = createCustomDifficulty(3, 5, () => 0.5)
+
+      expect(id).toMatch(/^custom:3x5:[a-z0-9]{6}$/)
+      expect(parseCustomDifficulty(id)).toEqual({ rows: 3, cols: 5 })
+    })
+
+    it('should reject malformed or out-of-range ids', () => {
+      expect(parseCustomDifficulty('custom:1x4:abc')).toBeNull()
+      expect(parseCustomDifficulty('custom:9x9:abc')).toBeNull()
+      expect(parseCustomDifficulty('custom:4x4')).toBeNull()
+      expect(parseCustomDifficulty('easy')).toBeNull()
+    })
+
+    it('should recognise built-in and custom difficulties only', () => {
+      expect(isValidDifficulty('expert')).toBe(true)
+      expect(isValidDifficulty('custom:8x8:abc123')).toBe(true)
+      expect(isValidDifficulty('toString')).toBe(false)
+      expect(isValidDifficulty('legendary')).toBe(false)
+      expect(isValidDifficulty(undefined)).toBe(false)
+    })
+
+    it('should have enough distinct emojis in every category for the largest board', () => {
+      const { MAX_SIZE } = CUSTOM_BOARD_LIMITS
+
+      EMOJI_CATEGORIES.forEach(category => {
+        expect(new Set(category.emojis).size).toBeGreaterThanOrEqual((MAX_SIZE * MAX_SIZE) / 2)
+      })
+    })
+  })
+
+  describe('interpolateByCellCount', () => {
+    it('should hit the built-in values exactly', () => {
+      expect(interpolateByCellCount(16, difficulty => DIFFICULTY_CONFIGS[difficulty].lives)).toBe(6)
+      expect(interpolateByCellCount(48, difficulty => DIFFICULTY_CONFIGS[difficulty].lives)).toBe(18)
+    })
+
+    it('should extend the nearest segment beyond the built-in range', () => {
+      // Easy → Medium adds 3 lives over 8 cells
+      expect(interpolateByCellCount(12, difficulty => DIFFICULTY_CONFIGS[difficulty].lives)).toBe(4.5)
+    })
+  })
+
+  describe('getDifficultyConfig', () => {
+    it('should return the fixed config for built-in difficulties', () => {
+      expect(getDifficultyConfig('hard')).toBe(DIFFICULTY_CONFIGS.hard)
+    })
+
+    it('should derive a config for custom boards', () => {
+      const config = getDifficultyConfig('custom:3x5:abc123')
+
+      expect(config.rows).toBe(3)
+      expect(config.cols).toBe(5)
+      expect(config.pairs).toBe(7) // 15 cells, one left blank
+      expect(config.timeLimit).toBeGreaterThan(0)
+      expect(config.lives).toBeGreaterThan(0)
+    })
+
+    it('should throw for unknown difficulties', () => {
+      expect(() => getDifficultyConfig('custom:0x0:zz' as never)).toThrow('Unknown difficulty')
+    })
+  })
+
+  describe('getPreviewSeconds', () => {
+    it('should default to the difficulty preview length', () => {
+      expect(getPreviewSeconds('easy')).toBe(DIFFICULTY_CONFIGS.easy.previewSeconds)
+      expect(getPreviewSeconds('expert')).toBeGreaterThan(getPreviewSeconds('easy'))
+    })
+
+    it('should honour overrides within the allowed range', () => {
+      expect(getPreviewSeconds('easy', { easy: 10 })).toBe(10)
+      expect(getPreviewSeconds('easy', { easy: 500 })).toBe(60)
+      expect(getPreviewSeconds('medium', { easy: 10 })).toBe(DIFFICULTY_CONFIGS.medium.previewSeconds)
+    })
+  })
+
+  describe('getDifficultyLabel', () => {
+    it('should prefer the preset name for custom boards', () => {
+      const id = 'custom:4x8:abc123' as const
+      const presets = [{ id, name: 'Long Board', rows: 4, cols: 8, createdAt: '2024-01-01T00:00:00.000Z' }]
+
+      expect(getDifficultyLabel('medium')).toBe('Medium')
+      expect(getDifficultyLabel(id, presets)).toBe('Long Board')
+      expect(getDifficultyLabel(id)).toBe('Custom 8×4')
+    })
+  })
+})
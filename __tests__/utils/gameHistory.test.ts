@@ -0,0 +1,142 @@
+import {
+  createGameRecord,
+  highScoreToGameRecord,
+  isGameInProgress,
+  matchesGameQuery,
+  paginateGameRecords,
+  summarizeGameRecords
+} from '../../app/utils/gameHistory'
+import { initialGameState } from '../../app/utils/gameReducer'
+import { GameRecord } from '../../app/types/game'
+import { MOCK_CATEGORIES } from '../fixtures/data/game-data'
+import { play, start, turn } from './test-helpers/test-utils'
+
+const record = (overrides: Partial<GameRecord> = {}): GameRecord => ({
+  outcome: 'won',
+  difficulty: 'easy',
+  category: 'food',
+  setSize: 2,
+  moves: 12,
+  time: 40,
+  score: 1500,
+  scoringRules: 'classic',
+  seed: 7,
+  preview: false,
+  players: 0,
+  startedAt: '2026-03-01T10:00:00.000Z',
+  endedAt: '2026-03-01T10:01:00.000Z',
+  ...overrides,
+})
+
+describe('createGameRecord', () => {
+  it('should record the game with its seed, rules and start time', () => {
+    const state = play(start({ scoringRules: 'accuracy' }, Date.UTC(2026, 2, 1, 10)), ...turn(0, 1), ...turn(2, 4))
+    const game = createGameRecord({ ...state, timeElapsedMs: 12345 }, 'abandoned', new Date(Date.UTC(2026, 2, 1, 10, 5)))
+
+    expect(game).toEqual(expect.objectContaining({
+      outcome: 'abandoned',
+      difficulty: 'easy',
+      category: MOCK_CATEGORIES[0].id,
+      moves: 2,
+      time: 12.345,
+      scoringRules: 'accuracy',
+      seed: 7,
+      preview: false,
+      players: 0,
+      startedAt: '2026-03-01T10:00:00.000Z',
+      endedAt: '2026-03-01T10:05:00.000Z',
+    }))
+    expect(game).not.toHaveProperty('dailyDate')
+  })
+})
+
+describe('isGameInProgress', () => {
+  it('should count games being memorized, played or paused', () => {
+    expect(isGameInProgress(initialGameState)).toBe(false)
+    expect(isGameInProgress(play(start({ preview: 3 })))).toBe(true)
+    expect(isGameInProgress(play(start(), ...turn(0, 1), { type: 'PAUSE_GAME' }))).toBe(true)
+    expect(isGameInProgress(play(start({ lives: 1 }), ...turn(0, 2)))).toBe(false)
+  })
+})
+
+describe('highScoreToGameRecord', () => {
+  it('should migrate a high score as a won game without a seed', () => {
+    const score = { difficulty: 'hard' as const, category: 'animals', moves: 30, time: 95.5, score: 2400, date: '2026-01-05T09:00:00.000Z', preview: true }
+
+    expect(highScoreToGameRecord(score)).toEqual(expect.objectContaining({
+      outcome: 'won',
+      scoringRules: 'classic',
+      seed: null,
+      preview: true,
+      startedAt: score.date,
+      endedAt: score.date,
+    }))
+  })
+})
+
+describe('matchesGameQuery', () => {
+  it('should filter by an inclusive date range', () => {
+    const game = record()
+
+    expect(matchesGameQuery(game, { from: '2026-03-01T10:01:00.000Z', to: '2026-03-01T10:01:00.000Z' })).toBe(true)
+    expect(matchesGameQuery(game, { from: '2026-03-02T00:00:00.000Z' })).toBe(false)
+    expect(matchesGameQuery(game, { to: '2026-02-28T23:59:59.999Z' })).toBe(false)
+  })
+
+  it('should filter by difficulty, category, outcome and rules together', () => {
+    const game = record({ outcome: 'lost' })
+
+    expect(matchesGameQuery(game, { difficulty: 'easy', category: 'food', outcome: 'lost', scoringRules: 'classic' })).toBe(true)
+    expect(matchesGameQuery(game, { difficulty: 'easy', outcome: 'won' })).toBe(false)
+    expect(matchesGameQuery(game, { category: 'animals' })).toBe(false)
+  })
+
+  it('should attribute games without a profile to the first profile', () => {
+    expect(matchesGameQuery(record(), { profileId: 'default' })).toBe(true)
+    expect(matchesGameQuery(record(), { profileId: 'k3x9a0qe' })).toBe(false)
+    expect(matchesGameQuery(record({ profileId: 'k3x9a0qe' }), { profileId: 'k3x9a0qe' })).toBe(true)
+  })
+})
+
+describe('paginateGameRecords', () => {
+  const games = Array.from({ length: 5 }, (_, index) => record({ moves: index, endedAt: `2026-03-0${index + 1}T10:00:00.000Z` }))
+
+  it('should page through records newest first', () => {
+    const first = paginateGameRecords(games, 0, 2)
+    const last = paginateGameRecords(games, 4, 2)
+
+    expect(first.records.map(game => game.moves)).toEqual([4, 3])
+    expect(first).toMatchObject({ total: 5, hasMore: true })
+    expect(last.records.map(game => game.moves)).toEqual([0])
+    expect(last.hasMore).toBe(false)
+  })
+})
+
+describe('summarizeGameRecords', () => {
+  it('should count outcomes and take bests and averages from won games', () => {
+    const summary = summarizeGameRecords([
+      record({ time: 40, moves: 12, score: 1500 }),
+      record({ time: 30, moves: 16, score: 1700 }),
+      record({ outcome: 'lost', time: 90, moves: 8, score: 0 }),
+      record({ outcome: 'abandoned', time: 10, moves: 2, score: 0 }),
+    ])
+
+    expect(summary).toEqual({
+      games: 4,
+      won: 2,
+      lost: 1,
+      abandoned: 1,
+      winRate: 50,
+      totalTime: 170,
+      averageTime: 35,
+      averageMoves: 14,
+      bestTime: 30,
+      bestMoves: 12,
+      bestScore: 1700,
+    })
+  })
+
+  it('should have no bests without a win', () => {
+    expect(summarizeGameRecords([])).toMatchObject({ games: 0, winRate: 0, bestTime: null, bestScore: null })
+  })
+})
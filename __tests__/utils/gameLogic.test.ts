@@ -10,6 +10,8 @@ import {
   calculateGameProgress,
   getRemainingPairs,
   validateGameBoard,
+  getTotalSets,
+  getTurnOutcome,
   resetBoard,
   getFlippedCards,
   getMatchedCards,
@@ -44,6 +46,13 @@ describe('gameLogic utilities', () => {
       const result = fisherYatesShuffle([1])
       expect(result).toEqual([1])
     })
+
+    it('should use the provided random source', () => {
+      const original = [1, 2, 3, 4, 5]
+
+      // Always picking index 0 rotates the array deterministically
+      expect(fisherYatesShuffle(original, () => 0)).toEqual([2, 3, 4, 5, 1])
+    })
   })
 
   describe('createGameBoard', () => {
@@ -80,6 +89,20 @@ describe('gameLogic utilities', () => {
       expect(uniqueIds.size).toBe(board.length)
     })
 
+    it('should create identical boards for the same seed', () => {
+      const first = createGameBoard('hard', MOCK_CATEGORIES[0], 42)
+      const second = createGameBoard('hard', MOCK_CATEGORIES[0], 42)
+
+      expect(second).toEqual(first)
+    })
+
+    it('should create different boards for different seeds', () => {
+      const first = createGameBoard('hard', MOCK_CATEGORIES[0], 1)
+      const second = createGameBoard('hard', MOCK_CATEGORIES[0], 2)
+
+      expect(second.map(card => card.emoji)).not.toEqual(first.map(card => card.emoji))
+    })
+
     it('should assign correct pairIds', () => {
       const board = createGameBoard('easy', MOCK_CATEGORIES[0])
       
@@ -94,6 +117,56 @@ describe('gameLogic utilities', () => {
         expect(count).toBe(2)
       })
     })
+
+    it('should create sets of three with a blank filler card', () => {
+      const board = createGameBoard('easy', MOCK_CATEGORIES[0], 7, 3)
+      const playable = board.filter(card => !card.isBlank)
+      const blanks = board.filter(card => card.isBlank)
+
+      expect(board).toHaveLength(16)
+      expect(playable).toHaveLength(15) // 5 triples
+      expect(blanks).toHaveLength(1)
+      expect(blanks[0].isMatched).toBe(true)
+      expect(validateGameBoard(board, 'easy', 3)).toBe(true)
+    })
+
+    it('should fill an odd custom board with one blank card', () => {
+      const board = createGameBoard('custom:3x5:abc123', MOCK_CATEGORIES[0], 7)
+
+      expect(board).toHaveLength(15)
+      expect(board.filter(card => card.isBlank)).toHaveLength(1)
+      expect(validateGameBoard(board, 'custom:3x5:abc123')).toBe(true)
+    })
+
+    it('should create sets of four that fill the grid', () => {
+      const board = createGameBoard('medium', MOCK_CATEGORIES[0], 7, 4)
+
+      expect(board.some(card => card.isBlank)).toBe(false)
+      expect(validateGameBoard(board, 'medium', 4)).toBe(true)
+    })
+  })
+
+  describe('getTotalSets', () => {
+    it('should fit as many whole sets as the grid allows', () => {
+      expect(getTotalSets('easy')).toBe(8)
+      expect(getTotalSets('easy', 3)).toBe(5)
+      expect(getTotalSets('expert', 4)).toBe(12)
+    })
+  })
+
+  describe('getTurnOutcome', () => {
+    const board = createMockBoard('easy').map((card, index) => ({ ...card, pairId: Math.floor(index / 4) }))
+
+    it('should stay pending until a full set is flipped', () => {
+      expect(getTurnOutcome(board, [], 3)).toBe('pending')
+      expect(getTurnOutcome(board, [0, 1], 3)).toBe('pending')
+      expect(getTurnOutcome(board, [0, 1, 2], 3)).toBe('match')
+    })
+
+    it('should report a mismatch as soon as two flipped cards differ', () => {
+      expect(getTurnOutcome(board, [0, 4], 3)).toBe('mismatch')
+      expect(getTurnOutcome(board, [0, 1, 4], 4)).toBe('mismatch')
+    })
   })
 
   describe('areCardsMatching', () => {
@@ -212,6 +285,13 @@ describe('gameLogic utilities', () => {
       
       expect(canFlipCard(card, 2, 'playing')).toBe(false)
     })
+
+    it('should allow flipping up to the set size', () => {
+      const card = createMockCard()
+
+      expect(canFlipCard(card, 2, 'playing', 3)).toBe(true)
+      expect(canFlipCard(card, 3, 'playing', 3)).toBe(false)
+    })
   })
 
   describe('calculateGameProgress', () => {
@@ -263,6 +343,12 @@ describe('gameLogic utilities', () => {
       
       expect(validateGameBoard(board, 'easy')).toBe(false)
     })
+
+    it('should reject a pair board validated as triples', () => {
+      const board = createMockBoard('easy')
+
+      expect(validateGameBoard(board, 'easy', 3)).toBe(false)
+    })
   })
 
   describe('resetBoard', () => {
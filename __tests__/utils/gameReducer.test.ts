@@ -0,0 +1,318 @@
+import { gameReducer, initialGameState } from '../../app/utils/gameReducer'
+import { createGameBoard } from '../../app/utils/gameLogic'
+import { SCORING_CONFIG } from '../../app/utils/scoring'
+import { GameAction, GameState } from '../../app/types/game'
+import { MOCK_CATEGORIES, createMockBoard } from '../fixtures/data/game-data'
+
+const playActions = (actions: GameAction[], state: GameState = initialGameState): GameState =>
+  actions.reduce((current, action) => gameReducer(current, action), state)
+
+const startAction = (payload: GameAction['payload'] = {}): GameAction => ({
+  type: 'START_GAME',
+  payload: { difficulty: 'easy', category: MOCK_CATEGORIES[0], seed: 1, board: createMockBoard('easy'), ...payload },
+})
+
+describe('gameReducer', () => {
+  describe('START_GAME', () => {
+    it('should start playing with the provided board and seed', () => {
+      const state = gameReducer(initialGameState, startAction())
+
+      expect(state.gameStatus).toBe('playing')
+      expect(state.board).toEqual(createMockBoard('easy'))
+      expect(state.seed).toBe(1)
+      expect(state.timeLimit).toBeNull()
+    })
+
+    it('should store the time limit for time-limited games', () => {
+      const state = gameReducer(initialGameState, startAction({ timeLimit: 90 }))
+
+      expect(state.timeLimit).toBe(90)
+    })
+  })
+
+  describe('memorize phase', () => {
+    it('should show every card face-up until the preview ends', () => {
+      const state = gameReducer(initialGameState, startAction({ preview: 5 }))
+
+      expect(state.gameStatus).toBe('preview')
+      expect(state.previewDuration).toBe(5)
+      expect(state.board.every(card => card.isFlipped)).toBe(true)
+      expect(gameReducer(state, { type: 'FLIP_CARD', payload: { cardId: 0 } })).toBe(state)
+    })
+
+    it('should hide the cards and start play on END_PREVIEW', () => {
+      const state = playActions([startAction({ preview: 5 }), { type: 'END_PREVIEW' }])
+
+      expect(state.gameStatus).toBe('playing')
+      expect(state.board.every(card => !card.isFlipped)).toBe(true)
+      expect(state.history.map(event => event.type)).toEqual(['START_GAME', 'END_PREVIEW'])
+    })
+
+    it('should ignore END_PREVIEW outside the preview', () => {
+      const state = gameReducer(initialGameState, startAction())
+
+      expect(state.previewDuration).toBeNull()
+      expect(gameReducer(state, { type: 'END_PREVIEW' })).toBe(state)
+    })
+  })
+
+  describe('FAIL_GAME', () => {
+    it('should end the game as failed and hide unresolved cards', () => {
+      const state = playActions([
+        startAction({ timeLimit: 90 }),
+        { type: 'FLIP_CARD', payload: { cardId: 0 } },
+        { type: 'FAIL_GAME', payload: { reason: 'timeout' } },
+      ])
+
+      expect(state.gameStatus).toBe('failed')
+      expect(state.failureReason).toBe('timeout')
+      expect(state.flippedCards).toEqual([])
+      expect(state.board.every(card => !card.isFlipped)).toBe(true)
+    })
+
+    it('should keep matched cards revealed', () => {
+      const state = playActions([
+        startAction(),
+        { type: 'FLIP_CARD', payload: { cardId: 0 } },
+        { type: 'FLIP_CARD', payload: { cardId: 1 } },
+        { type: 'MATCH_CARDS', payload: { cardIds: [0, 1] } },
+        { type: 'FAIL_GAME', payload: { reason: 'timeout' } },
+      ])
+
+      expect(state.board.filter(card => card.isMatched)).toHaveLength(2)
+      expect(state.matchedPairs).toHaveLength(1)
+    })
+
+    it('should ignore failures outside of an active game', () => {
+      const state = gameReducer(initialGameState, { type: 'FAIL_GAME', payload: { reason: 'timeout' } })
+
+      expect(state).toBe(initialGameState)
+    })
+
+    it('should ignore late match resolutions after failing', () => {
+      const failed = playActions([
+        startAction(),
+        { type: 'FLIP_CARD', payload: { cardId: 0 } },
+        { type: 'FLIP_CARD', payload: { cardId: 1 } },
+        { type: 'FAIL_GAME', payload: { reason: 'timeout' } },
+      ])
+
+      expect(gameReducer(failed, { type: 'MATCH_CARDS', payload: { cardIds: [0, 1] } })).toBe(failed)
+    })
+  })
+
+  describe('limited lives', () => {
+    const mismatch = (first: number, second: number): GameAction[] => [
+      { type: 'FLIP_CARD', payload: { cardId: first } },
+      { type: 'FLIP_CARD', payload: { cardId: second } },
+      { type: 'UNMATCH_CARDS', payload: { cardIds: [first, second] } },
+    ]
+
+    it('should not track lives unless enabled', () => {
+      const state = playActions([startAction(), ...mismatch(0, 2)])
+
+      expect(state.livesRemaining).toBeNull()
+      expect(state.gameStatus).toBe('playing')
+    })
+
+    it('should spend a life on each mismatch', () => {
+      const state = playActions([startAction({ lives: 3 }), ...mismatch(0, 2)])
+
+      expect(state.maxLives).toBe(3)
+      expect(state.livesRemaining).toBe(2)
+      expect(state.gameStatus).toBe('playing')
+    })
+
+    it('should fail the game when the last life is spent', () => {
+      const state = playActions([startAction({ lives: 2 }), ...mismatch(0, 2), ...mismatch(0, 2)])
+
+      expect(state.livesRemaining).toBe(0)
+      expect(state.gameStatus).toBe('failed')
+      expect(state.failureReason).toBe('lives')
+      expect(gameReducer(state, { type: 'FLIP_CARD', payload: { cardId: 4 } })).toBe(state)
+    })
+  })
+
+  describe('hot-seat multiplayer', () => {
+    const players = [
+      { name: 'Ann', color: 'blue' as const },
+      { name: 'Bo', color: 'red' as const },
+    ]
+    const turn = (first: number, second: number, resolve: 'MATCH_CARDS' | 'UNMATCH_CARDS'): GameAction[] => [
+      { type: 'FLIP_CARD', payload: { cardId: first } },
+      { type: 'FLIP_CARD', payload: { cardId: second } },
+      { type: resolve, payload: { cardIds: [first, second] } },
+    ]
+
+    it('should have no players in a solo game', () => {
+      const state = gameReducer(initialGameState, startAction())
+
+      expect(state.players).toEqual([])
+      expect(state.currentPlayerIndex).toBe(0)
+    })
+
+    it('should keep the turn after a match and credit the current player', () => {
+      const state = playActions([startAction({ players }), ...turn(0, 1, 'MATCH_CARDS')])
+
+      expect(state.currentPlayerIndex).toBe(0)
+      expect(state.players[0].matches).toBe(1)
+      expect(state.players[0].score).toBeGreaterThan(0)
+      expect(state.players[1]).toMatchObject({ matches: 0, score: 0 })
+    })
+
+    it('should pass the turn after a mismatch and wrap around', () => {
+      const afterOne = playActions([startAction({ players }), ...turn(0, 2, 'UNMATCH_CARDS')])
+      const afterTwo = playActions(turn(0, 2, 'UNMATCH_CARDS'), afterOne)
+
+      expect(afterOne.currentPlayerIndex).toBe(1)
+      expect(afterTwo.currentPlayerIndex).toBe(0)
+    })
+
+    it('should tally matches per player across turns', () => {
+      const state = playActions([
+        startAction({ players }),
+        ...turn(0, 2, 'UNMATCH_CARDS'),
+        ...turn(0, 1, 'MATCH_CARDS'),
+        ...turn(2, 3, 'MATCH_CARDS'),
+        ...turn(4, 6, 'UNMATCH_CARDS'),
+      ])
+
+      expect(state.players.map(player => player.matches)).toEqual([0, 2])
+      expect(state.currentPlayerIndex).toBe(0)
+      expect(state.matchedPairs).toHaveLength(2)
+    })
+  })
+
+  describe('split times', () => {
+    const match = (first: number): GameAction[] => [
+      { type: 'FLIP_CARD', payload: { cardId: first } },
+      { type: 'FLIP_CARD', payload: { cardId: first + 1 } },
+      { type: 'MATCH_CARDS', payload: { cardIds: [first, first + 1] } },
+    ]
+    const split = (timeElapsedMs: number): GameAction => ({ type: 'RECORD_SPLIT', payload: { timeElapsedMs } })
+
+    it('should record one exact split per match', () => {
+      const state = playActions([startAction(), ...match(0), split(2345), ...match(2), split(4010)])
+
+      expect(state.splits).toEqual([2345, 4010])
+      expect(state.timeElapsedMs).toBe(4010)
+      expect(state.timeElapsed).toBe(4)
+    })
+
+    it('should ignore splits without a match to stamp', () => {
+      const started = gameReducer(initialGameState, startAction())
+      const matched = playActions([...match(0), split(1500)], started)
+
+      expect(gameReducer(started, split(900))).toBe(started)
+      expect(gameReducer(matched, split(1600))).toBe(matched)
+    })
+
+    it('should keep the exact time from clock updates', () => {
+      const state = gameReducer(
+        gameReducer(initialGameState, startAction()),
+        { type: 'UPDATE_TIME', payload: { timeElapsed: 3, timeElapsedMs: 3042 } }
+      )
+
+      expect(state.timeElapsedMs).toBe(3042)
+    })
+  })
+
+  describe('pausing', () => {
+    const flip = (cardId: number): GameAction => ({ type: 'FLIP_CARD', payload: { cardId } })
+
+    it('should only pause a game that is being played', () => {
+      expect(gameReducer(initialGameState, { type: 'PAUSE_GAME' })).toBe(initialGameState)
+
+      const previewing = gameReducer(initialGameState, startAction({ preview: 5 }))
+      expect(gameReducer(previewing, { type: 'PAUSE_GAME' })).toBe(previewing)
+    })
+
+    it('should only resume a paused game', () => {
+      const playing = gameReducer(initialGameState, startAction())
+
+      expect(gameReducer(playing, { type: 'RESUME_GAME' })).toBe(playing)
+      expect(playActions([{ type: 'PAUSE_GAME' }, { type: 'RESUME_GAME' }], playing).gameStatus).toBe('playing')
+    })
+
+    it('should keep the flipped cards through a pause', () => {
+      const paused = playActions([startAction(), flip(0), { type: 'PAUSE_GAME' }])
+      const resumed = gameReducer(paused, { type: 'RESUME_GAME' })
+
+      expect(resumed.flippedCards).toEqual([0])
+      expect(resumed.board[0].isFlipped).toBe(true)
+    })
+
+    it('should stay paused when a match lands during the pause', () => {
+      const paused = playActions([startAction(), flip(0), flip(1), { type: 'PAUSE_GAME' }])
+      const matched = gameReducer(paused, { type: 'MATCH_CARDS', payload: { cardIds: [0, 1] } })
+
+      expect(matched.gameStatus).toBe('paused')
+      expect(matched.matchedPairs).toEqual([0])
+    })
+  })
+
+  describe('match streaks', () => {
+    const turn = (first: number, second: number): GameAction[] => [
+      { type: 'FLIP_CARD', payload: { cardId: first } },
+      { type: 'FLIP_CARD', payload: { cardId: second } },
+      { type: first >> 1 === second >> 1 ? 'MATCH_CARDS' : 'UNMATCH_CARDS', payload: { cardIds: [first, second] } },
+    ]
+
+    it('should count matches in a row and reset on a mismatch', () => {
+      const onARoll = playActions([startAction(), ...turn(0, 1), ...turn(2, 3), ...turn(4, 5)])
+      const broken = playActions(turn(6, 8), onARoll)
+
+      expect(onARoll).toMatchObject({ currentStreak: 3, longestStreak: 3 })
+      expect(broken).toMatchObject({ currentStreak: 0, longestStreak: 3 })
+      expect(playActions(turn(6, 7), broken)).toMatchObject({ currentStreak: 1, longestStreak: 3 })
+    })
+
+    it('should bank a streak bonus as each match happens', () => {
+      const steady = playActions([startAction(), ...turn(0, 2), ...turn(0, 1), ...turn(4, 6), ...turn(2, 3)])
+      const streaky = playActions([startAction(), ...turn(0, 2), ...turn(4, 6), ...turn(0, 1), ...turn(2, 3)])
+
+      expect(streaky.moves).toBe(steady.moves)
+      expect(streaky.score - steady.score).toBe(SCORING_CONFIG.STREAK_BONUS)
+    })
+
+    it('should start every game without a streak', () => {
+      const played = playActions([startAction(), ...turn(0, 1), ...turn(2, 3)])
+
+      expect(gameReducer(played, startAction())).toMatchObject({ currentStreak: 0, longestStreak: 0 })
+    })
+  })
+
+  describe('sets of three', () => {
+    // Triples at ids 0-2, 3-5, 6-8, 9-11, 12-14 with a blank at 15
+    const tripleBoard = createGameBoard('easy', MOCK_CATEGORIES[0], 1, 3)
+      .sort((a, b) => Number(a.isBlank ?? false) - Number(b.isBlank ?? false) || a.pairId - b.pairId)
+      .map((card, index) => ({ ...card, id: index }))
+    const startTriples = startAction({ setSize: 3, board: tripleBoard })
+
+    it('should only match once the whole set is flipped', () => {
+      const flipped = playActions([
+        startTriples,
+        { type: 'FLIP_CARD', payload: { cardId: 0 } },
+        { type: 'FLIP_CARD', payload: { cardId: 1 } },
+        { type: 'FLIP_CARD', payload: { cardId: 2 } },
+      ])
+
+      expect(flipped.flippedCards).toEqual([0, 1, 2])
+      expect(gameReducer(flipped, { type: 'MATCH_CARDS', payload: { cardIds: [0, 1] } })).toBe(flipped)
+
+      const matched = gameReducer(flipped, { type: 'MATCH_CARDS', payload: { cardIds: [0, 1, 2] } })
+      expect(matched.matchedPairs).toHaveLength(1)
+      expect(matched.moves).toBe(1)
+    })
+
+    it('should stop accepting flips once a mismatch is showing', () => {
+      const state = playActions([
+        startTriples,
+        { type: 'FLIP_CARD', payload: { cardId: 0 } },
+        { type: 'FLIP_CARD', payload: { cardId: 3 } },
+      ])
+
+      expect(gameReducer(state, { type: 'FLIP_CARD', payload: { cardId: 1 } })).toBe(state)
+    })
+  })
+})
@@ -0,0 +1,65 @@
+import { findBestRun, formatGhostDelta, getGhostProgress, updateBestRuns } from '../../app/utils/ghost'
+import { BestRun } from '../../app/types/game'
+
+const run = (overrides: Partial<BestRun> = {}): BestRun => ({
+  difficulty: 'easy',
+  category: 'food',
+  setSize: 2,
+  time: 30,
+  splits: [5000, 12000, 30000],
+  date: '2026-01-01T00:00:00.000Z',
+  ...overrides,
+})
+
+describe('best runs', () => {
+  it('should find the run for a board by difficulty, category and set size', () => {
+    const runs = [run(), run({ category: 'animals', time: 20 }), run({ setSize: 3, time: 40 })]
+
+    expect(findBestRun(runs, 'easy', 'animals')?.time).toBe(20)
+    expect(findBestRun(runs, 'easy', 'food', 3)?.time).toBe(40)
+    expect(findBestRun(runs, 'hard', 'food')).toBeUndefined()
+  })
+
+  it('should keep only the fastest run per board', () => {
+    const runs = [run(), run({ category: 'animals' })]
+    const faster = run({ time: 25 })
+
+    expect(updateBestRuns(runs, faster)).toEqual([run({ category: 'animals' }), faster])
+    expect(updateBestRuns(runs, run({ time: 31 }))).toBe(runs)
+    expect(updateBestRuns([], faster)).toEqual([faster])
+  })
+})
+
+describe('getGhostProgress', () => {
+  const ghost = [5000, 12000, 30000]
+
+  it('should advance the ghost along its own split times', () => {
+    expect(getGhostProgress(ghost, [], 0).matches).toBe(0)
+    expect(getGhostProgress(ghost, [], 12000).matches).toBe(2)
+    expect(getGhostProgress(ghost, [], 99000)).toMatchObject({ matches: 3, total: 3 })
+  })
+
+  it('should have nothing to compare before either side has matched', () => {
+    expect(getGhostProgress(ghost, [], 4000).deltaMs).toBeNull()
+  })
+
+  it('should compare the player\'s last match with the ghost\'s', () => {
+    expect(getGhostProgress(ghost, [3800], 6000).deltaMs).toBe(-1200)
+    expect(getGhostProgress(ghost, [3800, 13500], 14000).deltaMs).toBe(1500)
+  })
+
+  it('should count up live once the player is overdue on the next match', () => {
+    // The ghost matched at 5.0s; the player still hasn't
+    expect(getGhostProgress(ghost, [], 8200).deltaMs).toBe(3200)
+    // Ahead at the first match, but the ghost's second split has passed
+    expect(getGhostProgress(ghost, [3800], 13000).deltaMs).toBe(1000)
+  })
+})
+
+describe('formatGhostDelta', () => {
+  it('should show the gap to a tenth of a second', () => {
+    expect(formatGhostDelta(-3200)).toBe('−3.2s ahead')
+    expect(formatGhostDelta(1540)).toBe('+1.5s behind')
+    expect(formatGhostDelta(20)).toBe('Level with your ghost')
+  })
+})
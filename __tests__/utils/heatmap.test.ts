@@ -0,0 +1,60 @@
+import { buildHeatmap, getHeatValue, getHottestLines } from '../../app/utils/heatmap'
+import { GameAction } from '../../app/types/game'
+import { play, start, turn } from './test-helpers/test-utils'
+
+const tick = (timeElapsed: number): GameAction => ({ type: 'UPDATE_TIME', payload: { timeElapsed } })
+
+describe('buildHeatmap', () => {
+  it('should count every flip of every card', () => {
+    const heatmap = buildHeatmap(play(start(), ...turn(0, 2), ...turn(0, 1)).history)
+
+    expect(heatmap[0].flips).toBe(2)
+    expect(heatmap[1].flips).toBe(1)
+    expect(heatmap[2].flips).toBe(1)
+    expect(heatmap[5].flips).toBe(0)
+  })
+
+  it('should time each card from its first reveal to its match on the game clock', () => {
+    const heatmap = buildHeatmap(play(start(), tick(2), ...turn(0, 2), tick(9), ...turn(0, 1)).history)
+
+    expect(heatmap[0].secondsToMatch).toBe(7)
+    expect(heatmap[1].secondsToMatch).toBe(0)
+    expect(heatmap[2].secondsToMatch).toBeNull()
+  })
+
+  it('should time from the start of play after a memorize phase', () => {
+    const state = play(start({ preview: 3 }), { type: 'END_PREVIEW' }, tick(4), ...turn(0, 1))
+
+    expect(buildHeatmap(state.history)[0].secondsToMatch).toBe(4)
+  })
+
+  it('should mark the cards flipped in memory errors', () => {
+    // Card 0 has been seen, so pairing card 1 with card 4 is a memory error
+    const heatmap = buildHeatmap(play(start(), ...turn(0, 2), ...turn(1, 4)).history)
+
+    expect(heatmap[1].errors).toBe(1)
+    expect(heatmap[4].errors).toBe(1)
+    expect(heatmap[0].errors).toBe(0)
+  })
+
+  it('should return an empty heatmap for an empty log', () => {
+    expect(buildHeatmap([])).toEqual({})
+    expect(getHeatValue(undefined, 'flips')).toBeNull()
+  })
+})
+
+describe('getHottestLines', () => {
+  it('should find the row and column with the highest average', () => {
+    // 4×4 board: card ids match their grid positions
+    const state = play(start(), ...turn(5, 2), ...turn(5, 8), ...turn(5, 10))
+    const heatmap = buildHeatmap(state.history)
+
+    expect(getHottestLines(state.board, 4, heatmap, 'flips')).toEqual({ row: 1, column: 1 })
+  })
+
+  it('should report nothing when no position has a value', () => {
+    const state = play(start())
+
+    expect(getHottestLines(state.board, 4, buildHeatmap(state.history), 'timeToMatch')).toEqual({ row: null, column: null })
+  })
+})
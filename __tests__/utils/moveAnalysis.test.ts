@@ -0,0 +1,77 @@
+import { analyzeMoves, analyzeTurns, getMemoryStats } from '../../app/utils/moveAnalysis'
+import { play, start, turn } from './test-helpers/test-utils'
+
+describe('analyzeMoves', () => {
+  it('should count a match between two unseen cards as lucky', () => {
+    const { history } = play(start(), ...turn(0, 1))
+
+    expect(analyzeMoves(history)).toEqual({ luckyMatches: 1, avoidableMistakes: 0 })
+  })
+
+  it('should not count a match from memory as lucky', () => {
+    const { history } = play(start(), ...turn(0, 2), ...turn(1, 0))
+
+    expect(analyzeMoves(history)).toEqual({ luckyMatches: 0, avoidableMistakes: 0 })
+  })
+
+  it('should treat mismatches while exploring as unavoidable', () => {
+    const { history } = play(start(), ...turn(0, 2), ...turn(4, 6))
+
+    expect(analyzeMoves(history).avoidableMistakes).toBe(0)
+  })
+
+  it('should flag a mismatch when the partner of the first card was known', () => {
+    // Card 0 is seen, then card 1 turns up first but the player misses card 0
+    const { history } = play(start(), ...turn(0, 2), ...turn(1, 4))
+
+    expect(analyzeMoves(history).avoidableMistakes).toBe(1)
+  })
+
+  it('should flag a mismatch when a whole pair was already known', () => {
+    // Cards 0 and 1 have both been seen, so the next turn should take them
+    const { history } = play(start(), ...turn(0, 2), ...turn(1, 4), ...turn(6, 8))
+
+    expect(analyzeMoves(history).avoidableMistakes).toBe(2)
+  })
+
+  it('should treat every card as seen after a memorize phase', () => {
+    const { history } = play(start({ preview: 5 }), { type: 'END_PREVIEW' }, ...turn(0, 1), ...turn(2, 4))
+
+    expect(analyzeMoves(history)).toEqual({ luckyMatches: 0, avoidableMistakes: 1 })
+  })
+
+  it('should return an empty analysis for an empty log', () => {
+    expect(analyzeMoves([])).toEqual({ luckyMatches: 0, avoidableMistakes: 0 })
+  })
+})
+
+describe('analyzeTurns', () => {
+  it('should classify every turn in order', () => {
+    const turns = analyzeTurns(play(start(), ...turn(0, 2), ...turn(1, 4), ...turn(0, 1), ...turn(2, 3)).history)
+
+    expect(turns.map(entry => entry.kind)).toEqual(['exploring', 'memoryError', 'remembered', 'lucky'])
+    expect(turns.map(entry => entry.turn)).toEqual([1, 2, 3, 4])
+  })
+
+  it('should record whether each flipped card and its partner had been seen', () => {
+    const [, second] = analyzeTurns(play(start(), ...turn(0, 2), ...turn(1, 4)).history)
+
+    expect(second.flips).toEqual([
+      { cardId: 1, emoji: expect.any(String), seenBefore: false, partnerKnown: true },
+      { cardId: 4, emoji: expect.any(String), seenBefore: false, partnerKnown: false },
+    ])
+  })
+
+  it('should leave an unfinished turn out of the timeline', () => {
+    const state = play(start(), ...turn(0, 1), { type: 'FLIP_CARD', payload: { cardId: 2 } })
+
+    expect(analyzeTurns(state.history)).toHaveLength(1)
+  })
+
+  it('should count turns of each kind', () => {
+    const turns = analyzeTurns(play(start(), ...turn(0, 2), ...turn(4, 6), ...turn(1, 0)).history)
+
+    expect(getMemoryStats(turns)).toEqual({ remembered: 1, lucky: 0, exploring: 2, memoryError: 0 })
+    expect(getMemoryStats([])).toEqual({ remembered: 0, lucky: 0, exploring: 0, memoryError: 0 })
+  })
+})
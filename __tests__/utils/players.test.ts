@@ -0,0 +1,79 @@
+import {
+  PLAYER_LIMITS,
+  createPlayers,
+  getDefaultPlayerSetups,
+  getPlayerSetups,
+  getStandings,
+  getWinners,
+} from '../../app/utils/players'
+import { Player } from '../../app/types/game'
+
+const player = (name: string, matches: number, score = matches * 100): Player => ({
+  name,
+  color: 'blue',
+  matches,
+  score,
+})
+
+describe('player utilities', () => {
+  describe('createPlayers', () => {
+    it('should start every player with empty tallies', () => {
+      const players = createPlayers(getDefaultPlayerSetups(3))
+
+      expect(players.map(p => p.name)).toEqual(['Player 1', 'Player 2', 'Player 3'])
+      expect(new Set(players.map(p => p.color)).size).toBe(3)
+      expect(players.every(p => p.matches === 0 && p.score === 0)).toBe(true)
+    })
+
+    it('should tidy names and fall back to defaults', () => {
+      const players = createPlayers([
+        { name: '  Ann  ', color: 'red' },
+        { name: '   ', color: 'green' },
+      ])
+
+      expect(players.map(p => p.name)).toEqual(['Ann', 'Player 2'])
+    })
+
+    it('should treat fewer than two players as solo and cap the table size', () => {
+      expect(createPlayers([])).toEqual([])
+      expect(createPlayers(getDefaultPlayerSetups(1))).toEqual([])
+      expect(createPlayers(getDefaultPlayerSetups(6))).toHaveLength(PLAYER_LIMITS.MAX_PLAYERS)
+    })
+  })
+
+  describe('getWinners', () => {
+    it('should pick the player with the most matches', () => {
+      expect(getWinners([player('Ann', 3), player('Bo', 5)]).map(p => p.name)).toEqual(['Bo'])
+    })
+
+    it('should return every tied player without using score as a tie-breaker', () => {
+      const winners = getWinners([player('Ann', 4, 900), player('Bo', 2), player('Cy', 4, 100)])
+
+      expect(winners.map(p => p.name)).toEqual(['Ann', 'Cy'])
+    })
+
+    it('should return nobody for a solo game', () => {
+      expect(getWinners([])).toEqual([])
+    })
+  })
+
+  describe('getStandings', () => {
+    it('should order by matches and then score without mutating the input', () => {
+      const players = [player('Ann', 2), player('Bo', 4, 300), player('Cy', 4, 500)]
+
+      expect(getStandings(players).map(p => p.name)).toEqual(['Cy', 'Bo', 'Ann'])
+      expect(players[0].name).toBe('Ann')
+    })
+  })
+
+  describe('getPlayerSetups', () => {
+    it('should drop tallies but keep computer players', () => {
+      const players = [player('Ann', 3), { ...player('Computer', 2), color: 'red' as const, bot: 'perfect' as const }]
+
+      expect(getPlayerSetups(players)).toEqual([
+        { name: 'Ann', color: 'blue' },
+        { name: 'Computer', color: 'red', bot: 'perfect' },
+      ])
+    })
+  })
+})
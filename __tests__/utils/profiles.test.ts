@@ -0,0 +1,104 @@
+import {
+  DEFAULT_PROFILE_ID,
+  PROFILE_LIMITS,
+  ProfileRegistry,
+  addProfile,
+  createDefaultRegistry,
+  getProfileExportFileName,
+  getProfileKey,
+  parseProfileRegistry,
+  removeProfile,
+  setActiveProfile,
+  updateProfile
+} from '../../app/utils/profiles'
+
+const now = new Date('2026-03-01T10:00:00.000Z')
+
+// A fixed random source gives every added profile a predictable id
+const withProfiles = (...names: string[]): ProfileRegistry =>
+  names.reduce((registry, name, index) => addProfile(registry, name, '🦊', () => (index + 1) / 100, now), createDefaultRegistry(now))
+
+describe('createDefaultRegistry', () => {
+  it('should turn the existing data into an active first profile', () => {
+    const registry = createDefaultRegistry(now)
+
+    expect(registry.activeId).toBe(DEFAULT_PROFILE_ID)
+    expect(registry.profiles).toEqual([{ id: DEFAULT_PROFILE_ID, name: 'Player 1', avatar: '🙂', createdAt: '2026-03-01T10:00:00.000Z' }])
+  })
+})
+
+describe('getProfileKey', () => {
+  it('should keep the original key for the first profile and suffix the others', () => {
+    expect(getProfileKey('emoji-memory-game-data', DEFAULT_PROFILE_ID)).toBe('emoji-memory-game-data')
+    expect(getProfileKey('emoji-memory-game-data', 'k3x9a0qe')).toBe('emoji-memory-game-data:k3x9a0qe')
+  })
+})
+
+describe('parseProfileRegistry', () => {
+  it('should reject missing, malformed or empty registries', () => {
+    expect(parseProfileRegistry(null)).toBeNull()
+    expect(parseProfileRegistry('{not json')).toBeNull()
+    expect(parseProfileRegistry(JSON.stringify({ version: 1, activeId: 'default', profiles: [] }))).toBeNull()
+    expect(parseProfileRegistry(JSON.stringify({ version: 1, activeId: 'default', profiles: [{ id: 'default' }] }))).toBeNull()
+  })
+
+  it('should fall back to the first profile when the active one is unknown', () => {
+    const stored = { ...withProfiles('Anna'), activeId: 'gone' }
+
+    expect(parseProfileRegistry(JSON.stringify(stored))?.activeId).toBe(DEFAULT_PROFILE_ID)
+  })
+})
+
+describe('addProfile', () => {
+  it('should add a trimmed profile and make it active', () => {
+    const registry = addProfile(createDefaultRegistry(now), '  Anna  ', '🦊', () => 0.5, now)
+    const anna = registry.profiles[1]
+
+    expect(registry.activeId).toBe(anna.id)
+    expect(anna).toMatchObject({ name: 'Anna', avatar: '🦊' })
+    expect(anna.id).toHaveLength(8)
+  })
+
+  it('should reject an empty name or a full device', () => {
+    const names = Array.from({ length: PROFILE_LIMITS.MAX_PROFILES - 1 }, (_, index) => `Player ${index + 2}`)
+
+    expect(() => addProfile(createDefaultRegistry(now), '   ', '🦊')).toThrow('Profile name cannot be empty')
+    expect(() => addProfile(withProfiles(...names), 'One more', '🦊')).toThrow(`at most ${PROFILE_LIMITS.MAX_PROFILES} profiles`)
+  })
+})
+
+describe('updateProfile', () => {
+  it('should rename a profile and change its avatar', () => {
+    const registry = updateProfile(createDefaultRegistry(now), DEFAULT_PROFILE_ID, { name: 'Dana', avatar: '🚀' })
+
+    expect(registry.profiles[0]).toMatchObject({ name: 'Dana', avatar: '🚀' })
+    expect(() => updateProfile(registry, DEFAULT_PROFILE_ID, { name: '' })).toThrow('Profile name cannot be empty')
+  })
+})
+
+describe('removeProfile', () => {
+  it('should switch to the first remaining profile when the active one is removed', () => {
+    const registry = withProfiles('Anna', 'Ben')
+    const ben = registry.profiles[2]
+
+    const removed = removeProfile(registry, ben.id)
+    expect(removed.profiles.map(profile => profile.name)).toEqual(['Player 1', 'Anna'])
+    expect(removed.activeId).toBe(DEFAULT_PROFILE_ID)
+
+    const anna = registry.profiles[1]
+    expect(removeProfile(setActiveProfile(registry, ben.id), anna.id).activeId).toBe(ben.id)
+  })
+
+  it('should keep the last profile', () => {
+    expect(() => removeProfile(createDefaultRegistry(now), DEFAULT_PROFILE_ID)).toThrow('The last profile cannot be deleted')
+  })
+})
+
+describe('getProfileExportFileName', () => {
+  it('should name the file after the profile and date', () => {
+    const profile = { id: 'k3x9a0qe', name: 'Anna & Ben!', avatar: '🦊', createdAt: now.toISOString() }
+
+    expect(getProfileExportFileName(profile, now)).toBe('emoji-memory-anna-ben-2026-03-01.json')
+    expect(getProfileExportFileName({ ...profile, name: '🦊' }, now)).toBe('emoji-memory-profile-2026-03-01.json')
+  })
+})
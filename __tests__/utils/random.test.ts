@@ -0,0 +1,76 @@
+import {
+  createSeededRandom,
+  generateSeed,
+  formatSeed,
+  parseSeed,
+  MAX_SEED,
+} from '../../app/utils/random'
+
+describe('random utilities', () => {
+  describe('createSeededRandom', () => {
+    it('should produce the same sequence for the same seed', () => {
+      const first = createSeededRandom(12345)
+      const second = createSeededRandom(12345)
+
+      for (let i = 0; i < 20; i++) {
+        expect(first()).toBe(second())
+      }
+    })
+
+    it('should produce different sequences for different seeds', () => {
+      const first = createSeededRandom(1)
+      const second = createSeededRandom(2)
+
+      const firstValues = Array.from({ length: 5 }, () => first())
+      const secondValues = Array.from({ length: 5 }, () => second())
+
+      expect(firstValues).not.toEqual(secondValues)
+    })
+
+    it('should return values in the [0, 1) range', () => {
+      const random = createSeededRandom(MAX_SEED)
+
+      for (let i = 0; i < 1000; i++) {
+        const value = random()
+        expect(value).toBeGreaterThanOrEqual(0)
+        expect(value).toBeLessThan(1)
+      }
+    })
+  })
+
+  describe('generateSeed', () => {
+    it('should return an unsigned 32-bit integer', () => {
+      const seed = generateSeed()
+
+      expect(Number.isInteger(seed)).toBe(true)
+      expect(seed).toBeGreaterThanOrEqual(0)
+      expect(seed).toBeLessThanOrEqual(MAX_SEED)
+    })
+  })
+
+  describe('formatSeed and parseSeed', () => {
+    it('should round-trip seeds through the shareable format', () => {
+      const seeds = [0, 1, 35, 36, 123456789, MAX_SEED]
+
+      seeds.forEach(seed => {
+        expect(parseSeed(formatSeed(seed))).toBe(seed)
+      })
+    })
+
+    it('should format seeds as uppercase codes', () => {
+      expect(formatSeed(35)).toBe('Z')
+      expect(formatSeed(MAX_SEED)).toBe('1Z141Z3')
+    })
+
+    it('should accept lowercase and surrounding whitespace', () => {
+      expect(parseSeed('  z ')).toBe(35)
+    })
+
+    it('should reject invalid input', () => {
+      expect(parseSeed('')).toBeNull()
+      expect(parseSeed('ABC-12')).toBeNull()
+      expect(parseSeed('ZZZZZZZZ')).toBeNull()
+      expect(parseSeed('ZZZZZZZ')).toBeNull() // exceeds 32 bits
+    })
+  })
+})
@@ -0,0 +1,143 @@
+import { gameReducer, initialGameState } from '../../app/utils/gameReducer'
+import {
+  REPLAY_VERSION,
+  createReplay,
+  serializeReplay,
+  parseReplay,
+  buildReplayFrames,
+  getFrameIndexAtTime,
+} from '../../app/utils/replay'
+import { GameAction, GameState } from '../../app/types/game'
+import { MOCK_CATEGORIES, createMockBoard } from '../fixtures/data/game-data'
+
+const playActions = (actions: GameAction[]): GameState =>
+  actions.reduce((state, action) => gameReducer(state, action), initialGameState)
+
+const board = createMockBoard('easy')
+
+// Cards 0/1 share a pair in the mock board, cards 2/4 do not
+const sampleGame: GameAction[] = [
+  { type: 'START_GAME', payload: { difficulty: 'easy', category: MOCK_CATEGORIES[0], seed: 7, board }, timestamp: 1000 },
+  { type: 'FLIP_CARD', payload: { cardId: 2 }, timestamp: 2000 },
+  { type: 'FLIP_CARD', payload: { cardId: 4 }, timestamp: 2500 },
+  { type: 'UNMATCH_CARDS', payload: { cardIds: [2, 4] }, timestamp: 4500 },
+  { type: 'PAUSE_GAME', timestamp: 5000 },
+  { type: 'RESUME_GAME', timestamp: 65000 },
+  { type: 'UPDATE_TIME', payload: { timeElapsed: 5 }, timestamp: 65500 },
+  { type: 'FLIP_CARD', payload: { cardId: 0 }, timestamp: 66000 },
+  { type: 'FLIP_CARD', payload: { cardId: 1 }, timestamp: 66500 },
+  { type: 'MATCH_CARDS', payload: { cardIds: [0, 1] }, timestamp: 68000 },
+]
+
+describe('replay recording and playback', () => {
+  it('should record accepted actions with their timestamps', () => {
+    const state = playActions(sampleGame)
+
+    expect(state.history.map(event => event.type)).toEqual(sampleGame.map(action => action.type))
+    expect(state.history[0].payload?.board).toEqual(board)
+    expect(state.history[3].timestamp).toBe(4500)
+  })
+
+  it('should not record rejected actions or actions before the game starts', () => {
+    const state = playActions([
+      { type: 'PAUSE_GAME', timestamp: 1 },
+      ...sampleGame.slice(0, 2),
+      { type: 'FLIP_CARD', payload: { cardId: 2 }, timestamp: 2100 }, // already flipped
+    ])
+
+    expect(state.history.map(event => event.type)).toEqual(['START_GAME', 'FLIP_CARD'])
+  })
+
+  it('should clear the log on reset', () => {
+    const state = gameReducer(playActions(sampleGame), { type: 'RESET_GAME' })
+
+    expect(state.history).toEqual([])
+  })
+
+  it('should rebuild the exact final state from a replay', () => {
+    const finalState = playActions(sampleGame)
+    const frames = buildReplayFrames(createReplay(finalState))
+    const lastFrame = frames[frames.length - 1].state
+
+    expect(frames).toHaveLength(sampleGame.length)
+    expect(lastFrame.board).toEqual(finalState.board)
+    expect(lastFrame.moves).toBe(finalState.moves)
+    expect(lastFrame.score).toBe(finalState.score)
+    expect(lastFrame.timeElapsed).toBe(finalState.timeElapsed)
+  })
+
+  it('should collapse pauses on the playback timeline', () => {
+    const frames = buildReplayFrames(createReplay(playActions(sampleGame)))
+    const resumeFrame = frames.find(frame => frame.event.type === 'RESUME_GAME')!
+
+    // 4000ms of play before the pause, then the 60s pause collapses to 1s
+    expect(resumeFrame.playbackTime).toBe(5000)
+    expect(getFrameIndexAtTime(frames, 0)).toBe(0)
+    expect(getFrameIndexAtTime(frames, 4600)).toBe(4)
+    expect(getFrameIndexAtTime(frames, Infinity)).toBe(frames.length - 1)
+  })
+
+  describe('parseReplay', () => {
+    it('should round-trip through JSON', () => {
+      const replay = createReplay(playActions(sampleGame))
+
+      expect(parseReplay(serializeReplay(replay))).toEqual(replay)
+    })
+
+    it('should reject invalid JSON', () => {
+      expect(() => parseReplay('not json')).toThrow('not valid JSON')
+    })
+
+    it('should reject replays from newer versions', () => {
+      const replay = { ...createReplay(playActions(sampleGame)), version: REPLAY_VERSION + 1 }
+
+      expect(() => parseReplay(JSON.stringify(replay))).toThrow('newer version')
+    })
+
+    it('should require a START_GAME event with a board', () => {
+      const replay = createReplay(playActions(sampleGame))
+      const withoutStart = { ...replay, events: replay.events.slice(1) }
+
+      expect(() => parseReplay(JSON.stringify(withoutStart))).toThrow('START_GAME')
+    })
+
+    it('should accept custom board sizes but reject unknown difficulties', () => {
+      const replay = createReplay(playActions(sampleGame))
+
+      expect(parseReplay(JSON.stringify({ ...replay, difficulty: 'custom:4x4:abc123' })).difficulty).toBe('custom:4x4:abc123')
+      expect(() => parseReplay(JSON.stringify({ ...replay, difficulty: 'legendary' }))).toThrow('unknown difficulty')
+    })
+
+    it('should check the START_GAME payload before it is played', () => {
+      const replay = createReplay(playActions(sampleGame))
+      const [startEvent, ...rest] = replay.events
+      const withStart = (payload: object) =>
+        JSON.stringify({ ...replay, events: [{ ...startEvent, payload: { ...startEvent.payload, ...payload } }, ...rest] })
+
+      expect(() => parseReplay(withStart({ difficulty: 'bogus' })))
+        .toThrow('Replay has an invalid start: start.difficulty must be a difficulty')
+      expect(() => parseReplay(withStart({ scoringRules: 'constructor' }))).toThrow('start.scoringRules must be a scoring rule set')
+      expect(() => parseReplay(withStart({ board: [{ ...board[0], emoji: 7 }, ...board.slice(1)] }))).toThrow('start.board[0].emoji must be text')
+      expect(() => parseReplay(withStart({ players: [{ name: 'Ann', color: 'purple' }] }))).toThrow('start.players[0].color must be a player color')
+      expect(() => parseReplay(withStart({ difficulty: 'hard' }))).toThrow('Replay board has 16 cards, but a 6×6 board needs 36')
+    })
+
+    it('should reject events the game never records or that point off the board', () => {
+      const replay = createReplay(playActions(sampleGame))
+      const withEvent = (index: number, event: object) => {
+        const events = [...replay.events]
+        events[index] = { ...events[index], ...event }
+        return JSON.stringify({ ...replay, events })
+      }
+
+      expect(() => parseReplay(withEvent(4, { type: 'RESTORE_GAME', payload: { snapshot: { history: [] } } })))
+        .toThrow('Replay contains an event the game never records: RESTORE_GAME')
+      expect(() => parseReplay(withEvent(4, { type: 'START_GAME' }))).toThrow('never records: START_GAME')
+      expect(() => parseReplay(withEvent(1, { payload: { cardId: 99 } })))
+        .toThrow('Replay has an invalid event: events[1].payload.cardId must be a card on the board')
+      expect(() => parseReplay(withEvent(1, { payload: undefined }))).toThrow('events[1].payload must be an object')
+      expect(() => parseReplay(withEvent(9, { payload: { cardIds: [0] } }))).toThrow('events[9].payload.cardIds must list 2 cards')
+      expect(() => parseReplay(withEvent(3, { payload: { cardIds: [2, 40] } }))).toThrow('events[3].payload.cardIds[1] must be a card on the board')
+    })
+  })
+})
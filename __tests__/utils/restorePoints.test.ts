@@ -0,0 +1,99 @@
+import {
+  RESTORE_POINT_LIMITS,
+  RestorePoint,
+  addRestorePoint,
+  hasRestorePointOn,
+  parseRestorePoints,
+  pruneRestorePoints,
+  summarizeRestorePoint
+} from '../../app/utils/restorePoints'
+import { defaultLocalStorageData } from '../../app/utils/storageSchema'
+import { LocalStorageData } from '../../app/types/game'
+
+const played = (totalGames: number): LocalStorageData => ({
+  ...defaultLocalStorageData,
+  gameStats: { ...defaultLocalStorageData.gameStats, totalGames, gamesWon: totalGames, completionRate: 100, bestTimes: { easy: 41.25 } },
+  highScores: [
+    { difficulty: 'easy', category: 'food', moves: 12, time: 41.25, score: 1800, date: '2026-03-01T10:00:00.000Z' },
+    { difficulty: 'easy', category: 'food', moves: 14, time: 50, score: 2100, date: '2026-03-02T10:00:00.000Z' },
+  ],
+})
+
+// Local noon on a day in March, plus some minutes, so calendar days don't depend on the time zone
+const at = (day: number, minutes = 0) => new Date(2026, 2, day, 12, minutes)
+
+// One point per game played, each a minute apart on the given day
+const pointsOn = (day: number, count: number, from = 1): RestorePoint[] =>
+  Array.from({ length: count }, (_, index) =>
+    addRestorePoint([], played(from + index), 'daily', at(day, index))[0])
+
+describe('addRestorePoint', () => {
+  it('should add a snapshot newest first', () => {
+    const points = addRestorePoint(pointsOn(10, 1), played(2), 'clearStats', at(10, 5))
+
+    expect(points.map(point => point.reason)).toEqual(['clearStats', 'daily'])
+  })
+
+  it('should skip data with no progress and data identical to the newest snapshot', () => {
+    const points = pointsOn(10, 1)
+
+    expect(addRestorePoint(points, defaultLocalStorageData, 'clearAllData', at(10, 5))).toBe(points)
+    expect(addRestorePoint(points, played(1), 'clearStats', at(10, 5))).toBe(points)
+  })
+})
+
+describe('pruneRestorePoints', () => {
+  it('should keep the most recent snapshots', () => {
+    const points = pruneRestorePoints(pointsOn(10, 15), at(10, 30))
+
+    expect(points).toHaveLength(RESTORE_POINT_LIMITS.RECENT)
+    expect(summarizeRestorePoint(points[0])?.gamesPlayed).toBe(15)
+  })
+
+  it('should also keep the newest snapshot of each of the last week\'s days', () => {
+    const older = [3, 4, 5, 6, 7, 8].flatMap(day => pointsOn(day, 2, day * 10))
+    const points = pruneRestorePoints([...older, ...pointsOn(10, 12, 100)], at(10, 30))
+    const keptDays = points.slice(RESTORE_POINT_LIMITS.RECENT).map(point => new Date(point.createdAt).getDate())
+
+    // March 3 is more than a week before March 10
+    expect(keptDays).toEqual([8, 7, 6, 5, 4])
+  })
+})
+
+describe('hasRestorePointOn', () => {
+  it('should only count snapshots from the same calendar day', () => {
+    expect(hasRestorePointOn(pointsOn(9, 1), at(10))).toBe(false)
+    expect(hasRestorePointOn(pointsOn(10, 1), at(10, 45))).toBe(true)
+  })
+})
+
+describe('parseRestorePoints', () => {
+  it('should skip malformed entries', () => {
+    const [point] = pointsOn(10, 1)
+    const json = JSON.stringify([point, { ...point, reason: 'whim' }, { createdAt: 'never' }, null])
+
+    expect(parseRestorePoints(json)).toEqual([point])
+    expect(parseRestorePoints(JSON.stringify([{ ...point, reason: 'constructor' }, { ...point, reason: 'toString' }]))).toEqual([])
+    expect(parseRestorePoints('{oops')).toEqual([])
+    expect(parseRestorePoints(null)).toEqual([])
+  })
+})
+
+describe('summarizeRestorePoint', () => {
+  it('should summarise games played, best score and best times', () => {
+    const summary = summarizeRestorePoint(pointsOn(10, 1, 7)[0])
+
+    expect(summary).toMatchObject({
+      gamesPlayed: 7,
+      gamesWon: 7,
+      bestScore: 2100,
+      bestTimes: [{ difficulty: 'easy', time: 41.25 }],
+    })
+  })
+
+  it('should report a snapshot that no longer loads', () => {
+    const [point] = pointsOn(10, 1)
+
+    expect(summarizeRestorePoint({ ...point, data: '{"version": 99}' })).toBeNull()
+  })
+})
@@ -0,0 +1,94 @@
+import {
+  SAVED_GAME_VERSION,
+  createSavedGame,
+  getResumeState,
+  isResumable,
+  parseSavedGame
+} from '../../app/utils/savedGame'
+import { gameReducer, initialGameState } from '../../app/utils/gameReducer'
+import { GameAction, GameState } from '../../app/types/game'
+import { flip, play, start, turn } from './test-helpers/test-utils'
+
+// Saved games are played on the hard board, started at a known moment
+const startHard = (payload: GameAction['payload'] = {}): GameAction => start({ difficulty: 'hard', ...payload }, 1000)
+
+// Round-trip through JSON the way localStorage does
+const roundTrip = (state: GameState) => parseSavedGame(JSON.stringify(createSavedGame(state)))
+
+describe('isResumable', () => {
+  it('should only save games that are under way', () => {
+    expect(isResumable(initialGameState)).toBe(false)
+    expect(isResumable(play(startHard(), ...turn(0, 1)))).toBe(true)
+    expect(isResumable(play(startHard(), ...turn(0, 1), { type: 'PAUSE_GAME' }))).toBe(true)
+    expect(isResumable(play(startHard({ preview: 3 })))).toBe(false)
+    expect(isResumable(play(startHard({ lives: 1 }), ...turn(0, 2)))).toBe(false)
+  })
+})
+
+describe('parseSavedGame', () => {
+  it('should round-trip a game in progress', () => {
+    const state = play(startHard(), ...turn(0, 1), ...turn(2, 4))
+    const saved = roundTrip(state)
+
+    expect(saved?.version).toBe(SAVED_GAME_VERSION)
+    expect(saved?.state).toEqual(state)
+  })
+
+  it('should reject missing, corrupt and outdated snapshots', () => {
+    const state = play(startHard(), ...turn(0, 1))
+
+    expect(parseSavedGame(null)).toBeNull()
+    expect(parseSavedGame('{not json')).toBeNull()
+    expect(parseSavedGame(JSON.stringify({ ...createSavedGame(state), version: SAVED_GAME_VERSION + 1 }))).toBeNull()
+    expect(parseSavedGame(JSON.stringify(createSavedGame({ ...state, difficulty: 'impossible' as never })))).toBeNull()
+    expect(parseSavedGame(JSON.stringify(createSavedGame({ ...state, history: [] })))).toBeNull()
+  })
+
+  it('should not offer a finished game', () => {
+    const state = play(startHard({ lives: 1 }), ...turn(0, 2))
+
+    expect(roundTrip(state)).toBeNull()
+  })
+})
+
+describe('getResumeState', () => {
+  it('should come back paused with the board, moves, time and seed intact', () => {
+    const state = play(startHard(), ...turn(0, 1), ...turn(2, 4), { type: 'UPDATE_TIME', payload: { timeElapsed: 42 } })
+    const resumed = getResumeState(roundTrip(state)!)
+
+    expect(resumed.gameStatus).toBe('paused')
+    expect(resumed.board).toEqual(state.board)
+    expect(resumed.matchedPairs).toEqual([0])
+    expect(resumed.moves).toBe(2)
+    expect(resumed.timeElapsed).toBe(42)
+    expect(resumed.seed).toBe(7)
+  })
+
+  it('should turn a half-flipped pair back over and drop its flips from the log', () => {
+    const state = play(startHard(), ...turn(0, 1), flip(4), flip(6))
+    const resumed = getResumeState(roundTrip(state)!)
+
+    expect(resumed.flippedCards).toEqual([])
+    expect(resumed.board.filter(card => card.isFlipped && !card.isMatched)).toEqual([])
+    expect(resumed.history.filter(event => event.type === 'FLIP_CARD')).toHaveLength(2)
+  })
+
+  it('should log the time away as a pause', () => {
+    const resumed = getResumeState(roundTrip(play(startHard(), ...turn(0, 1, 3000)))!)
+
+    expect(resumed.history[resumed.history.length - 1]).toEqual({ type: 'PAUSE_GAME', timestamp: 3000 })
+  })
+
+  it('should carry on playing through the reducer after resuming', () => {
+    const resumed = getResumeState(roundTrip(play(startHard(), ...turn(0, 1), flip(4)))!)
+    const state = [{ type: 'RESUME_GAME' } as GameAction, ...turn(4, 5)].reduce(
+      gameReducer,
+      gameReducer(initialGameState, { type: 'RESTORE_GAME', payload: { snapshot: resumed } })
+    )
+
+    expect(state.gameStatus).toBe('playing')
+    expect(state.matchedPairs).toEqual([0, 2])
+    expect(state.moves).toBe(2)
+    expect(state.currentStreak).toBe(2)
+  })
+})
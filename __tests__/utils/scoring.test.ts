@@ -0,0 +1,175 @@
+import {
+  SCORING_CONFIG,
+  calculateGameScore,
+  calculateLivesBonus,
+  calculateScoreBreakdown,
+  calculateOptimalMoves,
+  calculateExpectedMoves,
+  calculateEfficiencyRating,
+  calculateMoveEfficiencyScore,
+  isPerfectGame,
+  calculateSetPoints,
+  calculateStreakBonus,
+  calculateTotalStreakBonus,
+  calculateMatchScore,
+  getDifficultyMultiplier,
+  formatTime,
+  formatPreciseTime,
+} from '../../app/utils/scoring'
+
+describe('scoring utilities', () => {
+  describe('calculateLivesBonus', () => {
+    it('should award points per unused life scaled by difficulty', () => {
+      expect(calculateLivesBonus(2, 'easy')).toBe(2 * SCORING_CONFIG.UNUSED_LIFE_BONUS)
+      expect(calculateLivesBonus(2, 'expert')).toBe(Math.round(2 * SCORING_CONFIG.UNUSED_LIFE_BONUS * 2.5))
+    })
+
+    it('should award nothing without lives', () => {
+      expect(calculateLivesBonus(null, 'easy')).toBe(0)
+      expect(calculateLivesBonus(0, 'easy')).toBe(0)
+    })
+  })
+
+  describe('calculateGameScore', () => {
+    it('should reward unused lives on completion only', () => {
+      const withoutLives = calculateGameScore('easy', 60, 14, 8, true)
+      const withLives = calculateGameScore('easy', 60, 14, 8, true, 3)
+      const unfinished = calculateGameScore('easy', 60, 14, 4, false, 3)
+
+      expect(withLives - withoutLives).toBe(calculateLivesBonus(3, 'easy'))
+      expect(unfinished).toBe(calculateGameScore('easy', 60, 14, 4, false))
+    })
+
+    it('should match the breakdown total', () => {
+      const breakdown = calculateScoreBreakdown('medium', 120, 20, 12, true, 4)
+
+      expect(breakdown.livesBonus).toBe(calculateLivesBonus(4, 'medium'))
+      expect(breakdown.totalScore).toBe(calculateGameScore('medium', 120, 20, 12, true, 4))
+    })
+  })
+
+  describe('streak bonuses', () => {
+    it('should start paying from the second match in a row', () => {
+      expect(calculateStreakBonus(0, 'easy')).toBe(0)
+      expect(calculateStreakBonus(1, 'easy')).toBe(0)
+      expect(calculateStreakBonus(2, 'easy')).toBe(SCORING_CONFIG.STREAK_BONUS)
+      expect(calculateStreakBonus(4, 'hard')).toBe(3 * SCORING_CONFIG.STREAK_BONUS * 2)
+    })
+
+    it('should add up the bonus for every match in a game', () => {
+      // Two matches, a mismatch, then three in a row
+      expect(calculateTotalStreakBonus([1, 2, 1, 2, 3], 'easy')).toBe(4 * SCORING_CONFIG.STREAK_BONUS)
+    })
+
+    it('should include the streak in a single match score', () => {
+      expect(calculateMatchScore('easy', 0, 1, 3) - calculateMatchScore('easy', 0, 1, 1))
+        .toBe(calculateStreakBonus(3, 'easy'))
+    })
+
+    it('should bank streak bonuses mid-game and show them in the breakdown', () => {
+      const unfinished = calculateScoreBreakdown('easy', 30, 4, 3, false, null, 2, undefined, 150)
+
+      expect(unfinished.streakBonus).toBe(150)
+      expect(unfinished.totalScore).toBe(calculateGameScore('easy', 30, 4, 3, false, null, 2, undefined, 150))
+      expect(unfinished.totalScore - calculateGameScore('easy', 30, 4, 3)).toBe(150)
+    })
+  })
+
+  describe('luck-adjusted efficiency', () => {
+    const lucky = { luckyMatches: 3, avoidableMistakes: 0 }
+    const sloppy = { luckyMatches: 0, avoidableMistakes: 2 }
+
+    it('should expect more moves than the optimum from a perfect-memory player', () => {
+      expect(calculateExpectedMoves('easy')).toBeGreaterThan(calculateOptimalMoves('easy'))
+      expect(calculateExpectedMoves('expert')).toBeCloseTo(38.8, 1)
+      expect(calculateExpectedMoves('easy', 3)).toBeGreaterThan(calculateOptimalMoves('easy', 3))
+    })
+
+    it('should score moves against the expected moves', () => {
+      const expected = calculateExpectedMoves('medium')
+
+      expect(calculateMoveEfficiencyScore(Math.round(expected), 'medium')).toBe(Math.round((expected - Math.round(expected)) * 10))
+      expect(calculateMoveEfficiencyScore(40, 'medium')).toBeLessThan(0)
+    })
+
+    it('should take back the moves saved by luck', () => {
+      const breakdown = calculateScoreBreakdown('easy', 60, 10, 8, true, null, 2, lucky)
+
+      expect(breakdown.luckAdjustment).toBe(-3 * SCORING_CONFIG.MOVE_PENALTY_MULTIPLIER)
+      expect(breakdown.mistakePenalty).toBe(0)
+      expect(breakdown.totalScore).toBe(calculateGameScore('easy', 60, 10, 8, true, null, 2, lucky))
+    })
+
+    it('should charge avoidable mistakes separately from their moves', () => {
+      const breakdown = calculateScoreBreakdown('easy', 60, 16, 8, true, null, 2, sloppy)
+
+      expect(breakdown.mistakePenalty).toBe(-2 * SCORING_CONFIG.AVOIDABLE_MISTAKE_PENALTY)
+      expect(breakdown.moveEfficiency).toBe(calculateMoveEfficiencyScore(14, 'easy'))
+      expect(breakdown.perfectBonus).toBe(0)
+    })
+
+    it('should call a game perfect only without avoidable mistakes', () => {
+      expect(isPerfectGame(13, 'easy')).toBe(true)
+      expect(isPerfectGame(13, 'easy', 2, sloppy)).toBe(false)
+      expect(isPerfectGame(20, 'easy')).toBe(false)
+    })
+
+    it('should grade the same moves lower when they came from luck', () => {
+      const honest = calculateEfficiencyRating('hard', 120, 30, 2)
+      const fortunate = calculateEfficiencyRating('hard', 120, 30, 2, { luckyMatches: 6, avoidableMistakes: 0 })
+
+      expect(fortunate).toBeLessThan(honest)
+    })
+  })
+
+  describe('set sizes', () => {
+    it('should count one optimal move per set', () => {
+      expect(calculateOptimalMoves('easy')).toBe(8)
+      expect(calculateOptimalMoves('easy', 3)).toBe(5)
+      expect(calculateOptimalMoves('medium', 4)).toBe(6)
+    })
+
+    it('should pay more per set for larger sets', () => {
+      expect(calculateSetPoints(1)).toBe(SCORING_CONFIG.BASE_MATCH_POINTS)
+      expect(calculateSetPoints(1, 3)).toBe(2 * SCORING_CONFIG.BASE_MATCH_POINTS)
+      expect(calculateSetPoints(2, 4)).toBe(6 * SCORING_CONFIG.BASE_MATCH_POINTS)
+    })
+
+    it('should award the perfect bonus for one move per triple', () => {
+      const breakdown = calculateScoreBreakdown('easy', 60, 5, 5, true, null, 3)
+
+      expect(breakdown.perfectBonus).toBe(SCORING_CONFIG.PERFECT_MATCH_BONUS)
+      expect(breakdown.totalScore).toBe(calculateGameScore('easy', 60, 5, 5, true, null, 3))
+    })
+  })
+
+  describe('getDifficultyMultiplier', () => {
+    it('should use the fixed multipliers for built-in difficulties', () => {
+      expect(getDifficultyMultiplier('hard')).toBe(SCORING_CONFIG.DIFFICULTY_MULTIPLIERS.hard)
+    })
+
+    it('should rate custom boards by size', () => {
+      expect(getDifficultyMultiplier('custom:4x4:abc123')).toBe(1)
+      expect(getDifficultyMultiplier('custom:8x8:abc123')).toBeGreaterThan(SCORING_CONFIG.DIFFICULTY_MULTIPLIERS.expert)
+      expect(getDifficultyMultiplier('custom:2x2:abc123')).toBe(SCORING_CONFIG.MIN_DIFFICULTY_MULTIPLIER)
+    })
+
+    it('should count one optimal move per pair on custom boards', () => {
+      expect(calculateOptimalMoves('custom:3x5:abc123')).toBe(7)
+    })
+  })
+
+  describe('time formatting', () => {
+    it('should drop fractions of a second in MM:SS', () => {
+      expect(formatTime(65)).toBe('01:05')
+      expect(formatTime(65.97)).toBe('01:05')
+    })
+
+    it('should show tenths of a second without float error', () => {
+      expect(formatPreciseTime(2.3)).toBe('00:02.3')
+      expect(formatPreciseTime(59.99)).toBe('00:59.9')
+      expect(formatPreciseTime(125.05)).toBe('02:05.0')
+      expect(formatPreciseTime(0)).toBe('00:00.0')
+    })
+  })
+})
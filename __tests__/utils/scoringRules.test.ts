@@ -0,0 +1,147 @@
+import { RULE_SET_CONFIG, SCORING_STRATEGIES, isScoringRules, scoreGame, summarizeGame } from '../../app/utils/scoringRules'
+import { SCORING_CONFIG, calculateGameScore, calculateSetPoints, calculateTotalStreakBonus } from '../../app/utils/scoring'
+import { analyzeMoves } from '../../app/utils/moveAnalysis'
+import { GameAction } from '../../app/types/game'
+import { play, start, turn } from './test-helpers/test-utils'
+
+const tick = (timeElapsed: number): GameAction => ({ type: 'UPDATE_TIME', payload: { timeElapsed } })
+
+const split = (timeElapsedMs: number): GameAction => ({ type: 'RECORD_SPLIT', payload: { timeElapsedMs } })
+
+// Match every pair on the easy board in order
+const clearBoard = (): GameAction[] =>
+  Array.from({ length: 8 }, (_, index) => turn(index * 2, index * 2 + 1)).flat()
+
+describe('summarizeGame', () => {
+  it('should rebuild moves, matches, time and lives from the log', () => {
+    const { history } = play(start({ lives: 6 }), ...turn(0, 2), tick(12), ...turn(0, 1))
+
+    expect(summarizeGame(history)).toEqual({
+      scoringRules: 'classic',
+      difficulty: 'easy',
+      setSize: 2,
+      timeElapsed: 12,
+      moves: 2,
+      matchedSets: 1,
+      mismatches: 1,
+      matchStreaks: [1],
+      longestStreak: 1,
+      isCompleted: false,
+      livesRemaining: 5,
+      maxLives: 6,
+    })
+  })
+
+  it('should take the exact time from split times', () => {
+    const { history } = play(start(), tick(41), ...turn(0, 1), split(41250))
+
+    expect(summarizeGame(history)?.timeElapsed).toBe(41.25)
+  })
+
+  it('should rescore a finished board on its final split', () => {
+    const faster = play(start(), ...clearBoard(), split(20100))
+    const slower = play(start(), ...clearBoard(), split(20900))
+
+    expect(faster.score).toBeGreaterThan(slower.score)
+  })
+
+  it('should mark the game complete once every set is matched', () => {
+    const { history } = play(start(), ...clearBoard())
+
+    expect(summarizeGame(history)?.isCompleted).toBe(true)
+  })
+
+  it('should return null for a log without a start', () => {
+    expect(summarizeGame([])).toBeNull()
+    expect(scoreGame([]).totalScore).toBe(0)
+  })
+})
+
+describe('isScoringRules', () => {
+  it('should accept the rule set names and nothing inherited', () => {
+    expect(isScoringRules('timeAttack')).toBe(true)
+    expect(isScoringRules('constructor')).toBe(false)
+    expect(isScoringRules('toString')).toBe(false)
+    expect(isScoringRules(undefined)).toBe(false)
+  })
+})
+
+describe('scoring rule sets', () => {
+  it('should default to classic rules', () => {
+    expect(play(start()).scoringRules).toBe('classic')
+    expect(play(start({ scoringRules: 'bogus' as never })).scoringRules).toBe('classic')
+  })
+
+  it('should score classic games exactly like calculateGameScore', () => {
+    const state = play(start(), ...turn(0, 2), tick(40), ...clearBoard())
+
+    const streakBonus = calculateTotalStreakBonus([1, 2, 3, 4, 5, 6, 7, 8], 'easy')
+    const expected = calculateGameScore('easy', 40, state.moves, 8, true, null, 2, analyzeMoves(state.history), streakBonus)
+    expect(state.score).toBe(expected)
+    expect(scoreGame(state.history).totalScore).toBe(expected)
+  })
+
+  it('should keep the running score in step with the log', () => {
+    const state = play(start({ scoringRules: 'accuracy' }), ...turn(0, 1), ...turn(2, 4))
+
+    expect(state.score).toBe(scoreGame(state.history).totalScore)
+  })
+
+  it('should reward speed and ignore moves under time attack', () => {
+    const fast = play(start({ scoringRules: 'timeAttack' }), tick(30), ...clearBoard())
+    const slow = play(start({ scoringRules: 'timeAttack' }), tick(60), ...clearBoard())
+    const sloppy = play(start({ scoringRules: 'timeAttack' }), ...turn(0, 2), ...turn(4, 6), tick(30), ...clearBoard())
+
+    expect(fast.score).toBeGreaterThan(slow.score)
+    expect(sloppy.score).toBe(fast.score)
+  })
+
+  it('should charge every mismatch under accuracy and ignore the clock', () => {
+    const afterMatch = play(start({ scoringRules: 'accuracy' }), ...turn(0, 1))
+    const afterMiss = play(start({ scoringRules: 'accuracy' }), ...turn(0, 1), ...turn(2, 4))
+
+    expect(afterMiss.score).toBeLessThan(afterMatch.score)
+
+    const quick = play(start({ scoringRules: 'accuracy' }), tick(10), ...clearBoard())
+    const leisurely = play(start({ scoringRules: 'accuracy' }), tick(500), ...clearBoard())
+    expect(quick.score).toBe(leisurely.score)
+  })
+
+  it('should never score zen games', () => {
+    const state = play(
+      start({ scoringRules: 'zen', players: [{ name: 'Ann', color: 'blue' }, { name: 'Bo', color: 'red' }] }),
+      ...clearBoard()
+    )
+
+    expect(state.gameStatus).toBe('completed')
+    expect(state.score).toBe(0)
+    expect(state.players[0]).toMatchObject({ matches: 8, score: 0 })
+    expect(scoreGame(state.history).lines).toEqual([])
+    expect(SCORING_STRATEGIES.zen.showsTimer).toBe(false)
+  })
+
+  it('should score hot-seat players under the chosen rule set', () => {
+    const players = [{ name: 'Ann', color: 'blue' as const }, { name: 'Bo', color: 'red' as const }]
+    const turns = [...turn(0, 1), ...turn(2, 3), ...turn(4, 6)]
+    const classic = play(start({ players }), ...turns)
+    const timeAttack = play(start({ scoringRules: 'timeAttack', players }), ...turns)
+    const accuracy = play(start({ scoringRules: 'accuracy', players }), ...turns)
+    const { MATCH_POINTS } = RULE_SET_CONFIG.TIME_ATTACK
+
+    // Two matches in a row, then a miss: Time Attack pays a flat rate with no streak bonus
+    expect(timeAttack.players[0]).toMatchObject({ matches: 2, score: 2 * MATCH_POINTS })
+    expect(classic.players[0].score).toBe(2 * calculateSetPoints(1, 2) + SCORING_CONFIG.STREAK_BONUS)
+    // Accuracy charges the miss to the player who made it
+    expect(accuracy.players[0].score).toBe(classic.players[0].score - RULE_SET_CONFIG.ACCURACY.MISMATCH_PENALTY)
+    expect(accuracy.currentPlayerIndex).toBe(1)
+  })
+
+  it('should break each scored rule set down into lines that add up to the total', () => {
+    (['classic', 'timeAttack', 'accuracy'] as const).forEach(scoringRules => {
+      const { history } = play(start({ scoringRules }), ...turn(0, 2), tick(45), ...clearBoard())
+      const { lines, totalScore } = scoreGame(history)
+
+      expect(lines.reduce((sum, line) => sum + line.points, 0)).toBe(totalScore)
+    })
+  })
+})
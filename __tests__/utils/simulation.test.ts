@@ -0,0 +1,65 @@
+import {
+  SIMULATION_STRATEGIES,
+  getMoveDistribution,
+  simulateBoard,
+  simulateGame,
+} from '../../app/utils/simulation'
+import { calculateExpectedMoves, calculateOptimalMoves } from '../../app/utils/scoring'
+
+describe('simulation utilities', () => {
+  describe('simulateGame', () => {
+    it('should finish a board in at least one move per pair', () => {
+      const { moves } = simulateGame('easy', SIMULATION_STRATEGIES.perfect, 42)
+
+      expect(moves).toBeGreaterThanOrEqual(calculateOptimalMoves('easy'))
+      expect(moves).toBeLessThan(calculateOptimalMoves('easy') * 2)
+    })
+
+    it('should be reproducible from the seed', () => {
+      const strategy = SIMULATION_STRATEGIES.forgetful
+
+      expect(simulateGame('medium', strategy, 7)).toEqual(simulateGame('medium', strategy, 7))
+    })
+
+    it('should play larger sets and custom boards', () => {
+      expect(simulateGame('easy', SIMULATION_STRATEGIES.perfect, 3, 3).moves).toBeGreaterThanOrEqual(5)
+      expect(simulateGame('custom:3x5:abc123', SIMULATION_STRATEGIES.perfect, 3).moves).toBeGreaterThanOrEqual(7)
+    })
+  })
+
+  describe('getMoveDistribution', () => {
+    it('should summarise move counts', () => {
+      expect(getMoveDistribution([12, 10, 14, 11, 13, 20, 9, 15, 16, 10])).toEqual({
+        games: 10,
+        min: 9,
+        max: 20,
+        mean: 13,
+        median: 12,
+        p10: 9,
+        p90: 16,
+      })
+    })
+
+    it('should handle an empty run', () => {
+      expect(getMoveDistribution([]).games).toBe(0)
+    })
+  })
+
+  describe('simulateBoard', () => {
+    it('should average close to the expected luck-free moves with perfect memory', () => {
+      const { luckFreeMoves } = simulateBoard('medium', SIMULATION_STRATEGIES.perfect, { games: 100 })
+
+      expect(Math.abs(luckFreeMoves.mean - calculateExpectedMoves('medium'))).toBeLessThan(1)
+    })
+
+    it('should take more moves with a worse memory', () => {
+      const perfect = simulateBoard('easy', SIMULATION_STRATEGIES.perfect, { games: 40 })
+      const goldfish = simulateBoard('easy', SIMULATION_STRATEGIES.goldfish, { games: 40 })
+
+      expect(perfect.moves.games).toBe(40)
+      expect(perfect.moves.mean).toBeLessThan(goldfish.moves.mean)
+      expect(perfect.avoidableMistakes).toBe(0)
+      expect(goldfish.avoidableMistakes).toBeGreaterThan(0)
+    })
+  })
+})
@@ -0,0 +1,129 @@
+import {
+  STORAGE_VERSION,
+  defaultLocalStorageData,
+  parseStoredData,
+  serializeStoredData
+} from '../../app/utils/storageSchema'
+import { LocalStorageData } from '../../app/types/game'
+
+const highScore = {
+  difficulty: 'easy' as const,
+  category: 'food',
+  moves: 12,
+  time: 41.25,
+  score: 1800,
+  date: '2026-03-01T10:00:00.000Z',
+}
+
+const data = (overrides: Partial<LocalStorageData> = {}): LocalStorageData => ({
+  ...defaultLocalStorageData,
+  gameStats: {
+    ...defaultLocalStorageData.gameStats,
+    totalGames: 1,
+    gamesWon: 1,
+    completionRate: 100,
+    bestTimes: { easy: 41.25 },
+    bestMoves: { easy: 12 },
+  },
+  highScores: [highScore],
+  ...overrides,
+})
+
+// Parse a hand-edited blob and return the reason it was rejected
+const reasonFor = (stored: object) => {
+  const result = parseStoredData(JSON.stringify(stored))
+  return result.ok ? null : result.reason
+}
+
+describe('serializeStoredData', () => {
+  it('should round-trip data with its version', () => {
+    const json = serializeStoredData(data())
+
+    expect(JSON.parse(json).version).toBe(STORAGE_VERSION)
+    expect(parseStoredData(json)).toEqual({ ok: true, data: data(), migrated: false })
+  })
+
+  it('should keep "no record yet" through a reload', () => {
+    const result = parseStoredData(serializeStoredData(defaultLocalStorageData))
+
+    expect(result.ok && result.data.gameStats.bestTimes).toEqual({})
+    expect(result.ok && result.data.gameStats.bestTimes.easy).toBeUndefined()
+  })
+})
+
+describe('parseStoredData migrations', () => {
+  it('should upgrade the unversioned blob, turning null bests into no record', () => {
+    const legacy = {
+      gameStats: {
+        ...data().gameStats,
+        bestTimes: { easy: 41.25, medium: null, hard: null, expert: null },
+        bestMoves: { easy: 12, medium: null, hard: null, expert: null },
+      },
+      highScores: [highScore],
+      preferences: { soundEnabled: false, animationEnabled: true, defaultDifficulty: 'easy', defaultCategory: 'food' },
+    }
+    const result = parseStoredData(JSON.stringify(legacy))
+
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    expect(result.migrated).toBe(true)
+    expect(result.data.gameStats.bestTimes).toEqual({ easy: 41.25 })
+    expect(result.data.gameStats.bestMoves).toEqual({ easy: 12 })
+    expect(result.data.dailyHistory).toEqual([])
+    expect(result.data.bestRuns).toEqual([])
+    expect(result.data.preferences).toEqual({ ...defaultLocalStorageData.preferences, soundEnabled: false })
+  })
+
+  it('should not fill in a section that is present but malformed', () => {
+    expect(reasonFor({ ...data(), preferences: 'loud' })).toBe('preferences must be an object')
+  })
+
+  it('should reject data from a newer version', () => {
+    expect(reasonFor({ ...data(), version: STORAGE_VERSION + 1 })).toMatch(/newer version/)
+  })
+})
+
+describe('parseStoredData validation', () => {
+  it('should reject anything that is not a JSON object', () => {
+    expect(parseStoredData('{oops').ok).toBe(false)
+    expect(parseStoredData('[]').ok).toBe(false)
+    expect(reasonFor({ ...data(), version: 'one' })).toMatch(/version/)
+  })
+
+  it('should check every high score entry', () => {
+    const scores = [highScore, { ...highScore, moves: -3 }, { ...highScore, scoringRules: 'golf' }, { ...highScore, scoringRules: 'constructor' }]
+
+    expect(reasonFor({ ...data({ highScores: scores as never }), version: STORAGE_VERSION }))
+      .toBe('highScores[1].moves must be a whole number ≥ 0 (and 2 more)')
+  })
+
+  it('should check preferences and per-difficulty records', () => {
+    const stored = data({ preferences: { ...defaultLocalStorageData.preferences, autoPause: 'yes' as never } })
+
+    expect(reasonFor({ ...stored, version: STORAGE_VERSION })).toBe('preferences.autoPause must be true or false')
+    expect(reasonFor({
+      ...data(),
+      version: STORAGE_VERSION,
+      gameStats: { ...data().gameStats, bestTimes: { easy: null } },
+    })).toBe('gameStats.bestTimes.easy must be a number ≥ 0')
+    expect(reasonFor({
+      ...data(),
+      version: STORAGE_VERSION,
+      gameStats: { ...data().gameStats, bestMoves: { impossible: 4 } },
+    })).toBe('gameStats.bestMoves.impossible is not a difficulty')
+  })
+
+  it('should check daily results, presets and best runs', () => {
+    const stored = { ...data(), version: STORAGE_VERSION }
+
+    expect(reasonFor({ ...stored, dailyHistory: [{ date: 'today' }] })).toMatch(/^dailyHistory\[0\]\.date/)
+    expect(reasonFor({
+      ...stored,
+      customPresets: [{ id: 'custom:99x99:abc', name: 'Huge', rows: 99, cols: 99, createdAt: highScore.date }],
+    })).toBe('customPresets[0].id must be a custom board id')
+    expect(reasonFor({
+      ...stored,
+      bestRuns: [{ difficulty: 'easy', category: 'food', setSize: 5, time: 30, splits: [1000], date: highScore.date }],
+    })).toBe('bestRuns[0].setSize must be a set size')
+  })
+})
@@ -1,6 +1,9 @@
 import { ReactElement } from 'react'
 import { render, RenderOptions } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
+import { GameAction, GameState } from '../../../app/types/game'
+import { gameReducer, initialGameState } from '../../../app/utils/gameReducer'
+import { MOCK_CATEGORIES, createMockBoard } from '../../fixtures/data/game-data'
 
 // Custom render function that includes providers
 const customRender = (
@@ -44,13 +47,55 @@ export const createMockGameState = (overrides = {}) => ({
   matchedPairs: [],
   moves: 0,
   timeElapsed: 0,
+  timeElapsedMs: 0,
+  splits: [],
   gameStatus: 'setup' as const,
   difficulty: 'easy' as const,
   category: 'food' as const,
+  setSize: 2 as const,
   score: 0,
+  seed: null,
+  dailyDate: null,
+  players: [],
+  currentPlayerIndex: 0,
+  scoringRules: 'classic' as const,
+  currentStreak: 0,
+  longestStreak: 0,
+  history: [],
   ...overrides,
 })
 
+// Game log helpers: build states by running actions through the real reducer
+// The mock board keeps pairs side by side: cards 0 and 1 match, 2 and 3 match, and so on
+export const start = (payload: GameAction['payload'] = {}, timestamp?: number): GameAction => {
+  const difficulty = payload.difficulty ?? 'easy'
+  return {
+    type: 'START_GAME',
+    payload: { difficulty, category: MOCK_CATEGORIES[0], seed: 7, board: createMockBoard(difficulty), ...payload },
+    ...(timestamp !== undefined ? { timestamp } : {}),
+  }
+}
+
+export const flip = (cardId: number, timestamp?: number): GameAction => ({
+  type: 'FLIP_CARD',
+  payload: { cardId },
+  ...(timestamp !== undefined ? { timestamp } : {}),
+})
+
+// Flip two cards and resolve them the way the board would
+export const turn = (first: number, second: number, timestamp?: number): GameAction[] => [
+  flip(first, timestamp),
+  flip(second, timestamp),
+  {
+    type: first >> 1 === second >> 1 ? 'MATCH_CARDS' : 'UNMATCH_CARDS',
+    payload: { cardIds: [first, second] },
+    ...(timestamp !== undefined ? { timestamp } : {}),
+  },
+]
+
+export const play = (...actions: GameAction[]): GameState =>
+  actions.reduce((state, action) => gameReducer(state, action), initialGameState)
+
 // Wait for animations to complete
 export const waitForAnimations = () => new Promise(resolve => setTimeout(resolve, 500))
 
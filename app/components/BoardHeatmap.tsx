@@ -0,0 +1,135 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import Card from './Card';
+import { GameState } from '../types/game';
+import { getDifficultyConfig } from '../utils/difficulty';
+import {
+  HEATMAP_METRICS,
+  HEATMAP_METRIC_ORDER,
+  HeatmapMetric,
+  buildHeatmap,
+  getHeatValue,
+  getHottestLines
+} from '../utils/heatmap';
+
+interface BoardHeatmapProps {
+  gameState: GameState;
+  onClose: () => void;
+}
+
+function formatHeatValue(value: number, metric: HeatmapMetric): string {
+  return metric === 'timeToMatch' ? `${value}s` : String(value);
+}
+
+export default function BoardHeatmap({ gameState, onClose }: BoardHeatmapProps) {
+  const [metric, setMetric] = useState<HeatmapMetric>('flips');
+  const heatmap = useMemo(() => buildHeatmap(gameState.history), [gameState.history]);
+  const { cols } = getDifficultyConfig(gameState.difficulty);
+
+  const values = gameState.board.map(card => getHeatValue(heatmap[card.id], metric));
+  const maxValue = Math.max(0, ...values.map(value => value ?? 0));
+  const hottest = getHottestLines(gameState.board, cols, heatmap, metric);
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (keyEvent: KeyboardEvent) => {
+      if (keyEvent.key === 'Escape') {
+        keyEvent.preventDefault();
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    document.body.style.overflow = 'hidden';
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.body.style.overflow = '';
+    };
+  }, [onClose]);
+
+  const overlay = (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="heatmap-title"
+    >
+      <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl p-6 max-w-3xl w-full mx-4 max-h-[95vh] overflow-y-auto space-y-4">
+        {/* Header */}
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 id="heatmap-title" className="text-2xl font-bold text-gray-900 dark:text-white">
+              🔥 Board Heatmap
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              {HEATMAP_METRICS[metric].description}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white px-2 py-1 rounded focus:outline-none focus:ring-2 focus:ring-gray-500"
+            aria-label="Close heatmap"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Metric toggles */}
+        <div className="flex flex-wrap justify-center gap-2" role="group" aria-label="Heatmap metric">
+          {HEATMAP_METRIC_ORDER.map(option => (
+            <button
+              key={option}
+              onClick={() => setMetric(option)}
+              className={`px-3 py-1 text-sm rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                metric === option ? 'bg-blue-100 text-blue-800 font-semibold' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+              aria-pressed={metric === option}
+            >
+              {HEATMAP_METRICS[option].label}
+            </button>
+          ))}
+        </div>
+
+        {/* Board, shaded by the chosen metric */}
+        <div
+          className="grid gap-2 w-full max-w-xl mx-auto"
+          style={{ gridTemplateColumns: `repeat(${cols}, 1fr)` }}
+          aria-label={`Board heatmap: ${HEATMAP_METRICS[metric].label}`}
+        >
+          {gameState.board.map((card, index) => {
+            const value = values[index];
+            const intensity = value !== null && maxValue > 0 ? value / maxValue : 0;
+            return (
+              <div key={card.id} className="relative">
+                <Card card={{ ...card, isFlipped: true }} onClick={() => {}} disabled />
+                {!card.isBlank && (
+                  <div
+                    className="absolute inset-0 rounded-lg flex items-end justify-end p-1 pointer-events-none"
+                    style={{ backgroundColor: `rgba(239, 68, 68, ${0.05 + intensity * 0.7})` }}
+                    title={value === null ? 'Never matched' : `${HEATMAP_METRICS[metric].label}: ${formatHeatValue(value, metric)}`}
+                  >
+                    <span className="text-xs font-bold bg-white/80 text-gray-900 rounded px-1">
+                      {value === null ? '—' : formatHeatValue(value, metric)}
+                    </span>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Spatial summary */}
+        <div className="text-center text-sm text-gray-700 dark:text-gray-300">
+          {maxValue === 0 || hottest.row === null || hottest.column === null
+            ? 'Nothing stood out on this board.'
+            : `Hardest row: ${hottest.row + 1} · Hardest column: ${hottest.column + 1} (highest average)`}
+        </div>
+      </div>
+    </div>
+  );
+
+  return createPortal(overlay, document.body);
+}
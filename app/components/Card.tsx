@@ -9,6 +9,11 @@ interface CardProps {
 }
 
 export default function Card({ card, onClick, disabled = false }: CardProps) {
+  // Blank filler cells hold the grid shape but are never part of play
+  if (card.isBlank) {
+    return <div className="w-full aspect-square" aria-hidden="true" />;
+  }
+
   const handleClick = () => {
     if (!disabled && !card.isFlipped && !card.isMatched) {
       onClick(card.id);
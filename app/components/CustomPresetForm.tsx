@@ -0,0 +1,79 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { CUSTOM_BOARD_LIMITS } from '../utils/difficulty';
+
+interface CustomPresetFormProps {
+  onSave: (name: string, rows: number, cols: number) => void;
+  disabled?: boolean;
+}
+
+const SIZE_OPTIONS = Array.from(
+  { length: CUSTOM_BOARD_LIMITS.MAX_SIZE - CUSTOM_BOARD_LIMITS.MIN_SIZE + 1 },
+  (_, index) => CUSTOM_BOARD_LIMITS.MIN_SIZE + index
+);
+
+export default function CustomPresetForm({ onSave, disabled = false }: CustomPresetFormProps) {
+  const [name, setName] = useState('');
+  const [rows, setRows] = useState(3);
+  const [cols, setCols] = useState(4);
+
+  const cellCount = rows * cols;
+  const pairs = Math.floor(cellCount / 2);
+  const hasBlank = cellCount % 2 === 1;
+
+  const handleSubmit = useCallback((event: React.FormEvent) => {
+    event.preventDefault();
+    if (disabled) return;
+    onSave(name, rows, cols);
+    setName('');
+  }, [disabled, onSave, name, rows, cols]);
+
+  const selectClassName = 'px-2 py-1 text-sm rounded border-2 border-gray-200 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2" aria-label="Create a custom board preset">
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder="Preset name"
+          maxLength={CUSTOM_BOARD_LIMITS.MAX_NAME_LENGTH}
+          disabled={disabled}
+          className="w-32 px-2 py-1 text-sm rounded border-2 border-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50"
+          aria-label="Preset name"
+        />
+        <select
+          value={cols}
+          onChange={(event) => setCols(Number(event.target.value))}
+          disabled={disabled}
+          className={selectClassName}
+          aria-label="Columns"
+        >
+          {SIZE_OPTIONS.map(size => <option key={size} value={size}>{size}</option>)}
+        </select>
+        <span className="text-sm text-gray-500" aria-hidden="true">×</span>
+        <select
+          value={rows}
+          onChange={(event) => setRows(Number(event.target.value))}
+          disabled={disabled}
+          className={selectClassName}
+          aria-label="Rows"
+        >
+          {SIZE_OPTIONS.map(size => <option key={size} value={size}>{size}</option>)}
+        </select>
+        <button
+          type="submit"
+          disabled={disabled}
+          className="px-3 py-1 text-sm font-medium rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50"
+        >
+          Save Preset
+        </button>
+      </div>
+      <div className="text-xs text-gray-500 text-center">
+        {cellCount} cards · {pairs} pairs{hasBlank ? ' + 1 blank cell' : ''}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,165 @@
+'use client';
+
+import { useMemo, useState, useCallback } from 'react';
+import { DailyChallengeResult } from '../types/game';
+import { getEmojiCategory } from '../utils/emojiData';
+import {
+  DailyChallenge,
+  calculateDailyStreak,
+  getCalendarDays,
+  parseDateKey
+} from '../utils/dailyChallenge';
+import { formatTime, formatScore } from '../utils/scoring';
+
+interface DailyChallengePanelProps {
+  challenge: DailyChallenge;
+  history: DailyChallengeResult[];
+  onPlay: () => void;
+  disabled?: boolean;
+}
+
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+export default function DailyChallengePanel({
+  challenge,
+  history,
+  onPlay,
+  disabled = false
+}: DailyChallengePanelProps) {
+  const today = parseDateKey(challenge.date);
+  const [visibleMonth, setVisibleMonth] = useState({
+    year: today.getFullYear(),
+    month: today.getMonth()
+  });
+
+  const category = getEmojiCategory(challenge.categoryId);
+  const todaysResult = history.find(result => result.date === challenge.date);
+  const streak = useMemo(() => calculateDailyStreak(history, challenge.date), [history, challenge.date]);
+
+  const resultsByDate = useMemo(() => {
+    return new Map(history.map(result => [result.date, result]));
+  }, [history]);
+
+  const calendarDays = useMemo(
+    () => getCalendarDays(visibleMonth.year, visibleMonth.month),
+    [visibleMonth]
+  );
+
+  const monthLabel = new Date(visibleMonth.year, visibleMonth.month, 1)
+    .toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+
+  const isCurrentMonth = visibleMonth.year === today.getFullYear() && visibleMonth.month === today.getMonth();
+
+  const changeMonth = useCallback((offset: number) => {
+    setVisibleMonth(prev => {
+      const date = new Date(prev.year, prev.month + offset, 1);
+      return { year: date.getFullYear(), month: date.getMonth() };
+    });
+  }, []);
+
+  return (
+    <div className="p-6 bg-white/70 rounded-xl backdrop-blur-sm shadow-lg space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-bold text-gray-800">📅 Daily Challenge</h2>
+          <p className="text-sm text-gray-600">
+            Today: <span className="font-medium capitalize">{challenge.difficulty}</span>
+            {' · '}
+            <span className="font-medium">{category?.name ?? challenge.categoryId}</span>
+          </p>
+          <p className="text-xs text-gray-500 mt-1">
+            Same board for everyone today. Only your first attempt is scored.
+          </p>
+        </div>
+
+        <div className="flex items-center gap-4">
+          <div className="text-center">
+            <div className="text-2xl font-bold text-orange-600" aria-label={`Current streak: ${streak} days`}>
+              🔥 {streak}
+            </div>
+            <div className="text-xs text-gray-600 uppercase tracking-wide font-medium">Streak</div>
+          </div>
+          <button
+            onClick={onPlay}
+            disabled={disabled}
+            className={`px-6 py-2 font-medium rounded-lg transition-colors duration-200 shadow-sm focus:outline-none focus:ring-2 focus:ring-opacity-50 ${
+              disabled
+                ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                : todaysResult
+                  ? 'bg-gray-200 hover:bg-gray-300 text-gray-800 focus:ring-gray-500'
+                  : 'bg-orange-500 hover:bg-orange-600 text-white hover:shadow-md focus:ring-orange-500'
+            }`}
+            aria-label={todaysResult ? 'Practice today\'s daily challenge (not scored)' : 'Play today\'s daily challenge'}
+          >
+            {todaysResult ? 'Practice' : 'Play Daily'}
+          </button>
+        </div>
+      </div>
+
+      {todaysResult && (
+        <div className="text-sm text-center text-gray-700 bg-gray-50 rounded-lg p-2">
+          {todaysResult.completed
+            ? <>✅ Completed today in {formatTime(todaysResult.time)} with {todaysResult.moves} moves ({formatScore(todaysResult.score)} pts)</>
+            : <>❌ Today&apos;s attempt was not completed</>}
+        </div>
+      )}
+
+      {/* Calendar of past results */}
+      <div className="max-w-xs mx-auto">
+        <div className="flex items-center justify-between mb-2">
+          <button
+            onClick={() => changeMonth(-1)}
+            className="px-2 py-1 text-gray-600 hover:text-gray-900 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="Previous month"
+          >
+            ‹
+          </button>
+          <div className="text-sm font-medium text-gray-700">{monthLabel}</div>
+          <button
+            onClick={() => changeMonth(1)}
+            disabled={isCurrentMonth}
+            className={`px-2 py-1 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+              isCurrentMonth ? 'text-gray-300 cursor-not-allowed' : 'text-gray-600 hover:text-gray-900'
+            }`}
+            aria-label="Next month"
+          >
+            ›
+          </button>
+        </div>
+
+        <div className="grid grid-cols-7 gap-1 text-center text-xs" role="grid" aria-label={`Daily challenge results for ${monthLabel}`}>
+          {WEEKDAY_LABELS.map((label, index) => (
+            <div key={index} className="text-gray-500 font-medium" aria-hidden="true">{label}</div>
+          ))}
+          {calendarDays.map((dateKey, index) => {
+            if (!dateKey) {
+              return <div key={`empty-${index}`} />;
+            }
+
+            const result = resultsByDate.get(dateKey);
+            const isToday = dateKey === challenge.date;
+            const dayNumber = parseDateKey(dateKey).getDate();
+
+            return (
+              <div
+                key={dateKey}
+                className={`
+                  aspect-square flex items-center justify-center rounded
+                  ${result?.completed ? 'bg-green-500 text-white font-semibold' :
+                    result ? 'bg-red-200 text-red-800' :
+                    'bg-gray-100 text-gray-500'}
+                  ${isToday ? 'ring-2 ring-orange-400' : ''}
+                `}
+                role="gridcell"
+                aria-label={`${dateKey}: ${result?.completed ? 'completed' : result ? 'not completed' : 'not played'}`}
+                title={result?.completed ? `${formatTime(result.time)} · ${result.moves} moves · ${formatScore(result.score)} pts` : undefined}
+              >
+                {dayNumber}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
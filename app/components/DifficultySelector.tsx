@@ -1,15 +1,20 @@
 'use client';
 
 import { useCallback } from 'react';
-import { Difficulty, DIFFICULTY_CONFIGS } from '../types/game';
+import CustomPresetForm from './CustomPresetForm';
+import { BoardPreset, BuiltInDifficulty, CustomDifficulty, Difficulty, DIFFICULTY_CONFIGS } from '../types/game';
+import { BUILT_IN_DIFFICULTIES, getDifficultyConfig } from '../utils/difficulty';
 
 interface DifficultySelectorProps {
   selectedDifficulty: Difficulty;
   onChange: (difficulty: Difficulty) => void;
+  customPresets?: BoardPreset[];
+  onSavePreset?: (name: string, rows: number, cols: number) => void;
+  onDeletePreset?: (id: CustomDifficulty) => void;
   disabled?: boolean;
 }
 
-const DIFFICULTY_LABELS: Record<Difficulty, { 
+const DIFFICULTY_LABELS: Record<BuiltInDifficulty, { 
   name: string; 
   description: string; 
   icon: string;
@@ -44,8 +49,14 @@ const DIFFICULTY_LABELS: Record<Difficulty, {
 export default function DifficultySelector({
   selectedDifficulty,
   onChange,
+  customPresets = [],
+  onSavePreset,
+  onDeletePreset,
   disabled = false
 }: DifficultySelectorProps) {
+  const selectedConfig = getDifficultyConfig(selectedDifficulty);
+  const hasBlankCell = (selectedConfig.rows * selectedConfig.cols) % 2 === 1;
+
   const handleDifficultyChange = useCallback((difficulty: Difficulty) => {
     if (!disabled && difficulty !== selectedDifficulty) {
       onChange(difficulty);
@@ -60,7 +71,7 @@ export default function DifficultySelector({
       
       {/* Desktop: Horizontal layout */}
       <div className="hidden sm:flex gap-2 justify-center">
-        {(Object.keys(DIFFICULTY_CONFIGS) as Difficulty[]).map((difficulty) => {
+        {BUILT_IN_DIFFICULTIES.map((difficulty) => {
           const config = DIFFICULTY_CONFIGS[difficulty];
           const label = DIFFICULTY_LABELS[difficulty];
           const isSelected = selectedDifficulty === difficulty;
@@ -93,7 +104,7 @@ export default function DifficultySelector({
 
       {/* Mobile: Vertical layout */}
       <div className="sm:hidden space-y-2">
-        {(Object.keys(DIFFICULTY_CONFIGS) as Difficulty[]).map((difficulty) => {
+        {BUILT_IN_DIFFICULTIES.map((difficulty) => {
           const config = DIFFICULTY_CONFIGS[difficulty];
           const label = DIFFICULTY_LABELS[difficulty];
           const isSelected = selectedDifficulty === difficulty;
@@ -128,9 +139,60 @@ export default function DifficultySelector({
         })}
       </div>
 
+      {/* Custom Presets */}
+      {(customPresets.length > 0 || onSavePreset) && (
+        <div className="pt-3 border-t border-gray-200 space-y-2">
+          <div className="text-xs font-medium text-gray-600 text-center uppercase tracking-wide">
+            Custom Boards
+          </div>
+          {customPresets.length > 0 && (
+            <div className="flex flex-wrap gap-2 justify-center">
+              {customPresets.map((preset) => {
+                const isSelected = selectedDifficulty === preset.id;
+
+                return (
+                  <div
+                    key={preset.id}
+                    className={`
+                      flex items-center rounded-lg border-2 transition-all duration-200
+                      ${isSelected ? 'bg-blue-100 border-blue-300 text-blue-800 shadow-md' : 'bg-white border-gray-200 text-gray-600 hover:border-gray-300'}
+                      ${disabled ? 'opacity-50' : ''}
+                    `}
+                  >
+                    <button
+                      onClick={() => handleDifficultyChange(preset.id)}
+                      disabled={disabled}
+                      className="px-3 py-1 text-sm rounded-l-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50 disabled:cursor-not-allowed"
+                      aria-label={`Select custom board ${preset.name}: ${preset.cols}×${preset.rows} grid`}
+                      aria-pressed={isSelected}
+                    >
+                      <span className="font-medium">{preset.name}</span>
+                      <span className="ml-1 text-xs opacity-75">{preset.cols}×{preset.rows}</span>
+                    </button>
+                    {onDeletePreset && (
+                      <button
+                        onClick={() => onDeletePreset(preset.id)}
+                        disabled={disabled}
+                        className="px-2 py-1 text-xs rounded-r-lg hover:text-red-600 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-opacity-50 disabled:cursor-not-allowed"
+                        aria-label={`Delete custom board ${preset.name}`}
+                      >
+                        ✕
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          {onSavePreset && (
+            <CustomPresetForm onSave={onSavePreset} disabled={disabled} />
+          )}
+        </div>
+      )}
+
       {/* Additional Info */}
       <div className="text-xs text-gray-500 text-center mt-2">
-        {DIFFICULTY_CONFIGS[selectedDifficulty].pairs} emoji pairs to match
+        {selectedConfig.pairs} emoji pairs to match{hasBlankCell ? ' plus one blank cell' : ''}
       </div>
     </div>
   );
@@ -1,52 +1,151 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import Card from './Card';
 import GameControls from './GameControls';
 import GameStats from './GameStats';
 import DifficultySelector from './DifficultySelector';
 import CategorySelector from './CategorySelector';
 import GameOverModal from './GameOverModal';
+import SeedInput from './SeedInput';
+import DailyChallengePanel from './DailyChallengePanel';
+import ReplayViewer from './ReplayViewer';
+import ReplayImportButton from './ReplayImportButton';
+import BoardHeatmap from './BoardHeatmap';
+import SettingsScreen from './SettingsScreen';
+import GameModeSelector from './GameModeSelector';
+import PreviewCountdown from './PreviewCountdown';
+import PlayerSetupPanel from './PlayerSetupPanel';
+import ResumeGamePrompt from './ResumeGamePrompt';
+import PausePreferences from './PausePreferences';
 import { useGameState } from '../hooks/useGameState';
 import { useTimer } from '../hooks/useTimer';
-import { useLocalStorage } from '../hooks/useLocalStorage';
-import { Difficulty, EmojiCategory, DIFFICULTY_CONFIGS } from '../types/game';
-import { getDefaultCategory } from '../utils/emojiData';
+import { NO_PERSONAL_BESTS, useLocalStorage } from '../hooks/useLocalStorage';
+import { useBotPlayer } from '../hooks/useBotPlayer';
+import { useSavedGame } from '../hooks/useSavedGame';
+import { useGameHistory } from '../hooks/useGameHistory';
+import { BestRun, CustomDifficulty, Difficulty, EmojiCategory, PersonalBests, PlayerSetup, ScoringRules, SetSize, StartGameOptions, SET_SIZE_NAMES } from '../types/game';
+import { getTotalSets } from '../utils/gameLogic';
+import { getDifficultyConfig, getPreviewSeconds } from '../utils/difficulty';
+import { getDefaultCategory, getEmojiCategory } from '../utils/emojiData';
+import { parseSeed } from '../utils/random';
+import { DailyChallenge, getDailyChallenge } from '../utils/dailyChallenge';
+import { GameReplay, createReplay, serializeReplay, getReplayFileName } from '../utils/replay';
+import { getPlayerSetups } from '../utils/players';
+import { DEFAULT_SCORING_RULES, SCORING_STRATEGIES } from '../utils/scoringRules';
+import { analyzeTurns, getMemoryStats } from '../utils/moveAnalysis';
+import { getResumeState, isResumable } from '../utils/savedGame';
+import { getGhostProgress } from '../utils/ghost';
+import { createGameRecord, isGameInProgress } from '../utils/gameHistory';
+import { DEFAULT_PROFILE_ID } from '../utils/profiles';
 
-export default function GameBoard() {
+function downloadReplay(replay: GameReplay) {
+  const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getReplayFileName(replay);
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+interface GameBoardProps {
+  // The player whose saved game and history this board reads and writes; stats come from GameDataProvider
+  profileId?: string;
+}
+
+export default function GameBoard({ profileId = DEFAULT_PROFILE_ID }: GameBoardProps) {
   // Game state management
   const {
     gameState,
     startGame,
+    endPreview,
     flipCard,
     pauseGame,
     resumeGame,
     resetGame,
+    restoreGame,
+    failGame,
     updateTime,
+    recordSplit,
     canFlipCard,
     isGameActive,
     isGameCompleted,
     isGamePaused,
+    isGameFailed,
     isCardFlippingInProgress
   } = useGameState();
 
+  // Computer players take their turns through the same flipCard path
+  const { isBotTurn } = useBotPlayer({ gameState, flipCard, canFlipCard });
+
   // Timer management
   const {
     timeElapsed,
+    elapsedMs,
+    timeRemaining,
+    getElapsedMs,
     start: startTimer,
     pause: pauseTimer,
     resume: resumeTimer,
     reset: resetTimer,
-    isRunning: isTimerRunning
-  } = useTimer();
+    restore: restoreTimer,
+    isRunning: isTimerRunning,
+    isTimeUp
+  } = useTimer({ timeLimit: gameState.timeLimit });
 
   // Local storage management
-  const { updateGameStats } = useLocalStorage();
+  const {
+    updateGameStats,
+    dailyHistory,
+    recordDailyResult,
+    getDailyResult,
+    recordBestRun,
+    getBestRun,
+    customPresets,
+    saveCustomPreset,
+    deleteCustomPreset,
+    preferences,
+    updatePreferences,
+    restorePoints,
+    restoreFromPoint,
+    highScores,
+    isLoaded
+  } = useLocalStorage();
+
+  // Every finished or abandoned game, kept in IndexedDB
+  const { recordGame, importHighScores } = useGameHistory(profileId);
+
+  // Unfinished game snapshot, saved after every resolved turn
+  const { savedGame, saveGame, clearSavedGame } = useSavedGame(profileId);
 
   // Local state for game configuration
   const [selectedDifficulty, setSelectedDifficulty] = useState<Difficulty>('easy');
   const [selectedCategory, setSelectedCategory] = useState<EmojiCategory>(getDefaultCategory());
+  const [seedInput, setSeedInput] = useState('');
+  const [timeLimited, setTimeLimited] = useState(false);
+  const [limitedLives, setLimitedLives] = useState(false);
+  const [setSize, setSetSize] = useState<SetSize>(2);
+  const [memorize, setMemorize] = useState(false);
+  const [playerSetups, setPlayerSetups] = useState<PlayerSetup[]>([]);
+  const [scoringRules, setScoringRules] = useState<ScoringRules>(DEFAULT_SCORING_RULES);
+  const [raceGhost, setRaceGhost] = useState(false);
+  const [ghostRun, setGhostRun] = useState<BestRun | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [personalBests, setPersonalBests] = useState<PersonalBests>(NO_PERSONAL_BESTS);
+  const [dailyChallenge, setDailyChallenge] = useState<DailyChallenge | null>(null);
+  const [activeReplay, setActiveReplay] = useState<GameReplay | null>(null);
+  const [isHeatmapOpen, setIsHeatmapOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const resultRecordedRef = useRef(false);
+  const savedCheckpointRef = useRef<string | null>(null);
+
+  // Derive today's challenge on the client whenever setup is shown, so it rolls over at midnight
+  useEffect(() => {
+    if (gameState.gameStatus === 'setup') {
+      setDailyChallenge(getDailyChallenge());
+    }
+  }, [gameState.gameStatus]);
 
   // Sync timer with game state
   useEffect(() => {
@@ -59,33 +158,202 @@ export default function GameBoard() {
     }
   }, [isGameActive, isGamePaused, isTimerRunning, startTimer, pauseTimer]);
 
-  // Update game state with timer
+  // Pause automatically when the player switches tabs or windows mid-game
+  useEffect(() => {
+    if (!preferences.autoPause || !isGameActive) return;
+
+    const handleLeave = () => {
+      pauseGame();
+      pauseTimer();
+    };
+    const handleVisibilityChange = () => {
+      if (document.hidden) handleLeave();
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('blur', handleLeave);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('blur', handleLeave);
+    };
+  }, [preferences.autoPause, isGameActive, pauseGame, pauseTimer]);
+
+  // Update game state with timer, once per whole second
   useEffect(() => {
-    updateTime(timeElapsed);
-  }, [timeElapsed, updateTime]);
+    updateTime(getElapsedMs());
+  }, [timeElapsed, updateTime, getElapsedMs]);
 
-  // Handle game completion
+  // Stamp each match with the exact game-clock time as it lands
   useEffect(() => {
-    if (isGameCompleted && !isModalOpen) {
-      // Save game statistics to local storage
-      updateGameStats(
-        gameState.difficulty,
-        gameState.moves,
-        gameState.timeElapsed,
-        true, // won
-        gameState.score,
-        gameState.category.id
-      );
+    if (gameState.matchedPairs.length > gameState.splits.length) {
+      recordSplit(getElapsedMs());
+    }
+  }, [gameState.matchedPairs.length, gameState.splits.length, recordSplit, getElapsedMs]);
+
+  // End time-limited games when the countdown runs out
+  useEffect(() => {
+    if (isGameActive && isTimeUp) {
+      failGame('timeout');
+    }
+  }, [isGameActive, isTimeUp, failGame]);
+
+  // Snapshot the game after each resolved turn and on pause, so a reload can pick it back up
+  useEffect(() => {
+    if (!isResumable(gameState) || gameState.moves === 0) return;
+
+    const checkpoint = `${gameState.moves}:${gameState.gameStatus}`;
+    if (savedCheckpointRef.current === checkpoint) return;
+    savedCheckpointRef.current = checkpoint;
+    saveGame(gameState);
+  }, [gameState, saveGame]);
+
+  // Handle game over (completed or failed), recording the result exactly once
+  // A finished board waits for its final split, which carries the exact finishing time
+  useEffect(() => {
+    const hasFinalTime = gameState.splits.length === gameState.matchedPairs.length;
+    if ((isGameCompleted || isGameFailed) && hasFinalTime && !resultRecordedRef.current) {
+      resultRecordedRef.current = true;
+      clearSavedGame();
+      recordGame(createGameRecord(gameState, isGameCompleted ? 'won' : 'lost'));
+
+      // Save game statistics to local storage; hot-seat games are not one player's result
+      // Personal bests come back from the save, judged against the records from before this game
+      let newPersonalBests = NO_PERSONAL_BESTS;
+      if (gameState.players.length === 0) {
+        newPersonalBests = updateGameStats(
+          gameState.difficulty,
+          gameState.moves,
+          gameState.timeElapsedMs / 1000,
+          isGameCompleted,
+          gameState.score,
+          gameState.category.id,
+          gameState.previewDuration !== null,
+          gameState.scoringRules,
+          gameState.longestStreak,
+          getMemoryStats(analyzeTurns(gameState.history))
+        );
+        // Blind, timed wins can become the ghost for later races on this board
+        if (isGameCompleted && gameState.previewDuration === null && SCORING_STRATEGIES[gameState.scoringRules].showsTimer) {
+          recordBestRun({
+            difficulty: gameState.difficulty,
+            category: gameState.category.id,
+            setSize: gameState.setSize,
+            time: gameState.timeElapsedMs / 1000,
+            splits: gameState.splits
+          });
+        }
+      }
+      if (gameState.dailyDate && gameState.seed !== null) {
+        recordDailyResult({
+          date: gameState.dailyDate,
+          difficulty: gameState.difficulty,
+          category: gameState.category.id,
+          seed: gameState.seed,
+          completed: isGameCompleted,
+          moves: gameState.moves,
+          time: gameState.timeElapsedMs / 1000,
+          score: gameState.score
+        });
+      }
+      setPersonalBests(newPersonalBests);
       // Show modal after a brief delay for celebration effect
       setTimeout(() => setIsModalOpen(true), 1000);
     }
-  }, [isGameCompleted, isModalOpen, gameState, updateGameStats]);
+  }, [isGameCompleted, isGameFailed, gameState, updateGameStats, recordDailyResult, recordBestRun, clearSavedGame, recordGame]);
+
+  // Bring high scores saved before the game history existed into it, once stats have loaded
+  useEffect(() => {
+    if (isLoaded) {
+      importHighScores(highScores);
+    }
+  }, [isLoaded, highScores, importHighScores]);
 
   // Game control handlers
-  const handleStartGame = (difficulty: Difficulty, category: EmojiCategory) => {
-    startGame(difficulty, category);
+  const handleStartGame = (difficulty: Difficulty, category: EmojiCategory, options: StartGameOptions = {}) => {
+    resultRecordedRef.current = false;
+    savedCheckpointRef.current = null;
+    clearSavedGame();
+    // Solo timed games race the board's best run when the player asked for it
+    const canRace = !options.players?.length && SCORING_STRATEGIES[options.scoringRules ?? DEFAULT_SCORING_RULES].showsTimer;
+    setGhostRun((raceGhost && canRace && getBestRun(difficulty, category.id, options.setSize)) || null);
+    startGame(difficulty, category, options);
     resetTimer();
-    startTimer();
+    // With a memorize phase the clock starts once the cards are turned back over
+    if (!options.previewSeconds) {
+      startTimer();
+    }
+  };
+
+  const selectedPreviewSeconds = getPreviewSeconds(selectedDifficulty, preferences.previewSeconds);
+
+  const handlePreviewSecondsChange = (seconds: number) => {
+    updatePreferences({
+      previewSeconds: { ...preferences.previewSeconds, [selectedDifficulty]: seconds }
+    });
+  };
+
+  const handleStartFromSetup = () => {
+    // Blank input means a fresh random board; invalid input is flagged by SeedInput
+    const options: StartGameOptions = {
+      timeLimited: timeLimited && SCORING_STRATEGIES[scoringRules].showsTimer,
+      limitedLives,
+      setSize,
+      previewSeconds: memorize ? selectedPreviewSeconds : undefined,
+      players: playerSetups,
+      scoringRules
+    };
+
+    if (seedInput.trim() === '') {
+      handleStartGame(selectedDifficulty, selectedCategory, options);
+      return;
+    }
+
+    const seed = parseSeed(seedInput);
+    if (seed !== null) {
+      handleStartGame(selectedDifficulty, selectedCategory, { ...options, seed });
+    }
+  };
+
+  const handlePlayDaily = () => {
+    if (!dailyChallenge) return;
+
+    const category = getEmojiCategory(dailyChallenge.categoryId) ?? getDefaultCategory();
+    const alreadyAttempted = getDailyResult(dailyChallenge.date) !== undefined;
+
+    if (alreadyAttempted) {
+      // Only the first attempt is scored; later runs are practice on the same board
+      handleStartGame(dailyChallenge.difficulty, category, { seed: dailyChallenge.seed });
+      return;
+    }
+
+    // Record the attempt up front so abandoning the board still uses up today's try
+    recordDailyResult({
+      date: dailyChallenge.date,
+      difficulty: dailyChallenge.difficulty,
+      category: category.id,
+      seed: dailyChallenge.seed,
+      completed: false,
+      moves: 0,
+      time: 0,
+      score: 0
+    });
+    handleStartGame(dailyChallenge.difficulty, category, {
+      seed: dailyChallenge.seed,
+      dailyDate: dailyChallenge.date
+    });
+  };
+
+  const handleSavePreset = (name: string, rows: number, cols: number) => {
+    const preset = saveCustomPreset(name, rows, cols);
+    setSelectedDifficulty(preset.id);
+  };
+
+  const handleDeletePreset = (id: CustomDifficulty) => {
+    deleteCustomPreset(id);
+    if (selectedDifficulty === id) {
+      setSelectedDifficulty('easy');
+    }
   };
 
   const handlePauseGame = () => {
@@ -99,13 +367,41 @@ export default function GameBoard() {
   };
 
   const handleResetGame = () => {
+    // Leaving a game part-way through still goes in the history
+    if (isGameInProgress(gameState)) {
+      recordGame(createGameRecord(gameState, 'abandoned'));
+    }
+    resultRecordedRef.current = false;
+    savedCheckpointRef.current = null;
+    clearSavedGame();
+    setGhostRun(null);
     resetGame();
     resetTimer();
   };
 
+  // Pick the saved game back up, paused so the player can find their place first
+  const handleResumeSavedGame = () => {
+    if (!savedGame) return;
+    const snapshot = getResumeState(savedGame);
+    resultRecordedRef.current = false;
+    // Clearing the checkpoint re-saves the settled snapshot straight away
+    savedCheckpointRef.current = null;
+    clearSavedGame();
+    setGhostRun(null);
+    restoreGame(snapshot);
+    restoreTimer(snapshot.timeElapsedMs);
+  };
+
+  const handleDiscardSavedGame = () => {
+    if (savedGame) {
+      recordGame(createGameRecord(savedGame.state, 'abandoned', new Date(savedGame.savedAt)));
+    }
+    clearSavedGame();
+  };
+
   // Card click handler
   const handleCardClick = (cardId: number) => {
-    if (canFlipCard(cardId)) {
+    if (!isBotTurn && canFlipCard(cardId)) {
       flipCard(cardId);
     }
   };
@@ -117,7 +413,41 @@ export default function GameBoard() {
 
   const handlePlayAgain = () => {
     setIsModalOpen(false);
-    handleStartGame(gameState.difficulty, gameState.category);
+    handleStartGame(gameState.difficulty, gameState.category, {
+      timeLimited: gameState.timeLimit !== null,
+      limitedLives: gameState.maxLives !== null,
+      setSize: gameState.setSize,
+      previewSeconds: gameState.previewDuration ?? undefined,
+      players: getPlayerSetups(gameState.players),
+      scoringRules: gameState.scoringRules
+    });
+  };
+
+  const handleRetrySameBoard = () => {
+    setIsModalOpen(false);
+    handleStartGame(gameState.difficulty, gameState.category, {
+      seed: gameState.seed ?? undefined,
+      timeLimited: gameState.timeLimit !== null,
+      limitedLives: gameState.maxLives !== null,
+      setSize: gameState.setSize,
+      previewSeconds: gameState.previewDuration ?? undefined,
+      players: getPlayerSetups(gameState.players),
+      scoringRules: gameState.scoringRules
+    });
+  };
+
+  const handleWatchReplay = () => {
+    setIsModalOpen(false);
+    setActiveReplay(createReplay(gameState));
+  };
+
+  const handleExportReplay = () => {
+    downloadReplay(createReplay(gameState));
+  };
+
+  const handleShowHeatmap = () => {
+    setIsModalOpen(false);
+    setIsHeatmapOpen(true);
   };
 
   const handleChangeDifficulty = () => {
@@ -125,7 +455,10 @@ export default function GameBoard() {
     handleResetGame();
   };
 
-  const config = DIFFICULTY_CONFIGS[gameState.difficulty];
+  const config = getDifficultyConfig(gameState.difficulty);
+
+  // Paused boards show only card backs, so a pause can't be used to study the layout
+  const isBoardConcealed = isGamePaused && preferences.concealOnPause;
 
   const gridCols = config.cols;
   const gridStyle = {
@@ -135,12 +468,25 @@ export default function GameBoard() {
 
   return (
     <div className="w-full max-w-6xl mx-auto space-y-6">
+      {/* Unfinished game from an earlier visit - offered before setup */}
+      {gameState.gameStatus === 'setup' && savedGame && (
+        <ResumeGamePrompt
+          savedGame={savedGame}
+          customPresets={customPresets}
+          onResume={handleResumeSavedGame}
+          onDiscard={handleDiscardSavedGame}
+        />
+      )}
+
       {/* Game Configuration - Only show during setup */}
-      {gameState.gameStatus === 'setup' && (
+      {gameState.gameStatus === 'setup' && !savedGame && (
         <div className="grid lg:grid-cols-2 gap-6 p-6 bg-white/70 rounded-xl backdrop-blur-sm shadow-lg">
           <DifficultySelector
             selectedDifficulty={selectedDifficulty}
             onChange={setSelectedDifficulty}
+            customPresets={customPresets}
+            onSavePreset={handleSavePreset}
+            onDeletePreset={handleDeletePreset}
             disabled={isGameActive || isGamePaused}
           />
           <CategorySelector
@@ -148,60 +494,179 @@ export default function GameBoard() {
             onChange={setSelectedCategory}
             disabled={isGameActive || isGamePaused}
           />
+          <div className="lg:col-span-2">
+            <GameModeSelector
+              difficulty={selectedDifficulty}
+              timeLimited={timeLimited}
+              onTimeLimitedChange={setTimeLimited}
+              limitedLives={limitedLives}
+              onLimitedLivesChange={setLimitedLives}
+              setSize={setSize}
+              onSetSizeChange={setSetSize}
+              memorize={memorize}
+              onMemorizeChange={setMemorize}
+              previewSeconds={selectedPreviewSeconds}
+              onPreviewSecondsChange={handlePreviewSecondsChange}
+              scoringRules={scoringRules}
+              onScoringRulesChange={setScoringRules}
+              ghostTime={getBestRun(selectedDifficulty, selectedCategory.id, setSize)?.time ?? null}
+              raceGhost={raceGhost}
+              onRaceGhostChange={setRaceGhost}
+              disabled={isGameActive || isGamePaused}
+            />
+          </div>
+          <div className="lg:col-span-2">
+            <PlayerSetupPanel
+              players={playerSetups}
+              onChange={setPlayerSetups}
+              disabled={isGameActive || isGamePaused}
+            />
+          </div>
+          <div className="lg:col-span-2">
+            <PausePreferences
+              autoPause={preferences.autoPause}
+              onAutoPauseChange={autoPause => updatePreferences({ autoPause })}
+              concealOnPause={preferences.concealOnPause}
+              onConcealOnPauseChange={concealOnPause => updatePreferences({ concealOnPause })}
+            />
+          </div>
+          <div className="lg:col-span-2 max-w-xs w-full mx-auto space-y-3">
+            <SeedInput
+              value={seedInput}
+              onChange={setSeedInput}
+              disabled={isGameActive || isGamePaused}
+            />
+            <ReplayImportButton onImport={setActiveReplay} />
+            <div className="text-center">
+              <button
+                onClick={() => setIsSettingsOpen(true)}
+                className="px-4 py-2 text-sm font-medium rounded-lg border-2 bg-white border-gray-200 text-gray-700 hover:border-gray-300 hover:shadow-sm transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50"
+              >
+                ⚙️ Settings
+              </button>
+            </div>
+          </div>
         </div>
       )}
 
+      {/* Daily Challenge - Only show during setup */}
+      {gameState.gameStatus === 'setup' && !savedGame && dailyChallenge && (
+        <DailyChallengePanel
+          challenge={dailyChallenge}
+          history={dailyHistory}
+          onPlay={handlePlayDaily}
+        />
+      )}
+
       {/* Game Stats */}
       <GameStats
-        timeElapsed={gameState.timeElapsed}
+        timeElapsed={elapsedMs / 1000}
+        timeRemaining={timeRemaining}
+        livesRemaining={gameState.livesRemaining}
+        maxLives={gameState.maxLives}
         moves={gameState.moves}
         score={gameState.score}
         matchedPairs={gameState.matchedPairs.length}
         difficulty={gameState.difficulty}
+        setSize={gameState.setSize}
         gameStatus={gameState.gameStatus}
+        players={gameState.players}
+        currentPlayerIndex={gameState.currentPlayerIndex}
+        scoringRules={gameState.scoringRules}
+        currentStreak={gameState.currentStreak}
+        ghost={ghostRun ? getGhostProgress(ghostRun.splits, gameState.splits, elapsedMs) : null}
       />
 
       {/* Game Controls */}
       <GameControls
         gameStatus={gameState.gameStatus}
-        onStart={() => handleStartGame(selectedDifficulty, selectedCategory)}
+        onStart={() => handleStartFromSetup()}
         onPause={handlePauseGame}
         onResume={handleResumeGame}
         onReset={handleResetGame}
         difficulty={gameState.difficulty}
         category={gameState.category}
+        seed={gameState.seed}
         isCardFlippingInProgress={isCardFlippingInProgress}
       />
 
+      {/* Memorize Phase Countdown */}
+      {gameState.gameStatus === 'preview' && gameState.previewDuration !== null && (
+        <PreviewCountdown seconds={gameState.previewDuration} onFinish={endPreview} />
+      )}
+
       {/* Game Board */}
       {gameState.gameStatus !== 'setup' && (
-        <div className="p-4 bg-white/70 rounded-xl backdrop-blur-sm shadow-lg">
+        <div className="relative p-4 bg-white/70 rounded-xl backdrop-blur-sm shadow-lg">
           <div
             className="grid gap-2 sm:gap-3 md:gap-4 w-full"
             style={gridStyle}
             role="grid"
-            aria-label={`Memory game board with ${config.pairs} pairs of ${gameState.category.name} emojis`}
+            aria-label={`Memory game board with ${getTotalSets(gameState.difficulty, gameState.setSize)} ${SET_SIZE_NAMES[gameState.setSize].plural} of ${gameState.category.name} emojis`}
           >
             {gameState.board.map((card) => (
               <Card
                 key={card.id}
-                card={card}
+                card={isBoardConcealed ? { ...card, isFlipped: false, isMatched: false } : card}
                 onClick={handleCardClick}
-                disabled={!canFlipCard(card.id)}
+                disabled={isBotTurn || !canFlipCard(card.id)}
               />
             ))}
           </div>
+
+          {/* Pause Overlay */}
+          {isBoardConcealed && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 rounded-xl bg-gray-900/80 backdrop-blur-md">
+              <div className="text-2xl font-bold text-white">⏸️ Paused</div>
+              <p className="text-sm text-gray-200">The cards are hidden until you resume.</p>
+              <button
+                onClick={handleResumeGame}
+                className="px-6 py-2 bg-green-600 hover:bg-green-700 text-white font-medium rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+                autoFocus
+              >
+                Resume
+              </button>
+            </div>
+          )}
         </div>
       )}
 
       {/* Game Over Modal */}
       <GameOverModal
         gameState={gameState}
+        personalBests={personalBests}
         isOpen={isModalOpen}
         onClose={handleCloseModal}
         onPlayAgain={handlePlayAgain}
+        onRetrySameBoard={handleRetrySameBoard}
+        onWatchReplay={handleWatchReplay}
+        onExportReplay={handleExportReplay}
+        onShowHeatmap={handleShowHeatmap}
         onChangeDifficulty={handleChangeDifficulty}
       />
+
+      {/* Board Heatmap */}
+      {isHeatmapOpen && (
+        <BoardHeatmap gameState={gameState} onClose={() => setIsHeatmapOpen(false)} />
+      )}
+
+      {/* Settings and restore points */}
+      {isSettingsOpen && (
+        <SettingsScreen
+          restorePoints={restorePoints}
+          onRestore={restoreFromPoint}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
+
+      {/* Replay Viewer */}
+      {activeReplay && (
+        <ReplayViewer
+          replay={activeReplay}
+          onClose={() => setActiveReplay(null)}
+          onExport={() => downloadReplay(activeReplay)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
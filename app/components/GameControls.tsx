@@ -1,16 +1,18 @@
 'use client';
 
-import { useCallback } from 'react';
-import { Difficulty, EmojiCategory } from '../types/game';
+import { useCallback, useState } from 'react';
+import { Difficulty, EmojiCategory, GameStatus } from '../types/game';
+import { formatSeed } from '../utils/random';
 
 interface GameControlsProps {
-  gameStatus: 'setup' | 'playing' | 'paused' | 'completed';
+  gameStatus: GameStatus;
   onStart: (difficulty: Difficulty, category: EmojiCategory) => void;
   onPause: () => void;
   onResume: () => void;
   onReset: () => void;
   difficulty: Difficulty;
   category: EmojiCategory;
+  seed?: number | null;
   isCardFlippingInProgress?: boolean;
 }
 
@@ -22,8 +24,11 @@ export default function GameControls({
   onReset,
   difficulty,
   category,
+  seed = null,
   isCardFlippingInProgress = false
 }: GameControlsProps) {
+  const [seedCopied, setSeedCopied] = useState(false);
+
   const handleStart = useCallback(() => {
     onStart(difficulty, category);
   }, [onStart, difficulty, category]);
@@ -42,7 +47,19 @@ export default function GameControls({
     }
   }, [onReset]);
 
-  const isGameInProgress = gameStatus === 'playing' || gameStatus === 'paused';
+  const handleCopySeed = useCallback(async () => {
+    if (seed === null) return;
+
+    try {
+      await navigator.clipboard.writeText(formatSeed(seed));
+      setSeedCopied(true);
+      setTimeout(() => setSeedCopied(false), 2000);
+    } catch (error) {
+      console.warn('Failed to copy seed to clipboard:', error);
+    }
+  }, [seed]);
+
+  const isGameInProgress = gameStatus === 'preview' || gameStatus === 'playing' || gameStatus === 'paused';
   const canPause = gameStatus === 'playing' && !isCardFlippingInProgress;
   const canResume = gameStatus === 'paused';
 
@@ -50,7 +67,7 @@ export default function GameControls({
     <div className="flex flex-col sm:flex-row gap-3 justify-center items-center p-4 bg-white/50 rounded-lg backdrop-blur-sm shadow-sm">
       {/* Primary Action Button */}
       <div className="flex gap-2">
-        {gameStatus === 'setup' || gameStatus === 'completed' ? (
+        {gameStatus === 'setup' || gameStatus === 'completed' || gameStatus === 'failed' ? (
           <button
             onClick={handleStart}
             className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition-colors duration-200 shadow-sm hover:shadow-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50"
@@ -93,18 +110,36 @@ export default function GameControls({
         </button>
       )}
 
+      {/* Board Seed */}
+      {gameStatus !== 'setup' && seed !== null && (
+        <button
+          onClick={handleCopySeed}
+          className="flex items-center gap-2 px-3 py-1 text-sm text-gray-600 bg-white/70 rounded-lg border border-gray-200 hover:bg-white transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50"
+          aria-label={`Board seed ${formatSeed(seed)}, click to copy`}
+          title="Share this seed to let others play the same board"
+        >
+          <span>Seed</span>
+          <span className="font-mono font-semibold tracking-widest text-gray-800">{formatSeed(seed)}</span>
+          <span className="text-xs">{seedCopied ? '✅' : '📋'}</span>
+        </button>
+      )}
+
       {/* Game Status Indicator */}
       <div className="flex items-center gap-2 text-sm text-gray-600">
         <div className={`w-2 h-2 rounded-full ${
+          gameStatus === 'preview' ? 'bg-purple-500' :
           gameStatus === 'playing' ? 'bg-green-500' :
           gameStatus === 'paused' ? 'bg-yellow-500' :
           gameStatus === 'completed' ? 'bg-blue-500' :
+          gameStatus === 'failed' ? 'bg-red-500' :
           'bg-gray-400'
         }`} />
         <span className="capitalize font-medium">
           {gameStatus === 'setup' ? 'Ready to start' : 
+           gameStatus === 'preview' ? 'Memorizing' :
            gameStatus === 'playing' ? 'Playing' :
-           gameStatus === 'paused' ? 'Paused' : 'Completed'}
+           gameStatus === 'paused' ? 'Paused' :
+           gameStatus === 'failed' ? 'Game over' : 'Completed'}
         </span>
       </div>
     </div>
@@ -0,0 +1,24 @@
+'use client';
+
+import { ReactNode } from 'react';
+import { GameDataContext, useGameDataStore } from '../hooks/useLocalStorage';
+
+interface GameDataProviderProps {
+  // Whose stats, high scores and preferences the tree reads and writes
+  profileId: string;
+  children: ReactNode;
+}
+
+/**
+ * Loads one profile's saved data and shares a single copy of it with every component below,
+ * kept in step with other open tabs
+ */
+export default function GameDataProvider({ profileId, children }: GameDataProviderProps) {
+  const store = useGameDataStore(profileId);
+
+  return (
+    <GameDataContext.Provider value={store}>
+      {children}
+    </GameDataContext.Provider>
+  );
+}
@@ -0,0 +1,215 @@
+'use client';
+
+import { Difficulty, ScoringRules, SetSize, SET_SIZES, SET_SIZE_NAMES } from '../types/game';
+import { getTotalSets } from '../utils/gameLogic';
+import { PREVIEW_LIMITS, getDifficultyConfig, getDifficultyLabel } from '../utils/difficulty';
+import { formatPreciseTime, formatTime } from '../utils/scoring';
+import { SCORING_RULES_ORDER, SCORING_STRATEGIES } from '../utils/scoringRules';
+
+interface GameModeSelectorProps {
+  difficulty: Difficulty;
+  timeLimited: boolean;
+  onTimeLimitedChange: (timeLimited: boolean) => void;
+  limitedLives: boolean;
+  onLimitedLivesChange: (limitedLives: boolean) => void;
+  setSize: SetSize;
+  onSetSizeChange: (setSize: SetSize) => void;
+  memorize: boolean;
+  onMemorizeChange: (memorize: boolean) => void;
+  previewSeconds: number;
+  onPreviewSecondsChange: (seconds: number) => void;
+  scoringRules: ScoringRules;
+  onScoringRulesChange: (scoringRules: ScoringRules) => void;
+  ghostTime?: number | null; // Best time on the chosen board, when it has been completed before
+  raceGhost?: boolean;
+  onRaceGhostChange?: (raceGhost: boolean) => void;
+  disabled?: boolean;
+}
+
+interface ModeToggleProps {
+  id: string;
+  icon: string;
+  label: string;
+  description: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  disabled: boolean;
+}
+
+function ModeToggle({ id, icon, label, description, checked, onChange, disabled }: ModeToggleProps) {
+  return (
+    <label
+      htmlFor={id}
+      className={`
+        flex items-center justify-between gap-3 p-3 rounded-lg border-2 transition-all duration-200
+        ${checked ? 'bg-blue-50 border-blue-300 text-blue-900' : 'bg-white border-gray-200 text-gray-700'}
+        ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:border-gray-300'}
+      `}
+    >
+      <div className="flex items-center gap-3">
+        <div className="text-xl" aria-hidden="true">{icon}</div>
+        <div>
+          <div className="font-medium text-sm">{label}</div>
+          <div className="text-xs opacity-75">{description}</div>
+        </div>
+      </div>
+      <input
+        id={id}
+        type="checkbox"
+        checked={checked}
+        onChange={(event) => onChange(event.target.checked)}
+        disabled={disabled}
+        className="w-4 h-4 accent-blue-600"
+      />
+    </label>
+  );
+}
+
+export default function GameModeSelector({
+  difficulty,
+  timeLimited,
+  onTimeLimitedChange,
+  limitedLives,
+  onLimitedLivesChange,
+  setSize,
+  onSetSizeChange,
+  memorize,
+  onMemorizeChange,
+  previewSeconds,
+  onPreviewSecondsChange,
+  scoringRules,
+  onScoringRulesChange,
+  ghostTime = null,
+  raceGhost = false,
+  onRaceGhostChange = () => {},
+  disabled = false
+}: GameModeSelectorProps) {
+  const config = getDifficultyConfig(difficulty);
+  const cellCount = config.rows * config.cols;
+  // Rule sets without a clock can't be played against one
+  const hasTimer = SCORING_STRATEGIES[scoringRules].showsTimer;
+
+  return (
+    <div className="space-y-3">
+      <div className="text-sm font-medium text-gray-700 text-center">
+        Game Mode
+      </div>
+      <div className="grid sm:grid-cols-2 gap-2">
+        <ModeToggle
+          id="mode-time-limit"
+          icon="⏱️"
+          label="Time Limit"
+          description={hasTimer
+            ? `Beat the clock: ${formatTime(config.timeLimit)} on ${getDifficultyLabel(difficulty)}`
+            : `Not available with ${SCORING_STRATEGIES[scoringRules].label} rules`}
+          checked={timeLimited && hasTimer}
+          onChange={onTimeLimitedChange}
+          disabled={disabled || !hasTimer}
+        />
+        <ModeToggle
+          id="mode-limited-lives"
+          icon="❤️"
+          label="Limited Lives"
+          description={`${config.lives} mismatches allowed; unused lives earn bonus points`}
+          checked={limitedLives}
+          onChange={onLimitedLivesChange}
+          disabled={disabled}
+        />
+        <ModeToggle
+          id="mode-memorize"
+          icon="🧠"
+          label="Memorize Phase"
+          description={`See every card for ${previewSeconds}s first; ranked separately`}
+          checked={memorize}
+          onChange={onMemorizeChange}
+          disabled={disabled}
+        />
+        {ghostTime !== null && (
+          <ModeToggle
+            id="mode-ghost-race"
+            icon="👻"
+            label="Race Your Best"
+            description={hasTimer
+              ? `Chase your ${formatPreciseTime(ghostTime)} run on this board, match by match`
+              : `Not available with ${SCORING_STRATEGIES[scoringRules].label} rules`}
+            checked={raceGhost && hasTimer}
+            onChange={onRaceGhostChange}
+            disabled={disabled || !hasTimer}
+          />
+        )}
+      </div>
+      {memorize && (
+        <label className="flex items-center justify-center gap-2 text-xs text-gray-600">
+          Preview length on {getDifficultyLabel(difficulty)}:
+          <input
+            type="number"
+            min={PREVIEW_LIMITS.MIN_SECONDS}
+            max={PREVIEW_LIMITS.MAX_SECONDS}
+            value={previewSeconds}
+            onChange={(event) => {
+              const seconds = Number(event.target.value);
+              if (seconds >= PREVIEW_LIMITS.MIN_SECONDS && seconds <= PREVIEW_LIMITS.MAX_SECONDS) {
+                onPreviewSecondsChange(seconds);
+              }
+            }}
+            disabled={disabled}
+            className="w-16 px-2 py-1 text-sm rounded border-2 border-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50"
+          />
+          seconds
+        </label>
+      )}
+      <div className="flex flex-wrap items-center justify-center gap-2" role="group" aria-label="Scoring rules">
+        <span className="text-xs text-gray-600">Scoring:</span>
+        {SCORING_RULES_ORDER.map(option => {
+          const strategy = SCORING_STRATEGIES[option];
+          return (
+            <button
+              key={option}
+              type="button"
+              onClick={() => onScoringRulesChange(option)}
+              disabled={disabled}
+              aria-pressed={scoringRules === option}
+              title={strategy.description}
+              className={`
+                px-3 py-1 text-sm rounded-lg border-2 transition-all duration-200
+                focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50
+                ${scoringRules === option ? 'bg-blue-50 border-blue-300 text-blue-900 font-semibold' : 'bg-white border-gray-200 text-gray-700'}
+                ${disabled ? 'opacity-50 cursor-not-allowed' : 'hover:border-gray-300'}
+              `}
+            >
+              <span aria-hidden="true">{strategy.icon}</span> {strategy.label}
+            </button>
+          );
+        })}
+      </div>
+      <div className="text-xs text-gray-500 text-center">
+        {SCORING_STRATEGIES[scoringRules].description}. Records only compare games played under the same rules.
+      </div>
+      <div className="flex items-center justify-center gap-2" role="group" aria-label="Cards per match">
+        <span className="text-xs text-gray-600">Cards per match:</span>
+        {SET_SIZES.map(option => {
+          const totalSets = getTotalSets(difficulty, option);
+          const blanks = cellCount - totalSets * option;
+          return (
+            <button
+              key={option}
+              type="button"
+              onClick={() => onSetSizeChange(option)}
+              disabled={disabled}
+              aria-pressed={setSize === option}
+              title={`${totalSets} ${SET_SIZE_NAMES[option].plural}${blanks > 0 ? ` and ${blanks} blank ${blanks === 1 ? 'cell' : 'cells'}` : ''}`}
+              className={`
+                px-3 py-1 text-sm rounded-lg border-2 transition-all duration-200 capitalize
+                focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50
+                ${setSize === option ? 'bg-blue-50 border-blue-300 text-blue-900 font-semibold' : 'bg-white border-gray-200 text-gray-700'}
+                ${disabled ? 'opacity-50 cursor-not-allowed' : 'hover:border-gray-300'}
+              `}
+            >
+              {SET_SIZE_NAMES[option].plural}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
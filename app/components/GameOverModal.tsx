@@ -2,47 +2,86 @@
 
 import { useEffect, useCallback, useRef } from 'react';
 import { createPortal } from 'react-dom';
-import { GameState } from '../types/game';
-import { calculateScoreBreakdown, formatTime, formatScore, getScoreGrade, calculateEfficiencyRating } from '../utils/scoring';
+import { GameState, FailureReason, PersonalBests, Player, SetSize, SET_SIZE_NAMES } from '../types/game';
+import { formatPreciseTime, formatScore, getScoreGrade, calculateEfficiencyRating } from '../utils/scoring';
 import { useLocalStorage } from '../hooks/useLocalStorage';
+import MemoryReport from './MemoryReport';
+import { formatSeed } from '../utils/random';
+import { getRemainingPairs, getTotalSets } from '../utils/gameLogic';
+import { getDifficultyLabel } from '../utils/difficulty';
+import { getWinners, getStandings, PLAYER_COLOR_STYLES } from '../utils/players';
+import { analyzeTurns, getMemoryStats } from '../utils/moveAnalysis';
+import { DEFAULT_SCORING_RULES, SCORING_STRATEGIES, ScoreLine, scoreGame } from '../utils/scoringRules';
+
+type SetName = (typeof SET_SIZE_NAMES)[SetSize];
+
+const FAILURE_HEADINGS: Record<FailureReason, { title: string; description: (setsRemaining: number, setName: SetName) => string }> = {
+  timeout: {
+    title: '⏰ Time\'s Up!',
+    description: (setsRemaining, setName) =>
+      `The clock ran out with ${setsRemaining} ${setsRemaining === 1 ? setName.singular : setName.plural} left to find.`
+  },
+  lives: {
+    title: '💔 Out of Lives!',
+    description: (setsRemaining, setName) =>
+      `Too many mismatches: ${setsRemaining} ${setsRemaining === 1 ? `${setName.singular} was` : `${setName.plural} were`} still hidden.`
+  }
+};
+
+// "Ann", "Ann and Bo", "Ann, Bo and Cy"
+function joinNames(players: Player[]): string {
+  const names = players.map(player => player.name);
+  return names.length <= 1 ? names.join('') : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+}
+
+// Base points are shown bare, bonuses always signed, adjustments coloured by direction
+function formatScoreLine(line: ScoreLine): string {
+  return line.tone === 'base' || line.points < 0 ? formatScore(line.points) : `+${formatScore(line.points)}`;
+}
+
+function getScoreLineClassName(line: ScoreLine): string {
+  switch (line.tone) {
+    case 'signed':
+      return line.points >= 0 ? 'text-green-600' : 'text-red-600';
+    case 'muted':
+      return 'text-gray-600 dark:text-gray-400';
+    case 'penalty':
+      return line.points < 0 ? 'text-red-600' : 'text-gray-900 dark:text-white';
+    case 'highlight':
+      return 'text-yellow-600';
+    default:
+      return 'text-gray-900 dark:text-white';
+  }
+}
 
 interface GameOverModalProps {
   gameState: GameState;
+  personalBests: PersonalBests; // Worked out when the result was saved, before it joined the records
   isOpen: boolean;
   onClose: () => void;
   onPlayAgain: () => void;
+  onRetrySameBoard: () => void;
+  onWatchReplay: () => void;
+  onExportReplay: () => void;
+  onShowHeatmap: () => void;
   onChangeDifficulty: () => void;
 }
 
 export default function GameOverModal({
   gameState,
+  personalBests,
   isOpen,
   onClose,
   onPlayAgain,
+  onRetrySameBoard,
+  onWatchReplay,
+  onExportReplay,
+  onShowHeatmap,
   onChangeDifficulty
 }: GameOverModalProps) {
   const modalRef = useRef<HTMLDivElement>(null);
   const closeButtonRef = useRef<HTMLButtonElement>(null);
-  const { isPersonalBest, getDifficultyStats } = useLocalStorage();
-
-  // Calculate score breakdown and statistics
-  const scoreBreakdown = calculateScoreBreakdown(
-    gameState.difficulty,
-    gameState.timeElapsed,
-    gameState.moves,
-    gameState.matchedPairs.length,
-    gameState.gameStatus === 'completed'
-  );
-
-  const efficiencyRating = calculateEfficiencyRating(
-    gameState.difficulty,
-    gameState.timeElapsed,
-    gameState.moves
-  );
-
-  const grade = getScoreGrade(efficiencyRating);
-  const personalBests = isPersonalBest(gameState.difficulty, gameState.moves, gameState.timeElapsed);
-  const difficultyStats = getDifficultyStats(gameState.difficulty);
+  const { getDifficultyStats, customPresets } = useLocalStorage();
 
   // Focus management
   useEffect(() => {
@@ -107,6 +146,45 @@ export default function GameOverModal({
 
   if (!isOpen) return null;
 
+  // Calculate score breakdown and statistics under the game's own rules
+  // Only once the modal is open: it stays mounted through the game, which re-renders on every timer tick
+  const turns = analyzeTurns(gameState.history);
+  const memoryStats = getMemoryStats(turns);
+  const moveAnalysis = { luckyMatches: memoryStats.lucky, avoidableMistakes: memoryStats.memoryError };
+  const ruleSetScore = scoreGame(gameState.history);
+  const strategy = SCORING_STRATEGIES[gameState.scoringRules];
+
+  // Exact finishing time, from the final match's split
+  const finishTime = gameState.timeElapsedMs / 1000;
+
+  const efficiencyRating = calculateEfficiencyRating(
+    gameState.difficulty,
+    finishTime,
+    gameState.moves,
+    gameState.setSize,
+    moveAnalysis
+  );
+
+  const grade = getScoreGrade(efficiencyRating);
+  const isFailed = gameState.gameStatus === 'failed';
+  const isPreviewGame = gameState.previewDuration !== null;
+  const totalSets = getTotalSets(gameState.difficulty, gameState.setSize);
+  const setsRemaining = getRemainingPairs(gameState.matchedPairs.length, totalSets);
+  const setName = SET_SIZE_NAMES[gameState.setSize];
+  const failureHeading = isFailed && gameState.failureReason ? FAILURE_HEADINGS[gameState.failureReason] : null;
+  const isMultiplayer = gameState.players.length > 0;
+  const difficultyStats = getDifficultyStats(gameState.difficulty, isPreviewGame, gameState.scoringRules);
+  const difficultyLabel = getDifficultyLabel(gameState.difficulty, customPresets);
+  const recordsLabel = [
+    difficultyLabel,
+    isPreviewGame ? 'Memorize' : null,
+    gameState.scoringRules !== DEFAULT_SCORING_RULES ? strategy.label : null
+  ].filter(Boolean).join(' · ');
+  const standings = getStandings(gameState.players);
+  const winners = isMultiplayer && !isFailed ? getWinners(gameState.players) : [];
+  const isTie = winners.length > 1;
+  const countSets = (count: number) => `${count} ${count === 1 ? setName.singular : setName.plural}`;
+
   const modal = (
     <div
       className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in duration-300"
@@ -123,37 +201,97 @@ export default function GameOverModal({
         {/* Header */}
         <div className="text-center mb-6">
           <h2 id="modal-title" className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
-            🎉 Game Complete!
+            {failureHeading
+              ? failureHeading.title
+              : winners.length > 0
+                ? isTie ? '🤝 It\'s a Tie!' : `🏆 ${winners[0].name} Wins!`
+                : '🎉 Game Complete!'}
           </h2>
           <p id="modal-description" className="text-gray-600 dark:text-gray-300">
-            Well done! Here are your results:
+            {failureHeading
+              ? failureHeading.description(setsRemaining, setName)
+              : winners.length > 0
+                ? isTie
+                  ? `${joinNames(winners)} tied with ${countSets(winners[0].matches)} each.`
+                  : `${winners[0].name} found the most ${setName.plural} with ${countSets(winners[0].matches)}.`
+                : gameState.dailyDate
+                  ? `Daily Challenge for ${gameState.dailyDate} complete! Here are your results:`
+                  : 'Well done! Here are your results:'}
           </p>
         </div>
 
         {/* Score and Grade Display */}
         <div className="text-center mb-6">
-          <div className="inline-flex items-center justify-center w-20 h-20 bg-gradient-to-br from-yellow-400 to-orange-500 rounded-full text-white text-3xl font-bold mb-3">
-            {grade}
-          </div>
-          <div className="text-2xl font-bold text-gray-900 dark:text-white mb-1">
-            {formatScore(scoreBreakdown.totalScore)} pts
-          </div>
+          {isFailed ? (
+            <div className="inline-flex flex-col items-center justify-center w-20 h-20 bg-gradient-to-br from-red-400 to-red-600 rounded-full text-white mb-3">
+              <span className="text-3xl font-bold leading-none">{setsRemaining}</span>
+              <span className="text-[10px] uppercase tracking-wide">left</span>
+            </div>
+          ) : (
+            <div className="inline-flex items-center justify-center w-20 h-20 bg-gradient-to-br from-yellow-400 to-orange-500 rounded-full text-white text-3xl font-bold mb-3">
+              {grade}
+            </div>
+          )}
+          {strategy.showsScore && (
+            <div className="text-2xl font-bold text-gray-900 dark:text-white mb-1">
+              {formatScore(ruleSetScore.totalScore)} pts
+            </div>
+          )}
           <div className="text-sm text-gray-600 dark:text-gray-400">
-            Efficiency: {efficiencyRating}%
+            {isFailed
+              ? `Found ${gameState.matchedPairs.length}/${totalSets} ${setName.plural} · ${setsRemaining} remaining`
+              : `Efficiency: ${efficiencyRating}%`}
           </div>
         </div>
 
+        {/* Multiplayer Standings */}
+        {isMultiplayer && (
+          <div className="bg-gray-50 dark:bg-gray-700 rounded-xl p-4 mb-6">
+            <h3 className="font-semibold text-gray-900 dark:text-white mb-3">Standings</h3>
+            <ol className="space-y-2 text-sm">
+              {standings.map((player, index) => {
+                const isWinner = winners.includes(player);
+                return (
+                  <li key={`${player.name}-${player.color}`} className="flex items-center justify-between">
+                    <span className="flex items-center gap-2">
+                      <span className="w-5 text-gray-500 dark:text-gray-400">{index + 1}.</span>
+                      <span className={`w-3 h-3 rounded-full ${PLAYER_COLOR_STYLES[player.color].swatch}`} aria-hidden="true" />
+                      <span className="font-semibold text-gray-900 dark:text-white">
+                        {player.bot && <span aria-label="Computer player">🤖 </span>}{player.name}
+                      </span>
+                      {isWinner && <span aria-label={isTie ? 'Tied for first' : 'Winner'}>{isTie ? '🤝' : '🏆'}</span>}
+                    </span>
+                    <span className="text-gray-600 dark:text-gray-400">
+                      {countSets(player.matches)}
+                      {strategy.showsScore && (
+                        <> · <span className="font-semibold text-gray-900 dark:text-white">{formatScore(player.score)}</span> pts</>
+                      )}
+                    </span>
+                  </li>
+                );
+              })}
+            </ol>
+          </div>
+        )}
+
         {/* Game Statistics */}
         <div className="bg-gray-50 dark:bg-gray-700 rounded-xl p-4 mb-6">
           <h3 className="font-semibold text-gray-900 dark:text-white mb-3">Game Summary</h3>
           <div className="grid grid-cols-2 gap-4 text-sm">
-            <div>
-              <div className="text-gray-600 dark:text-gray-400">Time</div>
-              <div className="font-semibold text-gray-900 dark:text-white flex items-center">
-                {formatTime(gameState.timeElapsed)}
-                {personalBests.time && <span className="ml-2 text-xs bg-green-100 text-green-800 px-2 py-1 rounded">PB!</span>}
+            {strategy.showsTimer ? (
+              <div>
+                <div className="text-gray-600 dark:text-gray-400">Time</div>
+                <div className="font-semibold text-gray-900 dark:text-white flex items-center">
+                  {formatPreciseTime(finishTime)}
+                  {personalBests.time && <span className="ml-2 text-xs bg-green-100 text-green-800 px-2 py-1 rounded">PB!</span>}
+                </div>
               </div>
-            </div>
+            ) : (
+              <div>
+                <div className="text-gray-600 dark:text-gray-400">Rules</div>
+                <div className="font-semibold text-gray-900 dark:text-white">{strategy.icon} {strategy.label}</div>
+              </div>
+            )}
             <div>
               <div className="text-gray-600 dark:text-gray-400">Moves</div>
               <div className="font-semibold text-gray-900 dark:text-white flex items-center">
@@ -161,10 +299,16 @@ export default function GameOverModal({
                 {personalBests.moves && <span className="ml-2 text-xs bg-green-100 text-green-800 px-2 py-1 rounded">PB!</span>}
               </div>
             </div>
+            <div className="col-span-2">
+              <div className="text-gray-600 dark:text-gray-400">Longest Streak</div>
+              <div className="font-semibold text-gray-900 dark:text-white">
+                {gameState.longestStreak >= 2 ? `🔥 ${gameState.longestStreak} matches in a row` : gameState.longestStreak === 1 ? '1 match' : 'No matches'}
+              </div>
+            </div>
             <div>
               <div className="text-gray-600 dark:text-gray-400">Difficulty</div>
-              <div className="font-semibold text-gray-900 dark:text-white capitalize">
-                {gameState.difficulty}
+              <div className="font-semibold text-gray-900 dark:text-white">
+                {difficultyLabel}
               </div>
             </div>
             <div>
@@ -173,61 +317,77 @@ export default function GameOverModal({
                 {gameState.category.name}
               </div>
             </div>
+            {gameState.seed !== null && (
+              <div className="col-span-2">
+                <div className="text-gray-600 dark:text-gray-400">Board Seed</div>
+                <div className="font-mono font-semibold tracking-widest text-gray-900 dark:text-white">
+                  {formatSeed(gameState.seed)}
+                </div>
+              </div>
+            )}
           </div>
+          {strategy.showsTimer && gameState.splits.length > 0 && (
+            <details className="mt-3">
+              <summary className="text-sm font-medium text-gray-700 dark:text-gray-200 cursor-pointer">
+                Split times
+              </summary>
+              <ol className="mt-2 max-h-48 overflow-y-auto space-y-1 text-sm font-mono" aria-label="Split time at each match">
+                {gameState.splits.map((split, index) => {
+                  const lap = split - (index > 0 ? gameState.splits[index - 1] : 0);
+                  const emoji = gameState.board.find(card => card.pairId === gameState.matchedPairs[index])?.emoji;
+                  return (
+                    <li key={index} className="flex items-center gap-3 text-gray-700 dark:text-gray-300">
+                      <span className="w-8 text-right text-gray-500 dark:text-gray-400">#{index + 1}</span>
+                      <span aria-hidden="true">{emoji}</span>
+                      <span className="font-semibold text-gray-900 dark:text-white">{formatPreciseTime(split / 1000)}</span>
+                      <span className="ml-auto text-gray-500 dark:text-gray-400">+{(lap / 1000).toFixed(1)}s</span>
+                    </li>
+                  );
+                })}
+              </ol>
+            </details>
+          )}
         </div>
 
         {/* Score Breakdown */}
-        <div className="bg-gray-50 dark:bg-gray-700 rounded-xl p-4 mb-6">
-          <h3 className="font-semibold text-gray-900 dark:text-white mb-3">Score Breakdown</h3>
-          <div className="space-y-2 text-sm">
-            <div className="flex justify-between">
-              <span className="text-gray-600 dark:text-gray-400">Base Score</span>
-              <span className="font-semibold text-gray-900 dark:text-white">{formatScore(scoreBreakdown.baseScore)}</span>
-            </div>
-            <div className="flex justify-between">
-              <span className="text-gray-600 dark:text-gray-400">Difficulty Bonus</span>
-              <span className="font-semibold text-gray-900 dark:text-white">+{formatScore(scoreBreakdown.difficultyBonus)}</span>
-            </div>
-            <div className="flex justify-between">
-              <span className="text-gray-600 dark:text-gray-400">Time Bonus</span>
-              <span className="font-semibold text-gray-900 dark:text-white">+{formatScore(scoreBreakdown.timeBonus)}</span>
-            </div>
-            <div className="flex justify-between">
-              <span className="text-gray-600 dark:text-gray-400">Move Efficiency</span>
-              <span className={`font-semibold ${scoreBreakdown.moveEfficiency >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                {scoreBreakdown.moveEfficiency >= 0 ? '+' : ''}{formatScore(scoreBreakdown.moveEfficiency)}
-              </span>
-            </div>
-            <div className="flex justify-between">
-              <span className="text-gray-600 dark:text-gray-400">Completion Bonus</span>
-              <span className="font-semibold text-gray-900 dark:text-white">+{formatScore(scoreBreakdown.completionBonus)}</span>
-            </div>
-            {scoreBreakdown.perfectBonus > 0 && (
-              <div className="flex justify-between">
-                <span className="text-gray-600 dark:text-gray-400">Perfect Game!</span>
-                <span className="font-semibold text-yellow-600">+{formatScore(scoreBreakdown.perfectBonus)}</span>
-              </div>
-            )}
-            <div className="border-t border-gray-200 dark:border-gray-600 pt-2 mt-2">
-              <div className="flex justify-between font-bold">
-                <span className="text-gray-900 dark:text-white">Total Score</span>
-                <span className="text-gray-900 dark:text-white">{formatScore(scoreBreakdown.totalScore)}</span>
+        {strategy.showsScore && (
+          <div className="bg-gray-50 dark:bg-gray-700 rounded-xl p-4 mb-6">
+            <h3 className="font-semibold text-gray-900 dark:text-white mb-3">
+              Score Breakdown{gameState.scoringRules !== DEFAULT_SCORING_RULES && ` (${strategy.label})`}
+            </h3>
+            <div className="space-y-2 text-sm">
+              {ruleSetScore.lines.map(line => (
+                <div key={line.label} className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-400">{line.label}</span>
+                  <span className={`font-semibold ${getScoreLineClassName(line)}`}>{formatScoreLine(line)}</span>
+                </div>
+              ))}
+              <div className="border-t border-gray-200 dark:border-gray-600 pt-2 mt-2">
+                <div className="flex justify-between font-bold">
+                  <span className="text-gray-900 dark:text-white">Total Score</span>
+                  <span className="text-gray-900 dark:text-white">{formatScore(ruleSetScore.totalScore)}</span>
+                </div>
               </div>
             </div>
           </div>
-        </div>
+        )}
+
+        {/* Memory Report */}
+        <MemoryReport turns={turns} stats={memoryStats} />
 
         {/* Personal Bests Comparison */}
-        {difficultyStats.gamesPlayed > 0 && (
+        {!isMultiplayer && difficultyStats.gamesPlayed > 0 && (
           <div className="bg-gray-50 dark:bg-gray-700 rounded-xl p-4 mb-6">
-            <h3 className="font-semibold text-gray-900 dark:text-white mb-3">Your Records ({gameState.difficulty})</h3>
+            <h3 className="font-semibold text-gray-900 dark:text-white mb-3">Your Records ({recordsLabel})</h3>
             <div className="grid grid-cols-2 gap-4 text-sm">
-              <div>
-                <div className="text-gray-600 dark:text-gray-400">Best Time</div>
-                <div className="font-semibold text-gray-900 dark:text-white">
-                  {formatTime(difficultyStats.bestTime)}
+              {strategy.showsTimer && (
+                <div>
+                  <div className="text-gray-600 dark:text-gray-400">Best Time</div>
+                  <div className="font-semibold text-gray-900 dark:text-white">
+                    {formatPreciseTime(difficultyStats.bestTime)}
+                  </div>
                 </div>
-              </div>
+              )}
               <div>
                 <div className="text-gray-600 dark:text-gray-400">Best Moves</div>
                 <div className="font-semibold text-gray-900 dark:text-white">
@@ -240,12 +400,14 @@ export default function GameOverModal({
                   {difficultyStats.gamesPlayed}
                 </div>
               </div>
-              <div>
-                <div className="text-gray-600 dark:text-gray-400">High Score</div>
-                <div className="font-semibold text-gray-900 dark:text-white">
-                  {formatScore(difficultyStats.highestScore)}
+              {strategy.showsScore && (
+                <div>
+                  <div className="text-gray-600 dark:text-gray-400">High Score</div>
+                  <div className="font-semibold text-gray-900 dark:text-white">
+                    {formatScore(difficultyStats.highestScore)}
+                  </div>
                 </div>
-              </div>
+              )}
             </div>
           </div>
         )}
@@ -260,6 +422,40 @@ export default function GameOverModal({
           >
             🎮 Play Again
           </button>
+          {gameState.seed !== null && (
+            <button
+              onClick={onRetrySameBoard}
+              className="w-full bg-purple-100 hover:bg-purple-200 dark:bg-purple-900 dark:hover:bg-purple-800 text-purple-900 dark:text-white font-semibold py-3 px-4 rounded-xl transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2"
+              aria-label="Replay the same board layout"
+            >
+              🔁 Same Board
+            </button>
+          )}
+          {gameState.history.length > 0 && (
+            <div className="grid grid-cols-3 gap-3">
+              <button
+                onClick={onWatchReplay}
+                className="w-full bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-900 dark:text-white font-semibold py-3 px-4 rounded-xl transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2"
+                aria-label="Watch a replay of this game"
+              >
+                🎬 Replay
+              </button>
+              <button
+                onClick={onExportReplay}
+                className="w-full bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-900 dark:text-white font-semibold py-3 px-4 rounded-xl transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2"
+                aria-label="Download this game's replay as a JSON file"
+              >
+                💾 Export
+              </button>
+              <button
+                onClick={onShowHeatmap}
+                className="w-full bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-900 dark:text-white font-semibold py-3 px-4 rounded-xl transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2"
+                aria-label="Show where on the board you struggled"
+              >
+                🔥 Heatmap
+              </button>
+            </div>
+          )}
           <button
             onClick={onChangeDifficulty}
             className="w-full bg-gray-200 hover:bg-gray-300 dark:bg-gray-600 dark:hover:bg-gray-500 text-gray-900 dark:text-white font-semibold py-3 px-4 rounded-xl transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2"
@@ -1,50 +1,94 @@
 'use client';
 
 import { useMemo } from 'react';
-import { Difficulty, DIFFICULTY_CONFIGS } from '../types/game';
+import { Difficulty, GameStatus, Player, ScoringRules, SetSize, SET_SIZE_NAMES } from '../types/game';
+import { getTotalSets } from '../utils/gameLogic';
+import { getDifficultyLabel } from '../utils/difficulty';
+import { PLAYER_COLOR_STYLES } from '../utils/players';
+import { DEFAULT_SCORING_RULES, SCORING_STRATEGIES } from '../utils/scoringRules';
+import { calculateStreakBonus, formatPreciseTime } from '../utils/scoring';
+import { GhostProgress, formatGhostDelta } from '../utils/ghost';
 
 interface GameStatsProps {
-  timeElapsed: number;
+  timeElapsed: number; // Seconds, shown to the tenth
+  timeRemaining?: number | null; // Set for time-limited games
+  livesRemaining?: number | null; // Set for limited-lives games
+  maxLives?: number | null;
   moves: number;
   score: number;
   matchedPairs: number;
   difficulty: Difficulty;
-  gameStatus: 'setup' | 'playing' | 'paused' | 'completed';
+  setSize?: SetSize;
+  gameStatus: GameStatus;
+  players?: Player[]; // Set for hot-seat games
+  currentPlayerIndex?: number;
+  scoringRules?: ScoringRules;
+  currentStreak?: number;
+  ghost?: GhostProgress | null; // Set when racing a best run
 }
 
+// Countdown turns urgent below this many seconds
+const LOW_TIME_THRESHOLD = 10;
+
 export default function GameStats({
   timeElapsed,
+  timeRemaining = null,
+  livesRemaining = null,
+  maxLives = null,
   moves,
   score,
   matchedPairs,
   difficulty,
-  gameStatus
+  setSize = 2,
+  gameStatus,
+  players = [],
+  currentPlayerIndex = 0,
+  scoringRules = DEFAULT_SCORING_RULES,
+  currentStreak = 0,
+  ghost = null
 }: GameStatsProps) {
-  // Format time as MM:SS
-  const formattedTime = useMemo(() => {
-    const minutes = Math.floor(timeElapsed / 60);
-    const seconds = timeElapsed % 60;
-    return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
-  }, [timeElapsed]);
+  const strategy = SCORING_STRATEGIES[scoringRules];
+  // A combo is showing from the second match in a row
+  const isComboActive = currentStreak >= 2 && gameStatus === 'playing';
+  const nextStreakBonus = strategy.awardsStreaks ? calculateStreakBonus(currentStreak + 1, difficulty) : 0;
+  const isCountdown = timeRemaining !== null;
+  const displayedTime = isCountdown ? timeRemaining : timeElapsed;
+  const isLowOnTime = isCountdown && timeRemaining <= LOW_TIME_THRESHOLD && gameStatus === 'playing';
+
+  const formattedTime = formatPreciseTime(displayedTime);
+
+  const totalSets = getTotalSets(difficulty, setSize);
+  const setName = SET_SIZE_NAMES[setSize].plural;
 
   // Calculate progress percentage
   const progress = useMemo(() => {
-    const totalPairs = DIFFICULTY_CONFIGS[difficulty].pairs;
-    return totalPairs > 0 ? (matchedPairs / totalPairs) * 100 : 0;
-  }, [matchedPairs, difficulty]);
-
-  const totalPairs = DIFFICULTY_CONFIGS[difficulty].pairs;
+    return totalSets > 0 ? (matchedPairs / totalSets) * 100 : 0;
+  }, [matchedPairs, totalSets]);
 
   return (
     <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 p-4 bg-white/60 rounded-lg backdrop-blur-sm shadow-sm">
-      {/* Timer */}
+      {/* Timer (or the rule set, for rules played without a clock) */}
       <div className="text-center">
-        <div className="text-2xl font-mono font-bold text-gray-800 mb-1">
-          {formattedTime}
-        </div>
-        <div className="text-xs text-gray-600 uppercase tracking-wide font-medium">
-          Time
-        </div>
+        {strategy.showsTimer ? (
+          <>
+            <div
+              className={`text-2xl font-mono font-bold mb-1 ${isLowOnTime ? 'text-red-600 animate-pulse' : 'text-gray-800'}`}
+              aria-live={isLowOnTime ? 'polite' : 'off'}
+            >
+              {formattedTime}
+            </div>
+            <div className="text-xs text-gray-600 uppercase tracking-wide font-medium">
+              {isCountdown ? 'Time Left' : 'Time'}
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="text-2xl mb-1" aria-hidden="true">{strategy.icon}</div>
+            <div className="text-xs text-gray-600 uppercase tracking-wide font-medium">
+              {strategy.label}
+            </div>
+          </>
+        )}
       </div>
 
       {/* Moves Counter */}
@@ -60,10 +104,10 @@ export default function GameStats({
       {/* Progress/Pairs */}
       <div className="text-center">
         <div className="text-2xl font-bold text-gray-800 mb-1">
-          {matchedPairs}/{totalPairs}
+          {matchedPairs}/{totalSets}
         </div>
         <div className="text-xs text-gray-600 uppercase tracking-wide font-medium">
-          Pairs
+          {setName}
         </div>
         {/* Progress Bar */}
         <div className="w-full bg-gray-200 rounded-full h-1.5 mt-2">
@@ -74,7 +118,7 @@ export default function GameStats({
             aria-valuenow={progress}
             aria-valuemin={0}
             aria-valuemax={100}
-            aria-label={`Game progress: ${matchedPairs} of ${totalPairs} pairs matched`}
+            aria-label={`Game progress: ${matchedPairs} of ${totalSets} ${setName} matched`}
           />
         </div>
       </div>
@@ -82,28 +126,119 @@ export default function GameStats({
       {/* Score */}
       <div className="text-center">
         <div className="text-2xl font-bold text-gray-800 mb-1">
-          {score.toLocaleString()}
+          {strategy.showsScore ? score.toLocaleString() : '—'}
         </div>
         <div className="text-xs text-gray-600 uppercase tracking-wide font-medium">
-          Score
+          {!strategy.showsScore ? 'No Score' : scoringRules === DEFAULT_SCORING_RULES ? 'Score' : `${strategy.label} Score`}
         </div>
       </div>
 
+      {/* Combo (two or more matches in a row) */}
+      {isComboActive && (
+        <div
+          className="col-span-2 lg:col-span-4 flex items-center justify-center gap-2 pt-2 border-t border-gray-200 text-sm"
+          aria-live="polite"
+        >
+          <span className="font-bold text-orange-600 animate-pulse">🔥 Combo ×{currentStreak}</span>
+          {nextStreakBonus > 0 && (
+            <span className="text-gray-600">Next match +{nextStreakBonus.toLocaleString()} bonus</span>
+          )}
+        </div>
+      )}
+
+      {/* Ghost race against a best run */}
+      {ghost && (
+        <div className="col-span-2 lg:col-span-4 flex items-center justify-center gap-3 pt-2 border-t border-gray-200 text-sm">
+          <span className="text-gray-600" aria-hidden="true">👻</span>
+          <span className="font-mono text-gray-700">
+            {ghost.matches}/{ghost.total}
+          </span>
+          <div className="w-32 bg-gray-200 rounded-full h-1.5">
+            <div
+              className="bg-purple-400 h-1.5 rounded-full transition-all duration-300 ease-out"
+              style={{ width: `${ghost.total > 0 ? (ghost.matches / ghost.total) * 100 : 0}%` }}
+              role="progressbar"
+              aria-valuenow={ghost.matches}
+              aria-valuemin={0}
+              aria-valuemax={ghost.total}
+              aria-label={`Ghost progress: ${ghost.matches} of ${ghost.total} ${setName} matched`}
+            />
+          </div>
+          {ghost.deltaMs !== null && (
+            <span className={`font-mono font-semibold ${ghost.deltaMs <= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {formatGhostDelta(ghost.deltaMs)}
+            </span>
+          )}
+        </div>
+      )}
+
+      {/* Lives (limited-lives games only) */}
+      {livesRemaining !== null && maxLives !== null && (
+        <div
+          className="col-span-2 lg:col-span-4 flex flex-wrap items-center justify-center gap-1 pt-2 border-t border-gray-200"
+          role="img"
+          aria-label={`${livesRemaining} of ${maxLives} lives remaining`}
+        >
+          {Array.from({ length: maxLives }, (_, index) => (
+            <span
+              key={index}
+              className={`text-lg transition-opacity duration-300 ${index < livesRemaining ? '' : 'opacity-30 grayscale'}`}
+              aria-hidden="true"
+            >
+              {index < livesRemaining ? '❤️' : '🤍'}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Players (hot-seat games only) */}
+      {players.length > 0 && (
+        <div
+          className="col-span-2 lg:col-span-4 flex flex-wrap items-center justify-center gap-2 pt-2 border-t border-gray-200"
+          role="list"
+          aria-label="Players"
+        >
+          {players.map((player, index) => {
+            const isCurrent = index === currentPlayerIndex;
+            const styles = PLAYER_COLOR_STYLES[player.color];
+            return (
+              <div
+                key={index}
+                role="listitem"
+                aria-current={isCurrent ? 'true' : undefined}
+                className={`
+                  flex items-center gap-2 px-3 py-1 rounded-full border text-sm transition-all duration-200
+                  ${styles.badge}
+                  ${isCurrent ? `ring-2 ring-offset-1 ${styles.ring} font-semibold` : 'opacity-70'}
+                `}
+              >
+                {isCurrent && <span aria-label="Current turn">▶</span>}
+                <span>{player.bot && <span aria-label="Computer player">🤖 </span>}{player.name}</span>
+                <span className="font-mono">{player.matches}</span>
+                {strategy.showsScore && <span className="text-xs opacity-75">{player.score.toLocaleString()} pts</span>}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       {/* Mobile: Additional Status Row */}
       <div className="col-span-2 lg:hidden flex items-center justify-center gap-4 pt-2 border-t border-gray-200">
         <div className="flex items-center gap-2 text-sm text-gray-600">
           <div className={`w-2 h-2 rounded-full ${
+            gameStatus === 'preview' ? 'bg-purple-500' :
             gameStatus === 'playing' ? 'bg-green-500 animate-pulse' :
             gameStatus === 'paused' ? 'bg-yellow-500' :
             gameStatus === 'completed' ? 'bg-blue-500' :
+            gameStatus === 'failed' ? 'bg-red-500' :
             'bg-gray-400'
           }`} />
           <span className="font-medium capitalize">
-            {gameStatus === 'setup' ? 'Ready' : gameStatus}
+            {gameStatus === 'setup' ? 'Ready' : gameStatus === 'preview' ? 'Memorizing' : gameStatus === 'failed' ? 'Game over' : gameStatus}
           </span>
         </div>
         <div className="text-sm text-gray-600">
-          <span className="font-medium capitalize">{difficulty}</span> Mode
+          <span className="font-medium">{getDifficultyLabel(difficulty)}</span> Mode
         </div>
       </div>
     </div>
@@ -0,0 +1,111 @@
+'use client';
+
+import { MemoryStats, TurnKind } from '../types/game';
+import { TURN_KINDS, TurnInsight } from '../utils/moveAnalysis';
+
+interface MemoryReportProps {
+  turns: TurnInsight[];
+  stats: MemoryStats;
+}
+
+const TURN_KIND_STYLES: Record<TurnKind, { icon: string; label: string; description: string; className: string }> = {
+  remembered: {
+    icon: '🧠',
+    label: 'Remembered',
+    description: 'Matched using cards you had already seen',
+    className: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100'
+  },
+  lucky: {
+    icon: '🍀',
+    label: 'Lucky',
+    description: 'Matched by turning over a card nobody had seen yet',
+    className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-100'
+  },
+  exploring: {
+    icon: '🔍',
+    label: 'Exploring',
+    description: 'Unavoidable mismatch while uncovering unknown cards',
+    className: 'bg-gray-200 text-gray-800 dark:bg-gray-600 dark:text-gray-100'
+  },
+  memoryError: {
+    icon: '❌',
+    label: 'Memory Error',
+    description: 'Mismatch while every card needed for a match had already been seen',
+    className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100'
+  }
+};
+
+// One sentence on where the moves went, so a low grade has an explanation
+function getVerdict(stats: MemoryStats): string {
+  const mismatches = stats.exploring + stats.memoryError;
+  if (stats.memoryError > 0) {
+    return `${stats.memoryError} of your ${mismatches} ${mismatches === 1 ? 'mismatch was a memory error' : 'mismatches were memory errors'}: the match was already known but missed.`;
+  }
+  if (mismatches > 0) {
+    return `No memory errors: all ${mismatches} ${mismatches === 1 ? 'mismatch was' : 'mismatches were'} spent exploring unknown cards.`;
+  }
+  return 'No mismatches at all!';
+}
+
+export default function MemoryReport({ turns, stats }: MemoryReportProps) {
+  if (turns.length === 0) return null;
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-700 rounded-xl p-4 mb-6">
+      <h3 className="font-semibold text-gray-900 dark:text-white mb-3">Memory Report</h3>
+
+      <div className="grid grid-cols-2 gap-2 text-sm mb-3">
+        {TURN_KINDS.map(kind => (
+          <div
+            key={kind}
+            className={`flex items-center justify-between px-2 py-1 rounded ${TURN_KIND_STYLES[kind].className}`}
+            title={TURN_KIND_STYLES[kind].description}
+          >
+            <span>
+              <span aria-hidden="true">{TURN_KIND_STYLES[kind].icon}</span> {TURN_KIND_STYLES[kind].label}
+            </span>
+            <span className="font-semibold">{stats[kind]}</span>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-sm text-gray-600 dark:text-gray-300 mb-3">
+        {getVerdict(stats)}
+        {stats.lucky > 0 && ` ${stats.lucky} ${stats.lucky === 1 ? 'match was' : 'matches were'} luck rather than memory.`}
+      </p>
+
+      <details>
+        <summary className="text-sm font-medium text-gray-700 dark:text-gray-200 cursor-pointer">
+          Turn-by-turn timeline
+        </summary>
+        <div className="text-xs text-gray-500 dark:text-gray-400 mt-2 mb-1">
+          Solid cards had been seen before; dashed cards were a first look.
+        </div>
+        <ol className="max-h-48 overflow-y-auto space-y-1 text-sm" aria-label="Turn timeline">
+          {turns.map(turn => (
+            <li key={turn.turn} className="flex items-center gap-2">
+              <span className="w-8 text-right text-gray-500 dark:text-gray-400">#{turn.turn}</span>
+              <span className="flex gap-1">
+                {turn.flips.map(flip => (
+                  <span
+                    key={flip.cardId}
+                    className={`
+                      w-7 h-7 flex items-center justify-center rounded border-2
+                      ${flip.seenBefore ? 'border-blue-300 bg-blue-50 dark:bg-blue-900' : 'border-dashed border-gray-300 bg-white dark:bg-gray-800'}
+                    `}
+                    title={`${flip.seenBefore ? 'Seen before' : 'First look'}${flip.partnerKnown ? '; its match had been seen' : ''}`}
+                  >
+                    {flip.emoji}
+                  </span>
+                ))}
+              </span>
+              <span className={`ml-auto px-2 py-0.5 rounded text-xs font-medium ${TURN_KIND_STYLES[turn.kind].className}`}>
+                {TURN_KIND_STYLES[turn.kind].label}
+              </span>
+            </li>
+          ))}
+        </ol>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+'use client';
+
+interface PausePreferencesProps {
+  autoPause: boolean;
+  onAutoPauseChange: (autoPause: boolean) => void;
+  concealOnPause: boolean;
+  onConcealOnPauseChange: (concealOnPause: boolean) => void;
+}
+
+export default function PausePreferences({
+  autoPause,
+  onAutoPauseChange,
+  concealOnPause,
+  onConcealOnPauseChange
+}: PausePreferencesProps) {
+  return (
+    <fieldset className="flex flex-col sm:flex-row justify-center gap-x-6 gap-y-2 text-sm text-gray-700">
+      <legend className="sr-only">Pause preferences</legend>
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={autoPause}
+          onChange={(event) => onAutoPauseChange(event.target.checked)}
+          className="w-4 h-4 accent-blue-600"
+        />
+        Pause when I switch tabs or windows
+      </label>
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={concealOnPause}
+          onChange={(event) => onConcealOnPauseChange(event.target.checked)}
+          className="w-4 h-4 accent-blue-600"
+        />
+        Hide the cards while paused
+      </label>
+    </fieldset>
+  );
+}
@@ -0,0 +1,155 @@
+'use client';
+
+import { BotStrength, PlayerColor, PlayerSetup } from '../types/game';
+import { PLAYER_COLORS, PLAYER_COLOR_STYLES, PLAYER_LIMITS, getDefaultPlayerSetups } from '../utils/players';
+import { BOT_STRENGTHS, BOT_STRENGTH_ORDER } from '../utils/bot';
+
+interface PlayerSetupPanelProps {
+  players: PlayerSetup[]; // Empty for a solo game
+  onChange: (players: PlayerSetup[]) => void;
+  disabled?: boolean;
+}
+
+const PLAYER_COUNTS = Array.from(
+  { length: PLAYER_LIMITS.MAX_PLAYERS - PLAYER_LIMITS.MIN_PLAYERS + 1 },
+  (_, index) => PLAYER_LIMITS.MIN_PLAYERS + index
+);
+
+export default function PlayerSetupPanel({ players, onChange, disabled = false }: PlayerSetupPanelProps) {
+  // Keep the names already typed when the player count changes
+  const handleCountChange = (count: number) => {
+    const defaults = getDefaultPlayerSetups(count);
+    onChange(defaults.map((setup, index) => players[index] ?? setup));
+  };
+
+  const updatePlayer = (index: number, changes: Partial<PlayerSetup>) => {
+    onChange(players.map((player, i) => (i === index ? { ...player, ...changes } : player)));
+  };
+
+  // A human and a medium-strength computer opponent
+  const handlePlayComputer = () => {
+    const [human, computer] = getDefaultPlayerSetups(2);
+    onChange([human, { ...computer, name: 'Computer', bot: 'limited' }]);
+  };
+
+  const handleControllerChange = (index: number, value: string) => {
+    const bot = value === 'human' ? undefined : (value as BotStrength);
+    const { name } = players[index];
+    // Swap placeholder names so the table shows who is who
+    const isDefaultName = name.trim() === '' || name === `Player ${index + 1}` || name === 'Computer';
+    updatePlayer(index, {
+      bot,
+      name: isDefaultName ? (bot ? 'Computer' : `Player ${index + 1}`) : name
+    });
+  };
+
+  const isComputerGame = players.length === 2 && players.filter(player => player.bot).length === 1;
+
+  const isColorTaken = (color: PlayerColor, index: number) =>
+    players.some((player, i) => i !== index && player.color === color);
+
+  const countButtonClassName = (selected: boolean) => `
+    px-3 py-1 text-sm rounded-lg border-2 transition-all duration-200
+    focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50
+    ${selected ? 'bg-blue-50 border-blue-300 text-blue-900 font-semibold' : 'bg-white border-gray-200 text-gray-700'}
+    ${disabled ? 'opacity-50 cursor-not-allowed' : 'hover:border-gray-300'}
+  `;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-center gap-2" role="group" aria-label="Number of players">
+        <span className="text-xs text-gray-600">Players:</span>
+        <button
+          type="button"
+          onClick={() => onChange([])}
+          disabled={disabled}
+          aria-pressed={players.length === 0}
+          className={countButtonClassName(players.length === 0)}
+        >
+          Solo
+        </button>
+        {PLAYER_COUNTS.map(count => (
+          <button
+            key={count}
+            type="button"
+            onClick={() => handleCountChange(count)}
+            disabled={disabled}
+            aria-pressed={players.length === count}
+            className={countButtonClassName(players.length === count)}
+          >
+            {count}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={handlePlayComputer}
+          disabled={disabled}
+          aria-pressed={isComputerGame}
+          className={countButtonClassName(isComputerGame)}
+        >
+          🤖 vs Computer
+        </button>
+      </div>
+
+      {players.length > 0 && (
+        <>
+          <div className="grid sm:grid-cols-2 gap-2">
+            {players.map((player, index) => (
+              <div
+                key={index}
+                className="flex items-center gap-2 p-2 rounded-lg border-2 border-gray-200 bg-white"
+              >
+                <input
+                  type="text"
+                  value={player.name}
+                  onChange={(event) => updatePlayer(index, { name: event.target.value })}
+                  placeholder={`Player ${index + 1}`}
+                  maxLength={PLAYER_LIMITS.MAX_NAME_LENGTH}
+                  disabled={disabled}
+                  className="flex-1 min-w-0 px-2 py-1 text-sm rounded border-2 border-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50"
+                  aria-label={`Player ${index + 1} name`}
+                />
+                <select
+                  value={player.bot ?? 'human'}
+                  onChange={(event) => handleControllerChange(index, event.target.value)}
+                  disabled={disabled}
+                  title={player.bot ? BOT_STRENGTHS[player.bot].description : 'Played on this device'}
+                  className="px-1 py-1 text-sm rounded border-2 border-gray-200 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50"
+                  aria-label={`Player ${index + 1} controller`}
+                >
+                  <option value="human">Human</option>
+                  {BOT_STRENGTH_ORDER.map(strength => (
+                    <option key={strength} value={strength}>🤖 {BOT_STRENGTHS[strength].label}</option>
+                  ))}
+                </select>
+                <div className="flex gap-1" role="group" aria-label={`Player ${index + 1} colour`}>
+                  {PLAYER_COLORS.map(color => {
+                    const isTaken = isColorTaken(color, index);
+                    return (
+                      <button
+                        key={color}
+                        type="button"
+                        onClick={() => updatePlayer(index, { color })}
+                        disabled={disabled || isTaken}
+                        aria-pressed={player.color === color}
+                        aria-label={color}
+                        className={`
+                          w-5 h-5 rounded-full ${PLAYER_COLOR_STYLES[color].swatch}
+                          ${player.color === color ? `ring-2 ring-offset-1 ${PLAYER_COLOR_STYLES[color].ring}` : ''}
+                          ${isTaken ? 'opacity-25 cursor-not-allowed' : ''}
+                        `}
+                      />
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="text-xs text-gray-500 text-center">
+            Take turns on this device: a match keeps your turn, a mismatch passes it on. Computer players only remember cards they have seen turned over. Hot-seat games are not added to your personal stats.
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface PreviewCountdownProps {
+  seconds: number;
+  onFinish: () => void;
+}
+
+// Poll faster than once a second so the display never lags a whole second behind
+const TICK_MS = 250;
+
+export default function PreviewCountdown({ seconds, onFinish }: PreviewCountdownProps) {
+  const [timeRemaining, setTimeRemaining] = useState(seconds);
+
+  // Count down from mount; the parent remounts this for every new memorize phase
+  useEffect(() => {
+    const endsAt = Date.now() + seconds * 1000;
+
+    const interval = setInterval(() => {
+      const remaining = Math.max(0, Math.ceil((endsAt - Date.now()) / 1000));
+      setTimeRemaining(remaining);
+      if (remaining === 0) {
+        clearInterval(interval);
+        onFinish();
+      }
+    }, TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [seconds, onFinish]);
+
+  return (
+    <div
+      className="flex flex-col sm:flex-row items-center justify-center gap-3 p-4 bg-purple-50 border-2 border-purple-200 rounded-lg text-purple-900"
+      role="status"
+      aria-live="polite"
+    >
+      <div className="flex items-center gap-3">
+        <span className="text-2xl" aria-hidden="true">🧠</span>
+        <span className="font-medium">Memorize the board!</span>
+        <span className="text-3xl font-mono font-bold w-12 text-center" aria-label={`${timeRemaining} seconds left`}>
+          {timeRemaining}
+        </span>
+      </div>
+      <button
+        onClick={onFinish}
+        className="px-4 py-2 text-sm font-medium bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-opacity-50"
+        aria-label="End the memorize phase and start playing"
+      >
+        I&apos;m Ready
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { PROFILE_AVATARS, PROFILE_LIMITS } from '../utils/profiles';
+
+interface ProfileFormProps {
+  initialName?: string;
+  initialAvatar?: string;
+  submitLabel: string;
+  onSubmit: (name: string, avatar: string) => void;
+  onCancel: () => void;
+}
+
+export default function ProfileForm({
+  initialName = '',
+  initialAvatar = PROFILE_AVATARS[0],
+  submitLabel,
+  onSubmit,
+  onCancel
+}: ProfileFormProps) {
+  const [name, setName] = useState(initialName);
+  const [avatar, setAvatar] = useState(initialAvatar);
+
+  const handleSubmit = useCallback((event: React.FormEvent) => {
+    event.preventDefault();
+    onSubmit(name, avatar);
+  }, [onSubmit, name, avatar]);
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2" aria-label={`${submitLabel} profile`}>
+      <input
+        type="text"
+        value={name}
+        onChange={(event) => setName(event.target.value)}
+        placeholder="Name"
+        maxLength={PROFILE_LIMITS.MAX_NAME_LENGTH}
+        className="w-full px-2 py-1 text-sm rounded border-2 border-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50"
+        aria-label="Profile name"
+        autoFocus
+      />
+      <div className="flex flex-wrap gap-1" role="group" aria-label="Avatar">
+        {PROFILE_AVATARS.map(option => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setAvatar(option)}
+            className={`w-8 h-8 text-lg rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+              avatar === option ? 'bg-blue-100 ring-2 ring-blue-400' : 'bg-gray-100 hover:bg-gray-200'
+            }`}
+            aria-pressed={avatar === option}
+            aria-label={`Avatar ${option}`}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1 text-sm font-medium rounded-lg bg-gray-200 hover:bg-gray-300 text-gray-800 focus:outline-none focus:ring-2 focus:ring-gray-500"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          className="px-3 py-1 text-sm font-medium rounded-lg bg-blue-600 hover:bg-blue-700 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50"
+        >
+          {submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,184 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import ProfileForm from './ProfileForm';
+import { PlayerProfile } from '../types/game';
+import { PROFILE_LIMITS, getProfileExportFileName } from '../utils/profiles';
+
+interface ProfileSwitcherProps {
+  profiles: PlayerProfile[];
+  activeProfile: PlayerProfile;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string, avatar: string) => void;
+  onEdit: (id: string, updates: Pick<PlayerProfile, 'name' | 'avatar'>) => void;
+  onDelete: (id: string) => void;
+  onExport: (id: string) => string | null;
+}
+
+function downloadProfile(profile: PlayerProfile, json: string) {
+  const blob = new Blob([json], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getProfileExportFileName(profile);
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function ProfileSwitcher({
+  profiles,
+  activeProfile,
+  onSwitch,
+  onCreate,
+  onEdit,
+  onDelete,
+  onExport
+}: ProfileSwitcherProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  // 'new' while creating a profile, or the id of the profile being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close on Escape or a click outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (keyEvent: KeyboardEvent) => {
+      if (keyEvent.key === 'Escape') {
+        setIsOpen(false);
+      }
+    };
+    const handlePointerDown = (pointerEvent: PointerEvent) => {
+      if (!containerRef.current?.contains(pointerEvent.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    document.addEventListener('pointerdown', handlePointerDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('pointerdown', handlePointerDown);
+    };
+  }, [isOpen]);
+
+  // Run a profile change, showing its error instead of closing the form when it throws
+  const attempt = (change: () => void) => {
+    try {
+      change();
+      setEditing(null);
+      setError(null);
+    } catch (changeError) {
+      setError(changeError instanceof Error ? changeError.message : 'Something went wrong');
+    }
+  };
+
+  const handleSwitch = (id: string) => {
+    onSwitch(id);
+    setIsOpen(false);
+  };
+
+  const handleDelete = (profile: PlayerProfile) => {
+    if (window.confirm(`Delete ${profile.name}'s profile? Their stats, high scores, restore points and game history will be lost.`)) {
+      attempt(() => onDelete(profile.id));
+    }
+  };
+
+  const handleExport = (profile: PlayerProfile) => {
+    const json = onExport(profile.id);
+    if (json) {
+      downloadProfile(profile, json);
+      setError(null);
+    } else {
+      setError(`${profile.name} has no stats to export yet`);
+    }
+  };
+
+  const iconButtonClassName = 'px-2 py-1 text-sm rounded text-gray-600 hover:bg-gray-100 hover:text-gray-900 disabled:opacity-40 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div ref={containerRef} className="relative inline-block text-left">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="flex items-center gap-2 px-3 py-2 rounded-full bg-white/70 dark:bg-gray-800/70 shadow-sm hover:shadow text-gray-800 dark:text-white font-medium focus:outline-none focus:ring-2 focus:ring-blue-500"
+        aria-haspopup="true"
+        aria-expanded={isOpen}
+        aria-label={`Profile: ${activeProfile.name}. Switch profile`}
+      >
+        <span className="text-xl" aria-hidden="true">{activeProfile.avatar}</span>
+        <span>{activeProfile.name}</span>
+        <span className="text-xs text-gray-500" aria-hidden="true">▾</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-40 mt-2 w-72 p-3 space-y-3 bg-white rounded-xl shadow-xl text-left">
+          <ul className="space-y-1" aria-label="Profiles">
+            {profiles.map(profile => (
+              <li key={profile.id}>
+                {editing === profile.id ? (
+                  <ProfileForm
+                    initialName={profile.name}
+                    initialAvatar={profile.avatar}
+                    submitLabel="Save"
+                    onSubmit={(name, avatar) => attempt(() => onEdit(profile.id, { name, avatar }))}
+                    onCancel={() => setEditing(null)}
+                  />
+                ) : (
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => handleSwitch(profile.id)}
+                      className={`flex-1 flex items-center gap-2 px-2 py-1 rounded-lg text-left focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                        profile.id === activeProfile.id ? 'bg-blue-50 text-blue-800 font-semibold' : 'text-gray-800 hover:bg-gray-100'
+                      }`}
+                      aria-current={profile.id === activeProfile.id}
+                    >
+                      <span className="text-lg" aria-hidden="true">{profile.avatar}</span>
+                      <span className="truncate">{profile.name}</span>
+                    </button>
+                    <button onClick={() => setEditing(profile.id)} className={iconButtonClassName} aria-label={`Edit ${profile.name}`}>
+                      ✏️
+                    </button>
+                    <button onClick={() => handleExport(profile)} className={iconButtonClassName} aria-label={`Export ${profile.name}'s stats`}>
+                      📤
+                    </button>
+                    <button
+                      onClick={() => handleDelete(profile)}
+                      disabled={profiles.length === 1}
+                      className={iconButtonClassName}
+                      aria-label={`Delete ${profile.name}`}
+                    >
+                      🗑️
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {editing === 'new' ? (
+            <ProfileForm
+              submitLabel="Create"
+              onSubmit={(name, avatar) => attempt(() => onCreate(name, avatar))}
+              onCancel={() => setEditing(null)}
+            />
+          ) : (
+            <button
+              onClick={() => setEditing('new')}
+              disabled={profiles.length >= PROFILE_LIMITS.MAX_PROFILES}
+              className="w-full px-3 py-2 text-sm font-medium rounded-lg border-2 border-dashed border-gray-300 text-gray-700 hover:border-gray-400 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              + New Profile
+            </button>
+          )}
+
+          {error && (
+            <div className="text-xs text-red-600" role="alert">
+              {error}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
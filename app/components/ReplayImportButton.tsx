@@ -0,0 +1,64 @@
+'use client';
+
+import { useCallback, useRef, useState } from 'react';
+import { GameReplay, buildReplayFrames, parseReplay } from '../utils/replay';
+
+interface ReplayImportButtonProps {
+  onImport: (replay: GameReplay) => void;
+  disabled?: boolean;
+}
+
+export default function ReplayImportButton({
+  onImport,
+  disabled = false
+}: ReplayImportButtonProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const replay = parseReplay(await file.text());
+      // Play it through once here, so a file the game can't replay is reported instead of breaking the viewer
+      buildReplayFrames(replay);
+      setError(null);
+      onImport(replay);
+    } catch (importError) {
+      setError(importError instanceof Error ? importError.message : 'Failed to load replay');
+    }
+  }, [onImport]);
+
+  return (
+    <div className="text-center space-y-1">
+      <button
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled}
+        className={`px-4 py-2 text-sm font-medium rounded-lg border-2 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50 ${
+          disabled
+            ? 'opacity-50 cursor-not-allowed border-gray-200 text-gray-500'
+            : 'bg-white border-gray-200 text-gray-700 hover:border-gray-300 hover:shadow-sm'
+        }`}
+        aria-label="Load a replay file"
+      >
+        🎬 Load Replay
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="application/json,.json"
+        onChange={handleFileChange}
+        className="hidden"
+        aria-hidden="true"
+        tabIndex={-1}
+      />
+      {error && (
+        <div className="text-xs text-red-600" role="alert">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+'use client';
+
+import { useEffect, useCallback, useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import Card from './Card';
+import { SET_SIZE_NAMES } from '../types/game';
+import { getTotalSets } from '../utils/gameLogic';
+import { getDifficultyConfig, getDifficultyLabel } from '../utils/difficulty';
+import { PLAYER_COLOR_STYLES } from '../utils/players';
+import { GameReplay, buildReplayFrames, getFrameIndexAtTime } from '../utils/replay';
+import { formatTime, formatScore } from '../utils/scoring';
+import { DEFAULT_SCORING_RULES, SCORING_STRATEGIES } from '../utils/scoringRules';
+
+interface ReplayViewerProps {
+  replay: GameReplay;
+  onClose: () => void;
+  onExport?: () => void;
+}
+
+const PLAYBACK_SPEEDS = [0.5, 1, 2, 4];
+const TICK_MS = 100;
+
+const EVENT_LABELS: Record<string, string> = {
+  START_GAME: 'Game started',
+  FLIP_CARD: 'Card flipped',
+  MATCH_CARDS: 'Match!',
+  UNMATCH_CARDS: 'No match',
+  PAUSE_GAME: 'Paused',
+  RESUME_GAME: 'Resumed',
+  END_PREVIEW: 'Cards hidden',
+  COMPLETE_GAME: 'Game completed',
+  FAIL_GAME: 'Game over',
+  UPDATE_TIME: 'Clock tick',
+  RECORD_SPLIT: 'Split time'
+};
+
+export default function ReplayViewer({ replay, onClose, onExport }: ReplayViewerProps) {
+  const frames = useMemo(() => buildReplayFrames(replay), [replay]);
+  const totalDuration = frames[frames.length - 1].playbackTime;
+
+  const [playbackTime, setPlaybackTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const frameIndex = getFrameIndexAtTime(frames, playbackTime);
+  const { state, event } = frames[frameIndex];
+  const config = getDifficultyConfig(state.difficulty);
+
+  // Advance playback while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const interval = setInterval(() => {
+      setPlaybackTime(time => Math.min(time + TICK_MS * speed, totalDuration));
+    }, TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [isPlaying, speed, totalDuration]);
+
+  // Stop at the end of the replay
+  useEffect(() => {
+    if (isPlaying && playbackTime >= totalDuration) {
+      setIsPlaying(false);
+    }
+  }, [isPlaying, playbackTime, totalDuration]);
+
+  const handleTogglePlay = useCallback(() => {
+    if (!isPlaying && playbackTime >= totalDuration) {
+      setPlaybackTime(0);
+    }
+    setIsPlaying(playing => !playing);
+  }, [isPlaying, playbackTime, totalDuration]);
+
+  const seekToFrame = useCallback((index: number) => {
+    const clamped = Math.max(0, Math.min(frames.length - 1, index));
+    setPlaybackTime(frames[clamped].playbackTime);
+  }, [frames]);
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (keyEvent: KeyboardEvent) => {
+      if (keyEvent.key === 'Escape') {
+        keyEvent.preventDefault();
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    document.body.style.overflow = 'hidden';
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.body.style.overflow = '';
+    };
+  }, [onClose]);
+
+  const viewer = (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="replay-title"
+    >
+      <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl p-6 max-w-3xl w-full mx-4 max-h-[95vh] overflow-y-auto space-y-4">
+        {/* Header */}
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 id="replay-title" className="text-2xl font-bold text-gray-900 dark:text-white">
+              🎬 Replay
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-300 capitalize">
+              {getDifficultyLabel(state.difficulty)} · {state.category.name}
+              {state.scoringRules !== DEFAULT_SCORING_RULES && ` · ${SCORING_STRATEGIES[state.scoringRules].label}`}
+              {' · '}{new Date(replay.createdAt).toLocaleDateString()}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white px-2 py-1 rounded focus:outline-none focus:ring-2 focus:ring-gray-500"
+            aria-label="Close replay"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Replayed stats */}
+        <div className="grid grid-cols-4 gap-2 text-center text-sm">
+          <div>
+            <div className="font-mono font-bold text-gray-900 dark:text-white">{formatTime(state.timeElapsed)}</div>
+            <div className="text-xs text-gray-600 dark:text-gray-400">Time</div>
+          </div>
+          <div>
+            <div className="font-bold text-gray-900 dark:text-white">{state.moves}</div>
+            <div className="text-xs text-gray-600 dark:text-gray-400">Moves</div>
+          </div>
+          <div>
+            <div className="font-bold text-gray-900 dark:text-white">{state.matchedPairs.length}/{getTotalSets(state.difficulty, state.setSize)}</div>
+            <div className="text-xs text-gray-600 dark:text-gray-400 capitalize">{SET_SIZE_NAMES[state.setSize].plural}</div>
+          </div>
+          <div>
+            <div className="font-bold text-gray-900 dark:text-white">
+              {SCORING_STRATEGIES[state.scoringRules].showsScore ? formatScore(state.score) : '—'}
+            </div>
+            <div className="text-xs text-gray-600 dark:text-gray-400">Score</div>
+          </div>
+        </div>
+
+        {/* Replayed players (hot-seat games only) */}
+        {state.players.length > 0 && (
+          <div className="flex flex-wrap items-center justify-center gap-2 text-sm" aria-label="Players">
+            {state.players.map((player, index) => (
+              <span
+                key={index}
+                className={`px-3 py-1 rounded-full border ${PLAYER_COLOR_STYLES[player.color].badge} ${index === state.currentPlayerIndex ? `ring-2 ring-offset-1 ${PLAYER_COLOR_STYLES[player.color].ring} font-semibold` : 'opacity-70'}`}
+              >
+                {player.name} · {player.matches}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {/* Board */}
+        <div
+          className="grid gap-2 w-full max-w-xl mx-auto"
+          style={{ gridTemplateColumns: `repeat(${config.cols}, 1fr)` }}
+          aria-label="Replayed game board"
+        >
+          {state.board.map(card => (
+            <Card key={card.id} card={card} onClick={() => {}} disabled />
+          ))}
+        </div>
+
+        {/* Current event */}
+        <div className="text-center text-sm text-gray-700 dark:text-gray-300" aria-live="polite">
+          Step {frameIndex + 1} of {frames.length}: {EVENT_LABELS[event.type] ?? event.type}
+        </div>
+
+        {/* Scrubber */}
+        <input
+          type="range"
+          min={0}
+          max={frames.length - 1}
+          value={frameIndex}
+          onChange={(changeEvent) => seekToFrame(Number(changeEvent.target.value))}
+          className="w-full"
+          aria-label="Replay position"
+        />
+
+        {/* Controls */}
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          <button
+            onClick={() => seekToFrame(frameIndex - 1)}
+            disabled={frameIndex === 0}
+            className="px-3 py-2 bg-gray-200 hover:bg-gray-300 disabled:opacity-50 rounded-lg focus:outline-none focus:ring-2 focus:ring-gray-500"
+            aria-label="Previous step"
+          >
+            ⏮
+          </button>
+          <button
+            onClick={handleTogglePlay}
+            className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label={isPlaying ? 'Pause replay' : 'Play replay'}
+          >
+            {isPlaying ? '⏸ Pause' : '▶ Play'}
+          </button>
+          <button
+            onClick={() => seekToFrame(frameIndex + 1)}
+            disabled={frameIndex === frames.length - 1}
+            className="px-3 py-2 bg-gray-200 hover:bg-gray-300 disabled:opacity-50 rounded-lg focus:outline-none focus:ring-2 focus:ring-gray-500"
+            aria-label="Next step"
+          >
+            ⏭
+          </button>
+
+          <div className="flex gap-1 ml-2" role="group" aria-label="Playback speed">
+            {PLAYBACK_SPEEDS.map(option => (
+              <button
+                key={option}
+                onClick={() => setSpeed(option)}
+                className={`px-2 py-1 text-sm rounded focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  speed === option ? 'bg-blue-100 text-blue-800 font-semibold' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                }`}
+                aria-pressed={speed === option}
+              >
+                {option}×
+              </button>
+            ))}
+          </div>
+
+          {onExport && (
+            <button
+              onClick={onExport}
+              className="px-3 py-2 ml-2 bg-gray-200 hover:bg-gray-300 rounded-lg text-sm font-medium focus:outline-none focus:ring-2 focus:ring-gray-500"
+              aria-label="Export replay as JSON file"
+            >
+              💾 Export
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
+  return createPortal(viewer, document.body);
+}
@@ -0,0 +1,70 @@
+'use client';
+
+import { BoardPreset } from '../types/game';
+import { getTotalSets } from '../utils/gameLogic';
+import { getDifficultyLabel } from '../utils/difficulty';
+import { formatTime } from '../utils/scoring';
+import { SavedGame } from '../utils/savedGame';
+
+interface ResumeGamePromptProps {
+  savedGame: SavedGame;
+  customPresets: BoardPreset[];
+  onResume: () => void;
+  onDiscard: () => void;
+}
+
+export default function ResumeGamePrompt({ savedGame, customPresets, onResume, onDiscard }: ResumeGamePromptProps) {
+  const { state } = savedGame;
+  const savedAt = new Date(savedGame.savedAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+  return (
+    <div
+      className="p-6 bg-white/70 rounded-xl backdrop-blur-sm shadow-lg text-center space-y-4"
+      role="region"
+      aria-labelledby="resume-game-title"
+    >
+      <div>
+        <h2 id="resume-game-title" className="text-lg font-bold text-gray-800">
+          Resume your unfinished {getDifficultyLabel(state.difficulty, customPresets)} game?
+        </h2>
+        <p className="text-sm text-gray-600">
+          {state.category.name}
+          {state.dailyDate && ' · Daily Challenge'}
+          {' · '}saved {savedAt}
+        </p>
+      </div>
+
+      <div className="flex justify-center gap-6 text-sm text-gray-700">
+        <div>
+          <div className="text-xl font-bold text-gray-900">
+            {state.matchedPairs.length}/{getTotalSets(state.difficulty, state.setSize)}
+          </div>
+          <div className="text-xs uppercase tracking-wide text-gray-600">Matched</div>
+        </div>
+        <div>
+          <div className="text-xl font-bold text-gray-900">{state.moves}</div>
+          <div className="text-xs uppercase tracking-wide text-gray-600">Moves</div>
+        </div>
+        <div>
+          <div className="text-xl font-bold text-gray-900">{formatTime(state.timeElapsed)}</div>
+          <div className="text-xs uppercase tracking-wide text-gray-600">Time</div>
+        </div>
+      </div>
+
+      <div className="flex justify-center gap-3">
+        <button
+          onClick={onResume}
+          className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          Resume
+        </button>
+        <button
+          onClick={onDiscard}
+          className="px-6 py-2 bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold rounded-lg focus:outline-none focus:ring-2 focus:ring-gray-500"
+        >
+          Start New Game
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import { useCallback } from 'react';
+import { parseSeed } from '../utils/random';
+
+interface SeedInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+export default function SeedInput({
+  value,
+  onChange,
+  disabled = false
+}: SeedInputProps) {
+  const isInvalid = value.trim() !== '' && parseSeed(value) === null;
+
+  const handleChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    onChange(event.target.value.toUpperCase());
+  }, [onChange]);
+
+  return (
+    <div className="space-y-2">
+      <label htmlFor="board-seed" className="block text-sm font-medium text-gray-700 text-center">
+        Board Seed
+      </label>
+      <input
+        id="board-seed"
+        type="text"
+        value={value}
+        onChange={handleChange}
+        disabled={disabled}
+        maxLength={7}
+        placeholder="Random"
+        autoComplete="off"
+        spellCheck={false}
+        className={`
+          w-full px-3 py-2 rounded-lg border-2 font-mono text-center tracking-widest bg-white
+          ${isInvalid ? 'border-red-300 text-red-700' : 'border-gray-200 text-gray-800'}
+          ${disabled ? 'opacity-50 cursor-not-allowed' : ''}
+          focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50
+        `}
+        aria-invalid={isInvalid}
+        aria-describedby="board-seed-hint"
+      />
+      <div
+        id="board-seed-hint"
+        className={`text-xs text-center ${isInvalid ? 'text-red-600' : 'text-gray-500'}`}
+      >
+        {isInvalid
+          ? 'Seeds use letters and numbers only (up to 7 characters)'
+          : 'Enter a shared seed to replay the exact same board, or leave blank'}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { getDifficultyLabel } from '../utils/difficulty';
+import { formatPreciseTime } from '../utils/scoring';
+import { RESTORE_POINT_REASONS, RestorePoint, summarizeRestorePoint } from '../utils/restorePoints';
+
+interface SettingsScreenProps {
+  restorePoints: RestorePoint[];
+  onRestore: (createdAt: string) => { success: boolean; message: string };
+  onClose: () => void;
+}
+
+export default function SettingsScreen({ restorePoints, onRestore, onClose }: SettingsScreenProps) {
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+  const summaries = useMemo(
+    () => restorePoints.map(point => ({ point, summary: summarizeRestorePoint(point) })),
+    [restorePoints]
+  );
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (keyEvent: KeyboardEvent) => {
+      if (keyEvent.key === 'Escape') {
+        keyEvent.preventDefault();
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    document.body.style.overflow = 'hidden';
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.body.style.overflow = '';
+    };
+  }, [onClose]);
+
+  const overlay = (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="settings-title"
+    >
+      <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl p-6 max-w-2xl w-full mx-4 max-h-[95vh] overflow-y-auto space-y-4">
+        {/* Header */}
+        <div className="flex items-start justify-between gap-4">
+          <h2 id="settings-title" className="text-2xl font-bold text-gray-900 dark:text-white">
+            ⚙️ Settings
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white px-2 py-1 rounded focus:outline-none focus:ring-2 focus:ring-gray-500"
+            aria-label="Close settings"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Restore points */}
+        <section aria-labelledby="restore-points-title" className="space-y-3">
+          <div>
+            <h3 id="restore-points-title" className="text-lg font-semibold text-gray-900 dark:text-white">
+              Restore Points
+            </h3>
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              Your stats are snapshotted once a day and before they are cleared, imported over or restored.
+            </p>
+          </div>
+
+          {result && (
+            <div
+              className={`text-sm rounded-lg px-3 py-2 ${result.success ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}
+              role="status"
+            >
+              {result.message}
+            </div>
+          )}
+
+          {summaries.length === 0 ? (
+            <p className="text-sm text-gray-600 dark:text-gray-300 text-center py-4">
+              No restore points yet. One is taken the first time you open the game each day.
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {summaries.map(({ point, summary }) => (
+                <li
+                  key={point.createdAt}
+                  className="flex items-center justify-between gap-4 p-3 rounded-lg bg-gray-50 dark:bg-gray-700"
+                >
+                  <div className="min-w-0">
+                    <div className="font-medium text-gray-900 dark:text-white">
+                      {new Date(point.createdAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+                    </div>
+                    <div className="text-xs uppercase tracking-wide text-gray-600 dark:text-gray-400">
+                      {RESTORE_POINT_REASONS[point.reason]}
+                    </div>
+                    {summary ? (
+                      <div className="text-sm text-gray-700 dark:text-gray-300">
+                        {summary.gamesPlayed} games played · {summary.gamesWon} won
+                        {summary.bestScore !== null && ` · Best score ${summary.bestScore.toLocaleString()}`}
+                        {summary.bestTimes.length > 0 && (
+                          <div className="text-xs text-gray-600 dark:text-gray-400">
+                            Best times:{' '}
+                            {summary.bestTimes
+                              .map(({ difficulty, time }) =>
+                                `${getDifficultyLabel(difficulty, summary.data.customPresets)} ${formatPreciseTime(time)}`
+                              )
+                              .join(' · ')}
+                          </div>
+                        )}
+                      </div>
+                    ) : (
+                      <div className="text-sm text-red-700">This snapshot can no longer be read</div>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => setResult(onRestore(point.createdAt))}
+                    disabled={!summary}
+                    className="shrink-0 px-4 py-2 text-sm font-semibold rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    Restore
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+
+  return createPortal(overlay, document.body);
+}
@@ -0,0 +1,85 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { GameEvent, GameState } from '../types/game';
+import {
+  BOT_TIMING,
+  BotMemory,
+  chooseBotFlip,
+  createBotMemory,
+  decayMemory,
+  observeBoard,
+  recordMismatch
+} from '../utils/bot';
+
+interface UseBotPlayerOptions {
+  gameState: GameState;
+  flipCard: (cardId: number) => void;
+  canFlipCard: (cardId: number) => boolean;
+}
+
+/**
+ * Drive any computer players in the current game through the regular flipCard path
+ */
+export function useBotPlayer({ gameState, flipCard, canFlipCard }: UseBotPlayerOptions) {
+  // One memory per computer player, keyed by seat
+  const memoriesRef = useRef<Record<number, BotMemory>>({});
+  const gameStartRef = useRef<GameEvent | undefined>(undefined);
+  const lastMovesRef = useRef(0);
+
+  const { board, players, currentPlayerIndex, flippedCards, gameStatus, moves, setSize } = gameState;
+  const currentBot = players[currentPlayerIndex]?.bot;
+  const isBotTurn = currentBot !== undefined && gameStatus === 'playing';
+
+  // Watch the table: every computer player sees each card that is turned face-up
+  useEffect(() => {
+    const gameStart = gameState.history[0];
+    if (gameStart !== gameStartRef.current) {
+      gameStartRef.current = gameStart;
+      memoriesRef.current = {};
+    }
+
+    players.forEach((player, index) => {
+      if (!player.bot) return;
+      const memory = memoriesRef.current[index] ?? createBotMemory();
+      memoriesRef.current[index] = observeBoard(memory, board, player.bot);
+    });
+  }, [board, players, gameState.history]);
+
+  // Forget a little after every resolved turn, and remember cards that failed to match
+  useEffect(() => {
+    const turnEnded = moves > lastMovesRef.current;
+    lastMovesRef.current = moves;
+    if (!turnEnded) return;
+
+    const lastTurn = [...gameState.history].reverse().find(event => event.type === 'MATCH_CARDS' || event.type === 'UNMATCH_CARDS');
+    const mismatchedIds = lastTurn?.type === 'UNMATCH_CARDS' ? lastTurn.payload?.cardIds : undefined;
+
+    players.forEach((player, index) => {
+      const memory = memoriesRef.current[index];
+      if (player.bot && memory) {
+        const remembered = mismatchedIds ? recordMismatch(memory, mismatchedIds) : memory;
+        memoriesRef.current[index] = decayMemory(remembered, player.bot, Math.random);
+      }
+    });
+  }, [moves, players, gameState.history]);
+
+  // Take the next flip at a human pace
+  useEffect(() => {
+    if (!isBotTurn) return;
+
+    const memory = memoriesRef.current[currentPlayerIndex] ?? createBotMemory();
+    const cardId = chooseBotFlip(memory, board, flippedCards, setSize, Math.random);
+    if (cardId === null || !canFlipCard(cardId)) return;
+
+    const timer = setTimeout(() => {
+      flipCard(cardId);
+    }, BOT_TIMING.THINK_MS + Math.random() * BOT_TIMING.JITTER_MS);
+
+    return () => clearTimeout(timer);
+  }, [isBotTurn, currentPlayerIndex, board, flippedCards, setSize, canFlipCard, flipCard]);
+
+  return {
+    isBotTurn
+  };
+}
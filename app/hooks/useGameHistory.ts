@@ -0,0 +1,61 @@
+'use client';
+
+import { useRef, useCallback } from 'react';
+import { GameRecord, LocalStorageData } from '../types/game';
+import { DEFAULT_PAGE_SIZE, GameHistoryQuery, paginateGameRecords, summarizeGameRecords } from '../utils/gameHistory';
+import { GameHistoryStore, createGameHistoryStore } from '../utils/gameHistoryStore';
+import { DEFAULT_PROFILE_ID } from '../utils/profiles';
+
+// Records are attributed to the profile, and queries only see that profile's games
+export function useGameHistory(profileId: string = DEFAULT_PROFILE_ID) {
+  // Opened on first use; null once we know IndexedDB isn't available
+  const storeRef = useRef<GameHistoryStore | null | undefined>(undefined);
+  const highScoresImportedRef = useRef(false);
+
+  const getStore = useCallback(() => {
+    if (storeRef.current === undefined) {
+      storeRef.current = createGameHistoryStore();
+    }
+    return storeRef.current;
+  }, []);
+
+  // Add a finished or abandoned game; failures are logged rather than interrupting play
+  const recordGame = useCallback((record: GameRecord) => {
+    getStore()?.addGame({ ...record, profileId }).catch(error => {
+      console.warn('Failed to record game history:', error);
+    });
+  }, [getStore, profileId]);
+
+  // Copy the high scores saved before the history existed; only the first call per page load does anything
+  const importHighScores = useCallback((highScores: LocalStorageData['highScores']) => {
+    if (highScoresImportedRef.current) return;
+    highScoresImportedRef.current = true;
+
+    getStore()?.importHighScores(highScores, profileId).catch(error => {
+      console.warn('Failed to import high scores into game history:', error);
+    });
+  }, [getStore, profileId]);
+
+  // One page of matching games, newest first; empty without IndexedDB
+  const queryGames = useCallback(async (
+    query: GameHistoryQuery = {},
+    offset: number = 0,
+    limit: number = DEFAULT_PAGE_SIZE
+  ) => {
+    const store = getStore();
+    return store ? store.queryGames({ ...query, profileId }, offset, limit) : paginateGameRecords([], offset, limit);
+  }, [getStore, profileId]);
+
+  // Totals, averages and bests across matching games
+  const summarizeGames = useCallback(async (query: GameHistoryQuery = {}) => {
+    const store = getStore();
+    return store ? store.summarizeGames({ ...query, profileId }) : summarizeGameRecords([]);
+  }, [getStore, profileId]);
+
+  return {
+    recordGame,
+    importHighScores,
+    queryGames,
+    summarizeGames
+  };
+}
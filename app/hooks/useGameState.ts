@@ -2,264 +2,156 @@
 
 import { useReducer, useCallback, useEffect } from 'react';
 import { 
-  GameState, 
-  GameAction, 
+  GameAction,
   Difficulty, 
   EmojiCategory, 
-  DIFFICULTY_CONFIGS
+  StartGameOptions,
+  FailureReason,
+  GameState
 } from '../types/game';
-import { createGameBoard, canFlipCard as canFlipCardUtil } from '../utils/gameLogic';
-import { calculateGameScore } from '../utils/scoring';
-import { getDefaultCategory } from '../utils/emojiData';
+import { createGameBoard, getTotalSets, getTurnOutcome, canFlipCard as canFlipCardUtil } from '../utils/gameLogic';
+import { gameReducer, initialGameState } from '../utils/gameReducer';
+import { generateSeed } from '../utils/random';
+import { getDifficultyConfig } from '../utils/difficulty';
 
-const initialGameState: GameState = {
-  board: [],
-  flippedCards: [],
-  matchedPairs: [],
-  moves: 0,
-  timeElapsed: 0,
-  gameStatus: 'setup',
-  difficulty: 'easy',
-  category: getDefaultCategory(),
-  score: 0
-};
-
-function gameReducer(state: GameState, action: GameAction): GameState {
-  switch (action.type) {
-    case 'START_GAME': {
-      const { difficulty, category } = action.payload || {};
-      if (!difficulty || !category) return state;
-      const board = createGameBoard(difficulty, category);
-      return {
-        ...state,
-        board,
-        flippedCards: [],
-        matchedPairs: [],
-        moves: 0,
-        timeElapsed: 0,
-        gameStatus: 'playing',
-        difficulty,
-        category,
-        score: 0
-      };
-    }
-
-    case 'FLIP_CARD': {
-      const { cardId } = action.payload || {};
-      if (cardId === undefined) return state;
-      
-      // Prevent flipping if game is not playing or card is already flipped/matched
-      if (state.gameStatus !== 'playing') return state;
-      
-      const card = state.board.find(c => c.id === cardId);
-      if (!card || card.isFlipped || card.isMatched) return state;
-      
-      // Prevent flipping more than 2 cards
-      if (state.flippedCards.length >= 2) return state;
-
-      const newFlippedCards = [...state.flippedCards, cardId];
-      const newBoard = state.board.map(c =>
-        c.id === cardId ? { ...c, isFlipped: true } : c
-      );
-
-      return {
-        ...state,
-        board: newBoard,
-        flippedCards: newFlippedCards
-      };
-    }
-
-    case 'MATCH_CARDS': {
-      const { cardIds } = action.payload || {};
-      if (!cardIds || cardIds.length !== 2) return state;
-      const [firstCardId, secondCardId] = cardIds;
-      
-      const newBoard = state.board.map(card => {
-        if (card.id === firstCardId || card.id === secondCardId) {
-          return { ...card, isMatched: true, isFlipped: true };
-        }
-        return card;
-      });
-
-      const firstCard = state.board.find(c => c.id === firstCardId);
-      const newMatchedPairs = firstCard ? [...state.matchedPairs, firstCard.pairId] : state.matchedPairs;
-      const newMoves = state.moves + 1;
-      
-      // Check if game is completed
-      const totalPairs = DIFFICULTY_CONFIGS[state.difficulty].pairs;
-      const gameCompleted = newMatchedPairs.length === totalPairs;
-      
-      // Calculate score using the new scoring system
-      const newScore = calculateGameScore(
-        state.difficulty,
-        state.timeElapsed,
-        newMoves,
-        newMatchedPairs.length,
-        gameCompleted
-      );
-
-      return {
-        ...state,
-        board: newBoard,
-        flippedCards: [],
-        matchedPairs: newMatchedPairs,
-        moves: newMoves,
-        score: newScore,
-        gameStatus: gameCompleted ? 'completed' : 'playing'
-      };
-    }
-
-    case 'UNMATCH_CARDS': {
-      const { cardIds } = action.payload || {};
-      if (!cardIds || cardIds.length !== 2) return state;
-      const [firstCardId, secondCardId] = cardIds;
-      
-      const newBoard = state.board.map(card => {
-        if (card.id === firstCardId || card.id === secondCardId) {
-          return { ...card, isFlipped: false };
-        }
-        return card;
-      });
-
-      return {
-        ...state,
-        board: newBoard,
-        flippedCards: [],
-        moves: state.moves + 1
-      };
-    }
-
-    case 'PAUSE_GAME': {
-      return {
-        ...state,
-        gameStatus: 'paused'
-      };
-    }
-
-    case 'RESUME_GAME': {
-      return {
-        ...state,
-        gameStatus: 'playing'
-      };
-    }
-
-    case 'UPDATE_TIME': {
-      const { timeElapsed } = action.payload || {};
-      if (timeElapsed === undefined) return state;
-      return {
-        ...state,
-        timeElapsed
-      };
-    }
-
-    case 'RESET_GAME': {
-      return {
-        ...initialGameState,
-        difficulty: state.difficulty,
-        category: state.category
-      };
-    }
-
-    case 'COMPLETE_GAME': {
-      return {
-        ...state,
-        gameStatus: 'completed'
-      };
-    }
-
-    default:
-      return state;
-  }
-}
+export function useGameState() {
+  const [state, dispatchAction] = useReducer(gameReducer, initialGameState);
 
+  // Stamp every action so the reducer can record a timed replay log
+  const dispatch = useCallback((action: GameAction) => {
+    dispatchAction({ ...action, timestamp: Date.now() });
+  }, []);
 
-export function useGameState() {
-  const [state, dispatch] = useReducer(gameReducer, initialGameState);
+  const startGame = useCallback((
+    difficulty: Difficulty,
+    category: EmojiCategory,
+    options: StartGameOptions = {}
+  ) => {
+    const seed = options.seed ?? generateSeed();
+    const setSize = options.setSize ?? 2;
+    const config = getDifficultyConfig(difficulty);
 
-  const startGame = useCallback((difficulty: Difficulty, category: EmojiCategory) => {
+    // The board is generated here so the replay log carries the exact layout
     dispatch({
       type: 'START_GAME',
-      payload: { difficulty, category }
+      payload: {
+        difficulty,
+        category,
+        setSize,
+        seed,
+        dailyDate: options.dailyDate,
+        timeLimit: options.timeLimited ? config.timeLimit : undefined,
+        lives: options.limitedLives ? config.lives : undefined,
+        preview: options.previewSeconds,
+        players: options.players,
+        scoringRules: options.scoringRules,
+        board: createGameBoard(difficulty, category, seed, setSize)
+      }
     });
-  }, []);
+  }, [dispatch]);
 
   const flipCard = useCallback((cardId: number) => {
     dispatch({
       type: 'FLIP_CARD',
       payload: { cardId }
     });
-  }, []);
+  }, [dispatch]);
 
   const handleCardMatch = useCallback((cardIds: number[]) => {
     dispatch({
       type: 'MATCH_CARDS',
       payload: { cardIds }
     });
-  }, []);
+  }, [dispatch]);
 
   const handleCardUnmatch = useCallback((cardIds: number[]) => {
     dispatch({
       type: 'UNMATCH_CARDS',
       payload: { cardIds }
     });
-  }, []);
+  }, [dispatch]);
+
+  const endPreview = useCallback(() => {
+    dispatch({ type: 'END_PREVIEW' });
+  }, [dispatch]);
 
   const pauseGame = useCallback(() => {
     dispatch({ type: 'PAUSE_GAME' });
-  }, []);
+  }, [dispatch]);
 
   const resumeGame = useCallback(() => {
     dispatch({ type: 'RESUME_GAME' });
-  }, []);
+  }, [dispatch]);
 
   const resetGame = useCallback(() => {
     dispatch({ type: 'RESET_GAME' });
-  }, []);
+  }, [dispatch]);
 
-  const updateTime = useCallback((timeElapsed: number) => {
+  const restoreGame = useCallback((snapshot: GameState) => {
+    dispatch({
+      type: 'RESTORE_GAME',
+      payload: { snapshot }
+    });
+  }, [dispatch]);
+
+  const failGame = useCallback((reason: FailureReason) => {
+    dispatch({
+      type: 'FAIL_GAME',
+      payload: { reason }
+    });
+  }, [dispatch]);
+
+  const updateTime = useCallback((timeElapsedMs: number) => {
     dispatch({
       type: 'UPDATE_TIME',
-      payload: { timeElapsed }
+      payload: { timeElapsed: Math.floor(timeElapsedMs / 1000), timeElapsedMs }
     });
-  }, []);
+  }, [dispatch]);
 
-  // Auto-handle card matching logic
+  const recordSplit = useCallback((timeElapsedMs: number) => {
+    dispatch({
+      type: 'RECORD_SPLIT',
+      payload: { timeElapsedMs }
+    });
+  }, [dispatch]);
+
+  // Outcome of the cards flipped so far this turn
+  const turnOutcome = getTurnOutcome(state.board, state.flippedCards, state.setSize);
+
+  // Auto-handle card matching logic once a full set or a mismatch is showing
+  // Held while paused, so the cards are shown again in full after resuming
   useEffect(() => {
-    if (state.flippedCards.length === 2) {
-      const [firstCardId, secondCardId] = state.flippedCards;
-      const firstCard = state.board.find(c => c.id === firstCardId);
-      const secondCard = state.board.find(c => c.id === secondCardId);
+    if (turnOutcome === 'pending' || state.gameStatus === 'paused') return;
 
-      if (firstCard && secondCard) {
-        const isMatch = firstCard.pairId === secondCard.pairId;
-        
-        const timer = setTimeout(() => {
-          if (isMatch) {
-            handleCardMatch([firstCardId, secondCardId]);
-          } else {
-            handleCardUnmatch([firstCardId, secondCardId]);
-          }
-        }, isMatch ? 1500 : 2000); // Allow time to see emojis before state change
+    const cardIds = state.flippedCards;
+    const isMatch = turnOutcome === 'match';
 
-        return () => clearTimeout(timer);
+    const timer = setTimeout(() => {
+      if (isMatch) {
+        handleCardMatch(cardIds);
+      } else {
+        handleCardUnmatch(cardIds);
       }
-    }
-  }, [state.flippedCards, state.board, handleCardMatch, handleCardUnmatch]);
+    }, isMatch ? 1500 : 2000); // Allow time to see emojis before state change
+
+    return () => clearTimeout(timer);
+  }, [turnOutcome, state.gameStatus, state.flippedCards, handleCardMatch, handleCardUnmatch]);
 
   const canFlipCard = useCallback((cardId: number) => {
+    if (turnOutcome !== 'pending') return false;
     const card = state.board.find(c => c.id === cardId);
-    return canFlipCardUtil(card, state.flippedCards.length, state.gameStatus);
-  }, [state.gameStatus, state.flippedCards.length, state.board]);
+    return canFlipCardUtil(card, state.flippedCards.length, state.gameStatus, state.setSize);
+  }, [turnOutcome, state.gameStatus, state.flippedCards.length, state.board, state.setSize]);
 
   const getGameProgress = useCallback(() => {
-    const totalPairs = DIFFICULTY_CONFIGS[state.difficulty].pairs;
-    const matchedPairs = state.matchedPairs.length;
+    const totalSets = getTotalSets(state.difficulty, state.setSize);
+    const matchedSets = state.matchedPairs.length;
     return {
-      matchedPairs,
-      totalPairs,
-      percentage: totalPairs > 0 ? (matchedPairs / totalPairs) * 100 : 0
+      matchedSets,
+      totalSets,
+      percentage: totalSets > 0 ? (matchedSets / totalSets) * 100 : 0
     };
-  }, [state.matchedPairs.length, state.difficulty]);
+  }, [state.matchedPairs.length, state.difficulty, state.setSize]);
 
   return {
     // State
@@ -267,11 +159,15 @@ export function useGameState() {
     
     // Actions
     startGame,
+    endPreview,
     flipCard,
     pauseGame,
     resumeGame,
     resetGame,
+    restoreGame,
+    failGame,
     updateTime,
+    recordSplit,
     
     // Computed values
     canFlipCard,
@@ -281,6 +177,8 @@ export function useGameState() {
     isGameActive: state.gameStatus === 'playing',
     isGameCompleted: state.gameStatus === 'completed',
     isGamePaused: state.gameStatus === 'paused',
-    isCardFlippingInProgress: state.flippedCards.length === 2
+    isGamePreviewing: state.gameStatus === 'preview',
+    isGameFailed: state.gameStatus === 'failed',
+    isCardFlippingInProgress: turnOutcome !== 'pending'
   };
 }
\ No newline at end of file
@@ -1,42 +1,120 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { LocalStorageData, GameStats, Difficulty } from '../types/game';
-
-// Default values for local storage data
-const defaultGameStats: GameStats = {
-  totalGames: 0,
-  bestTimes: {
-    easy: Infinity,
-    medium: Infinity,
-    hard: Infinity,
-    expert: Infinity
-  },
-  bestMoves: {
-    easy: Infinity,
-    medium: Infinity,
-    hard: Infinity,
-    expert: Infinity
-  },
-  completionRate: 0,
-  averageTime: 0,
-  averageMoves: 0,
-  gamesWon: 0,
-  gamesLost: 0
-};
-
-const defaultLocalStorageData: LocalStorageData = {
-  gameStats: defaultGameStats,
-  highScores: [],
-  preferences: {
-    soundEnabled: true,
-    animationEnabled: true,
-    defaultDifficulty: 'easy',
-    defaultCategory: 'food'
-  }
-};
+import { createContext, useState, useEffect, useCallback, useContext, useMemo, useRef } from 'react';
+import {
+  LocalStorageData,
+  Difficulty,
+  DailyChallengeResult,
+  BoardPreset,
+  MemoryStats,
+  PersonalBests,
+  ScoringRules,
+  BestRun,
+  SetSize
+} from '../types/game';
+import { CUSTOM_BOARD_LIMITS, createCustomDifficulty, isValidBoardSize } from '../utils/difficulty';
+import { DEFAULT_SCORING_RULES } from '../utils/scoringRules';
+import { findBestRun, updateBestRuns } from '../utils/ghost';
+import {
+  QuarantinedData,
+  defaultGameStats,
+  defaultLocalStorageData,
+  parseStoredData,
+  serializeStoredData
+} from '../utils/storageSchema';
+import {
+  RestorePoint,
+  RestorePointReason,
+  addRestorePoint,
+  hasRestorePointOn,
+  parseRestorePoints
+} from '../utils/restorePoints';
+import { DEFAULT_PROFILE_ID, getProfileKey } from '../utils/profiles';
 
+// Each profile has its own copy of these keys
 const STORAGE_KEY = 'emoji-memory-game-data';
+const QUARANTINE_KEY = 'emoji-memory-game-data-quarantine';
+const QUARANTINE_LIMIT = 5;
+const RESTORE_POINTS_KEY = 'emoji-memory-game-restore-points';
+
+interface StorageKeys {
+  data: string;
+  quarantine: string;
+  restorePoints: string;
+}
+
+function getStorageKeys(profileId: string): StorageKeys {
+  return {
+    data: getProfileKey(STORAGE_KEY, profileId),
+    quarantine: getProfileKey(QUARANTINE_KEY, profileId),
+    restorePoints: getProfileKey(RESTORE_POINTS_KEY, profileId)
+  };
+}
+
+type HighScore = LocalStorageData['highScores'][number];
+
+// Entries saved before scoring rules existed were played under classic rules
+function getScoringRules(score: HighScore): ScoringRules {
+  return score.scoringRules ?? DEFAULT_SCORING_RULES;
+}
+
+// High scores in the same ranking category; entries saved before preview existed count as blind
+function isSameCategory(
+  score: HighScore,
+  difficulty: Difficulty,
+  preview: boolean,
+  scoringRules: ScoringRules = DEFAULT_SCORING_RULES
+): boolean {
+  return score.difficulty === difficulty &&
+    Boolean(score.preview) === preview &&
+    getScoringRules(score) === scoringRules;
+}
+
+// Only blind classic games keep their bests in gameStats; other categories rank from their high scores
+function hasSeparateRecords(preview: boolean, scoringRules: ScoringRules): boolean {
+  return preview || scoringRules !== DEFAULT_SCORING_RULES;
+}
+
+// Best time and moves among a category's high scores; Infinity when there are none yet
+function getCategoryBests(highScores: HighScore[], difficulty: Difficulty, preview: boolean, scoringRules: ScoringRules) {
+  const scores = highScores.filter(score => isSameCategory(score, difficulty, preview, scoringRules));
+  return {
+    bestTime: Math.min(...scores.map(score => score.time)),
+    bestMoves: Math.min(...scores.map(score => score.moves))
+  };
+}
+
+export const NO_PERSONAL_BESTS: PersonalBests = { time: false, moves: false, either: false };
+
+// Compare a run with the records in its ranking category; matching a record doesn't beat it
+function findPersonalBests(
+  data: LocalStorageData,
+  difficulty: Difficulty,
+  moves: number,
+  time: number,
+  preview: boolean,
+  scoringRules: ScoringRules
+): PersonalBests {
+  const { bestTime, bestMoves } = hasSeparateRecords(preview, scoringRules)
+    ? getCategoryBests(data.highScores, difficulty, preview, scoringRules)
+    : {
+        bestTime: data.gameStats.bestTimes[difficulty] ?? Infinity,
+        bestMoves: data.gameStats.bestMoves[difficulty] ?? Infinity
+      };
+  const isBestTime = time < bestTime;
+  const isBestMoves = moves < bestMoves;
+
+  return {
+    time: isBestTime,
+    moves: isBestMoves,
+    either: isBestTime || isBestMoves
+  };
+}
+
+// Highest score first; unscored games (all zero) fall back to fewest moves
+function compareHighScores(a: HighScore, b: HighScore): number {
+  return b.score - a.score || a.moves - b.moves;
+}
 
 function isClient(): boolean {
   return typeof window !== 'undefined';
@@ -76,112 +154,257 @@ function safeLocalStorageSetItem(key: string, value: string): boolean {
   }
 }
 
-export function useLocalStorage() {
+function safeLocalStorageRemoveItem(key: string): void {
+  if (!isClient()) return;
+
+  try {
+    localStorage.removeItem(key);
+  } catch (error) {
+    console.warn('Failed to remove from localStorage:', error);
+  }
+}
+
+// Move stored data that can't be loaded aside, so the next save doesn't overwrite it
+// The most recent QUARANTINE_LIMIT entries are kept
+function quarantineStoredData(keys: StorageKeys, raw: string, reason: string): void {
+  const quarantined = safeJsonParse<QuarantinedData[]>(safeLocalStorageGetItem(keys.quarantine), []);
+  const entries = [
+    ...(Array.isArray(quarantined) ? quarantined : []),
+    { quarantinedAt: new Date().toISOString(), reason, raw }
+  ].slice(-QUARANTINE_LIMIT);
+
+  if (safeLocalStorageSetItem(keys.quarantine, JSON.stringify(entries))) {
+    safeLocalStorageRemoveItem(keys.data);
+  }
+}
+
+// Snapshot the data as a restore point and return the updated list
+function saveRestorePoint(key: string, data: LocalStorageData, reason: RestorePointReason): RestorePoint[] {
+  const points = parseRestorePoints(safeLocalStorageGetItem(key));
+  const updated = addRestorePoint(points, data, reason);
+  if (updated !== points && !safeLocalStorageSetItem(key, JSON.stringify(updated))) {
+    console.warn('Failed to save a restore point to localStorage');
+  }
+  return updated;
+}
+
+// The data as saved right now, possibly by another tab; null when there is none or it can't be loaded
+function readStoredData(key: string): LocalStorageData | null {
+  const stored = safeLocalStorageGetItem(key);
+  const parsed = stored ? parseStoredData(stored) : null;
+  return parsed?.ok ? parsed.data : null;
+}
+
+/**
+ * A profile's saved data, for exporting a profile other than the one being played
+ */
+export function readProfileData(profileId: string): LocalStorageData | null {
+  return readStoredData(getStorageKeys(profileId).data);
+}
+
+/**
+ * Remove everything a deleted profile kept in localStorage
+ */
+export function removeProfileData(profileId: string): void {
+  Object.values(getStorageKeys(profileId)).forEach(safeLocalStorageRemoveItem);
+}
+
+/**
+ * The store behind GameDataProvider: stats, high scores and preferences for one profile
+ * Call it once per profile and share it through the provider; components read it with useLocalStorage
+ */
+export function useGameDataStore(profileId: string = DEFAULT_PROFILE_ID) {
+  const keys = useMemo(() => getStorageKeys(profileId), [profileId]);
   const [data, setData] = useState<LocalStorageData>(defaultLocalStorageData);
+  const [restorePoints, setRestorePoints] = useState<RestorePoint[]>([]);
   const [isLoaded, setIsLoaded] = useState(false);
+  // The latest data, for writes when localStorage can't be read
+  const dataRef = useRef<LocalStorageData>(defaultLocalStorageData);
+
+  const applyData = useCallback((newData: LocalStorageData) => {
+    dataRef.current = newData;
+    setData(newData);
+  }, []);
 
-  // Load data from localStorage on mount
+  // Load the profile's data on mount and whenever the profile changes
   useEffect(() => {
-    const stored = safeLocalStorageGetItem(STORAGE_KEY);
-    const parsedData = safeJsonParse(stored, defaultLocalStorageData);
+    const stored = safeLocalStorageGetItem(keys.data);
+    const parsed = stored ? parseStoredData(stored) : null;
     
-    // Merge with defaults to handle partial data or missing fields
-    const mergedData: LocalStorageData = {
-      gameStats: { ...defaultGameStats, ...parsedData.gameStats },
-      highScores: parsedData.highScores || [],
-      preferences: { ...defaultLocalStorageData.preferences, ...parsedData.preferences }
-    };
-    
-    setData(mergedData);
+    if (parsed?.ok) {
+      // Write older versions back in the current format
+      if (parsed.migrated && !safeLocalStorageSetItem(keys.data, serializeStoredData(parsed.data))) {
+        console.warn('Failed to save game data to localStorage');
+      }
+      applyData(parsed.data);
+    } else {
+      if (stored && parsed) {
+        console.warn(`Stored game data could not be loaded and was set aside: ${parsed.reason}`);
+        quarantineStoredData(keys, stored, parsed.reason);
+      }
+      applyData(defaultLocalStorageData);
+    }
+
+    // Take the first snapshot of the day
+    const points = parseRestorePoints(safeLocalStorageGetItem(keys.restorePoints));
+    setRestorePoints(parsed?.ok && !hasRestorePointOn(points) ? saveRestorePoint(keys.restorePoints, parsed.data, 'daily') : points);
     setIsLoaded(true);
-  }, []);
+  }, [keys, applyData]);
 
-  // Save data to localStorage whenever it changes
-  const saveData = useCallback((newData: LocalStorageData) => {
-    setData(newData);
-    const success = safeLocalStorageSetItem(STORAGE_KEY, JSON.stringify(newData));
-    if (!success) {
+  // Follow writes from other tabs; storage events only fire in the tabs that didn't write
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      // A null key means another tab cleared localStorage
+      if (event.key === keys.data || event.key === null) {
+        const parsed = event.newValue ? parseStoredData(event.newValue) : null;
+        if (!parsed) {
+          applyData(defaultLocalStorageData);
+        } else if (parsed.ok) {
+          applyData(parsed.data);
+        }
+      }
+      if (event.key === keys.restorePoints || event.key === null) {
+        setRestorePoints(parseRestorePoints(event.newValue));
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [keys, applyData]);
+
+  // Apply a change on top of the data as currently saved, then save it
+  // Reading first means another tab's results are built on rather than overwritten, and
+  // changes made in the same tick compose; update runs exactly once, so it may snapshot
+  const commit = useCallback((update: (current: LocalStorageData) => LocalStorageData) => {
+    const current = readStoredData(keys.data) ?? dataRef.current;
+    const newData = update(current);
+    if (newData !== current && !safeLocalStorageSetItem(keys.data, serializeStoredData(newData))) {
       console.warn('Failed to save game data to localStorage');
     }
-  }, []);
+    applyData(newData);
+  }, [keys, applyData]);
 
-  // Update game statistics
+  // Update game statistics, returning the personal bests the game set
   const updateGameStats = useCallback((
     difficulty: Difficulty,
     moves: number,
     time: number,
     won: boolean,
     score: number,
-    category: string
-  ) => {
-    const newData = { ...data };
-    const stats = newData.gameStats;
+    category: string,
+    preview: boolean = false,
+    scoringRules: ScoringRules = DEFAULT_SCORING_RULES,
+    longestStreak: number = 0,
+    memory?: MemoryStats
+  ): PersonalBests => {
+    let personalBests = NO_PERSONAL_BESTS;
+    commit(current => {
+      // A win is judged against the records from before it is added
+      if (won) {
+        personalBests = findPersonalBests(current, difficulty, moves, time, preview, scoringRules);
+      }
+
+      const stats = {
+        ...current.gameStats,
+        bestTimes: { ...current.gameStats.bestTimes },
+        bestMoves: { ...current.gameStats.bestMoves }
+      };
+      const newData = { ...current, gameStats: stats, highScores: [...current.highScores] };
     
-    // Update basic stats
-    stats.totalGames += 1;
-    if (won) {
-      stats.gamesWon += 1;
+      // Update basic stats
+      stats.totalGames += 1;
+      if (won) {
+        stats.gamesWon += 1;
       
-      // Update best times and moves only for won games
-      if (time < stats.bestTimes[difficulty]) {
-        stats.bestTimes[difficulty] = time;
-      }
-      if (moves < stats.bestMoves[difficulty]) {
-        stats.bestMoves[difficulty] = moves;
-      }
+        // Update best times and moves only for won blind classic games; other records come from high scores
+        const separateRecords = hasSeparateRecords(preview, scoringRules);
+        if (!separateRecords && time < (stats.bestTimes[difficulty] ?? Infinity)) {
+          stats.bestTimes[difficulty] = time;
+        }
+        if (!separateRecords && moves < (stats.bestMoves[difficulty] ?? Infinity)) {
+          stats.bestMoves[difficulty] = moves;
+        }
       
-      // Add to high scores
-      newData.highScores.push({
-        difficulty,
-        category,
-        moves,
-        time,
-        score,
-        date: new Date().toISOString()
-      });
+        // Add to high scores
+        newData.highScores.push({
+          difficulty,
+          category,
+          moves,
+          time,
+          score,
+          longestStreak,
+          ...(memory ? { memory } : {}),
+          date: new Date().toISOString(),
+          ...(preview ? { preview } : {}),
+          ...(scoringRules !== DEFAULT_SCORING_RULES ? { scoringRules } : {})
+        });
       
-      // Keep only top 10 scores per difficulty
-      newData.highScores = newData.highScores
-        .sort((a, b) => b.score - a.score)
-        .slice(0, 100); // Keep more scores for analysis
-    } else {
-      stats.gamesLost += 1;
-    }
+        // Keep only top 10 scores per difficulty
+        newData.highScores = newData.highScores
+          .sort(compareHighScores)
+          .slice(0, 100); // Keep more scores for analysis
+      } else {
+        stats.gamesLost += 1;
+      }
     
-    // Calculate completion rate
-    stats.completionRate = stats.totalGames > 0 ? (stats.gamesWon / stats.totalGames) * 100 : 0;
+      // Calculate completion rate
+      stats.completionRate = stats.totalGames > 0 ? (stats.gamesWon / stats.totalGames) * 100 : 0;
     
-    // Calculate averages (only for won games)
-    if (stats.gamesWon > 0) {
-      const wonGames = newData.highScores;
-      stats.averageTime = wonGames.reduce((sum, game) => sum + game.time, 0) / wonGames.length;
-      stats.averageMoves = wonGames.reduce((sum, game) => sum + game.moves, 0) / wonGames.length;
-    }
+      // Calculate averages (only for won games)
+      if (stats.gamesWon > 0) {
+        const wonGames = newData.highScores;
+        stats.averageTime = wonGames.reduce((sum, game) => sum + game.time, 0) / wonGames.length;
+        stats.averageMoves = wonGames.reduce((sum, game) => sum + game.moves, 0) / wonGames.length;
+      }
     
-    saveData(newData);
-  }, [data, saveData]);
+      return newData;
+    });
+    return personalBests;
+  }, [commit]);
 
   // Get high scores for a specific difficulty
-  const getHighScores = useCallback((difficulty?: Difficulty, limit: number = 10) => {
+  // Pass preview to rank memorize-phase or blind games on their own, and scoringRules to rank one rule set
+  const getHighScores = useCallback((
+    difficulty?: Difficulty,
+    limit: number = 10,
+    preview?: boolean,
+    scoringRules?: ScoringRules
+  ) => {
     let scores = data.highScores;
     
     if (difficulty) {
       scores = scores.filter(score => score.difficulty === difficulty);
     }
+    if (preview !== undefined) {
+      scores = scores.filter(score => Boolean(score.preview) === preview);
+    }
+    if (scoringRules !== undefined) {
+      scores = scores.filter(score => getScoringRules(score) === scoringRules);
+    }
     
-    return scores
-      .sort((a, b) => b.score - a.score)
+    return [...scores]
+      .sort(compareHighScores)
       .slice(0, limit);
   }, [data.highScores]);
 
   // Get statistics for a specific difficulty
-  const getDifficultyStats = useCallback((difficulty: Difficulty) => {
-    const difficultyScores = data.highScores.filter(score => score.difficulty === difficulty);
+  const getDifficultyStats = useCallback((
+    difficulty: Difficulty,
+    preview: boolean = false,
+    scoringRules: ScoringRules = DEFAULT_SCORING_RULES
+  ) => {
+    const difficultyScores = data.highScores.filter(score => isSameCategory(score, difficulty, preview, scoringRules));
+    const { bestTime, bestMoves } = hasSeparateRecords(preview, scoringRules)
+      ? getCategoryBests(data.highScores, difficulty, preview, scoringRules)
+      : {
+          bestTime: data.gameStats.bestTimes[difficulty] ?? Infinity,
+          bestMoves: data.gameStats.bestMoves[difficulty] ?? Infinity
+        };
     
     return {
       gamesPlayed: difficultyScores.length,
-      bestTime: data.gameStats.bestTimes[difficulty] === Infinity ? 0 : data.gameStats.bestTimes[difficulty],
-      bestMoves: data.gameStats.bestMoves[difficulty] === Infinity ? 0 : data.gameStats.bestMoves[difficulty],
+      bestTime: bestTime === Infinity ? 0 : bestTime,
+      bestMoves: bestMoves === Infinity ? 0 : bestMoves,
       averageTime: difficultyScores.length > 0 
         ? difficultyScores.reduce((sum, game) => sum + game.time, 0) / difficultyScores.length 
         : 0,
@@ -194,49 +417,106 @@ export function useLocalStorage() {
     };
   }, [data.gameStats.bestTimes, data.gameStats.bestMoves, data.highScores]);
 
-  // Update preferences
-  const updatePreferences = useCallback((updates: Partial<LocalStorageData['preferences']>) => {
-    const newData = {
-      ...data,
-      preferences: {
-        ...data.preferences,
-        ...updates
-      }
+  // Record (or overwrite) the result of a daily challenge
+  const recordDailyResult = useCallback((result: DailyChallengeResult) => commit(current => ({
+    ...current,
+    dailyHistory: [
+      ...current.dailyHistory.filter(entry => entry.date !== result.date),
+      result
+    ].sort((a, b) => a.date.localeCompare(b.date))
+  })), [commit]);
+
+  // Keep a completed run's splits if it is the fastest on its board, for ghost races
+  const recordBestRun = useCallback((run: Omit<BestRun, 'date'>) => commit(current => {
+    const bestRuns = updateBestRuns(current.bestRuns, { ...run, date: new Date().toISOString() });
+    return bestRuns === current.bestRuns ? current : { ...current, bestRuns };
+  }), [commit]);
+
+  // Get the best run to race on a board, if it has been completed before
+  const getBestRun = useCallback((difficulty: Difficulty, category: string, setSize: SetSize = 2) => {
+    return findBestRun(data.bestRuns, difficulty, category, setSize);
+  }, [data.bestRuns]);
+
+  // Get the daily challenge result for a calendar day
+  const getDailyResult = useCallback((date: string) => {
+    return data.dailyHistory.find(entry => entry.date === date);
+  }, [data.dailyHistory]);
+
+  // Save a named custom board preset and return it
+  // Names are trimmed and capped; invalid sizes are rejected with an error
+  const saveCustomPreset = useCallback((name: string, rows: number, cols: number): BoardPreset => {
+    if (!isValidBoardSize(rows, cols)) {
+      const { MIN_SIZE, MAX_SIZE } = CUSTOM_BOARD_LIMITS;
+      throw new Error(`Board size must be between ${MIN_SIZE}×${MIN_SIZE} and ${MAX_SIZE}×${MAX_SIZE}`);
+    }
+
+    const preset: BoardPreset = {
+      id: createCustomDifficulty(rows, cols),
+      name: name.trim().slice(0, CUSTOM_BOARD_LIMITS.MAX_NAME_LENGTH) || `Custom ${cols}×${rows}`,
+      rows,
+      cols,
+      createdAt: new Date().toISOString()
     };
-    saveData(newData);
-  }, [data, saveData]);
-
-  // Clear all data
-  const clearAllData = useCallback(() => {
-    saveData(defaultLocalStorageData);
-  }, [saveData]);
-
-  // Clear only statistics
-  const clearStats = useCallback(() => {
-    const newData = {
-      ...data,
+
+    commit(current => ({
+      ...current,
+      customPresets: [...current.customPresets, preset]
+    }));
+
+    return preset;
+  }, [commit]);
+
+  // Delete a custom preset; its stats and high scores are kept
+  const deleteCustomPreset = useCallback((id: BoardPreset['id']) => commit(current => ({
+    ...current,
+    customPresets: current.customPresets.filter(preset => preset.id !== id)
+  })), [commit]);
+
+  // Update preferences
+  const updatePreferences = useCallback((updates: Partial<LocalStorageData['preferences']>) => commit(current => ({
+    ...current,
+    preferences: {
+      ...current.preferences,
+      ...updates
+    }
+  })), [commit]);
+
+  // Clear all data; a restore point is taken first
+  const clearAllData = useCallback(() => commit(current => {
+    setRestorePoints(saveRestorePoint(keys.restorePoints, current, 'clearAllData'));
+    return defaultLocalStorageData;
+  }), [commit, keys]);
+
+  // Clear only statistics; a restore point is taken first
+  const clearStats = useCallback(() => commit(current => {
+    setRestorePoints(saveRestorePoint(keys.restorePoints, current, 'clearStats'));
+    return {
+      ...current,
       gameStats: defaultGameStats,
-      highScores: []
+      highScores: [],
+      dailyHistory: [],
+      bestRuns: []
     };
-    saveData(newData);
-  }, [data, saveData]);
+  }), [commit, keys]);
 
   // Export data as JSON
   const exportData = useCallback(() => {
-    return JSON.stringify(data, null, 2);
+    return serializeStoredData(data, 2);
   }, [data]);
 
-  // Import data from JSON
+  // Import data from JSON, taking a restore point of the current data first
   const importData = useCallback((jsonData: string) => {
     try {
-      const importedData = JSON.parse(jsonData) as LocalStorageData;
-      
-      // Validate the imported data structure
-      if (!importedData.gameStats || !importedData.highScores || !importedData.preferences) {
-        throw new Error('Invalid data structure');
+      // Imports go through the same migrations and validation as stored data
+      const imported = parseStoredData(jsonData);
+      if (!imported.ok) {
+        throw new Error(imported.reason);
       }
       
-      saveData(importedData);
+      commit(current => {
+        setRestorePoints(saveRestorePoint(keys.restorePoints, current, 'import'));
+        return imported.data;
+      });
       return { success: true, message: 'Data imported successfully' };
     } catch (error) {
       return { 
@@ -244,40 +524,67 @@ export function useLocalStorage() {
         message: `Failed to import data: ${error instanceof Error ? error.message : 'Unknown error'}` 
       };
     }
-  }, [saveData]);
+  }, [commit, keys]);
 
-  // Check if personal best was achieved
-  const isPersonalBest = useCallback((difficulty: Difficulty, moves: number, time: number) => {
-    const stats = data.gameStats;
-    const isBestTime = time < stats.bestTimes[difficulty];
-    const isBestMoves = moves < stats.bestMoves[difficulty];
-    
-    return {
-      time: isBestTime,
-      moves: isBestMoves,
-      either: isBestTime || isBestMoves
-    };
-  }, [data.gameStats]);
+  // Replace the data with a restore point; the current data is snapshotted first so this can be undone
+  const restoreFromPoint = useCallback((createdAt: string) => {
+    const point = restorePoints.find(entry => entry.createdAt === createdAt);
+    if (!point) {
+      return { success: false, message: 'Restore point not found' };
+    }
+
+    const restored = parseStoredData(point.data);
+    if (!restored.ok) {
+      return { success: false, message: `Failed to restore data: ${restored.reason}` };
+    }
+
+    commit(current => {
+      setRestorePoints(saveRestorePoint(keys.restorePoints, current, 'restore'));
+      return restored.data;
+    });
+    return { success: true, message: 'Data restored successfully' };
+  }, [commit, keys, restorePoints]);
+
+  // Check whether a run would beat the saved records; a game that has already been saved can't beat itself,
+  // so use the flags updateGameStats returns for the game just finished
+  const isPersonalBest = useCallback((
+    difficulty: Difficulty,
+    moves: number,
+    time: number,
+    preview: boolean = false,
+    scoringRules: ScoringRules = DEFAULT_SCORING_RULES
+  ) => findPersonalBests(data, difficulty, moves, time, preview, scoringRules), [data]);
 
   return {
     // Data
     data,
     gameStats: data.gameStats,
     highScores: data.highScores,
+    dailyHistory: data.dailyHistory,
+    customPresets: data.customPresets,
+    bestRuns: data.bestRuns,
     preferences: data.preferences,
+    restorePoints,
     
     // State
     isLoaded,
     
     // Actions
     updateGameStats,
+    recordDailyResult,
+    recordBestRun,
+    saveCustomPreset,
+    deleteCustomPreset,
     updatePreferences,
     clearAllData,
     clearStats,
+    restoreFromPoint,
     
     // Utilities
     getHighScores,
     getDifficultyStats,
+    getDailyResult,
+    getBestRun,
     isPersonalBest,
     exportData,
     importData,
@@ -295,4 +602,20 @@ export function useLocalStorage() {
     // Storage status
     isStorageAvailable: isClient()
   };
-}
\ No newline at end of file
+}
+
+export type GameDataStore = ReturnType<typeof useGameDataStore>;
+
+export const GameDataContext = createContext<GameDataStore | null>(null);
+
+/**
+ * The shared game data store from the nearest GameDataProvider
+ * Every component sees the same data, so a result saved by one is immediately visible to the others
+ */
+export function useLocalStorage(): GameDataStore {
+  const store = useContext(GameDataContext);
+  if (!store) {
+    throw new Error('useLocalStorage must be used inside a GameDataProvider');
+  }
+  return store;
+}
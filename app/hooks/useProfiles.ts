@@ -0,0 +1,125 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { PlayerProfile } from '../types/game';
+import {
+  ProfileRegistry,
+  addProfile,
+  createDefaultRegistry,
+  parseProfileRegistry,
+  removeProfile,
+  setActiveProfile,
+  updateProfile
+} from '../utils/profiles';
+import { serializeStoredData } from '../utils/storageSchema';
+import { readProfileData, removeProfileData } from './useLocalStorage';
+import { removeSavedGame } from './useSavedGame';
+import { createGameHistoryStore } from '../utils/gameHistoryStore';
+
+const PROFILES_KEY = 'emoji-memory-game-profiles';
+
+// The registry as saved right now, possibly by another tab; null when there is none or it can't be read
+function readStoredRegistry(): ProfileRegistry | null {
+  try {
+    return parseProfileRegistry(localStorage.getItem(PROFILES_KEY));
+  } catch (error) {
+    console.warn('Failed to read profiles:', error);
+    return null;
+  }
+}
+
+export function useProfiles() {
+  const [registry, setRegistry] = useState<ProfileRegistry>(() => createDefaultRegistry());
+  const [isLoaded, setIsLoaded] = useState(false);
+  // The latest registry, for writes when localStorage can't be read
+  const registryRef = useRef<ProfileRegistry>(registry);
+
+  const applyRegistry = useCallback((next: ProfileRegistry) => {
+    registryRef.current = next;
+    setRegistry(next);
+  }, []);
+
+  const saveRegistry = useCallback((next: ProfileRegistry) => {
+    applyRegistry(next);
+    try {
+      localStorage.setItem(PROFILES_KEY, JSON.stringify(next));
+    } catch (error) {
+      console.warn('Failed to save profiles:', error);
+    }
+  }, [applyRegistry]);
+
+  // Load on mount; the first visit after profiles existed turns the device's data into the first profile
+  useEffect(() => {
+    const stored = readStoredRegistry();
+    if (stored) {
+      applyRegistry(stored);
+    } else {
+      saveRegistry(createDefaultRegistry());
+    }
+    setIsLoaded(true);
+  }, [applyRegistry, saveRegistry]);
+
+  // Follow profiles other tabs add, edit or delete, staying on this tab's profile while it exists
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      // A null key means another tab cleared localStorage
+      if (event.key !== PROFILES_KEY && event.key !== null) return;
+
+      const stored = event.newValue ? parseProfileRegistry(event.newValue) : createDefaultRegistry();
+      if (stored) {
+        applyRegistry(setActiveProfile(stored, registryRef.current.activeId));
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [applyRegistry]);
+
+  // Apply a change on top of the registry as currently saved, from this tab's profile, then save it
+  // Reading first keeps profiles other tabs have added; update throws before anything is saved
+  const commit = useCallback((update: (current: ProfileRegistry) => ProfileRegistry) => {
+    const current = setActiveProfile(readStoredRegistry() ?? registryRef.current, registryRef.current.activeId);
+    saveRegistry(update(current));
+  }, [saveRegistry]);
+
+  // Create a profile and switch to it; throws on an empty name or when the device is full
+  const createProfile = useCallback((name: string, avatar: string) => {
+    commit(current => addProfile(current, name, avatar));
+  }, [commit]);
+
+  // Rename a profile or change its avatar; throws on an empty name
+  const editProfile = useCallback((id: string, updates: Partial<Pick<PlayerProfile, 'name' | 'avatar'>>) => {
+    commit(current => updateProfile(current, id, updates));
+  }, [commit]);
+
+  // Delete a profile with its stats, restore points, unfinished game and game history; throws for the last profile
+  const deleteProfile = useCallback((id: string) => {
+    commit(current => removeProfile(current, id));
+    removeProfileData(id);
+    removeSavedGame(id);
+    createGameHistoryStore()?.deleteProfileGames(id).catch(error => {
+      console.warn('Failed to delete profile game history:', error);
+    });
+  }, [commit]);
+
+  const switchProfile = useCallback((id: string) => {
+    commit(current => setActiveProfile(current, id));
+  }, [commit]);
+
+  // A profile's stats in the same format as a full data export; null if it has none saved yet
+  const exportProfile = useCallback((id: string) => {
+    const data = readProfileData(id);
+    return data ? serializeStoredData(data, 2) : null;
+  }, []);
+
+  return {
+    profiles: registry.profiles,
+    activeProfile: registry.profiles.find(profile => profile.id === registry.activeId) ?? registry.profiles[0],
+    isLoaded,
+    createProfile,
+    editProfile,
+    deleteProfile,
+    switchProfile,
+    exportProfile
+  };
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { GameState } from '../types/game';
+import { SavedGame, createSavedGame, parseSavedGame } from '../utils/savedGame';
+import { DEFAULT_PROFILE_ID, getProfileKey } from '../utils/profiles';
+
+// Kept apart from the stats blob so saving every turn never rewrites the player's records
+// Each profile has its own unfinished game
+const SAVED_GAME_KEY = 'emoji-memory-game-saved';
+
+/**
+ * Remove a deleted profile's unfinished game
+ */
+export function removeSavedGame(profileId: string): void {
+  try {
+    localStorage.removeItem(getProfileKey(SAVED_GAME_KEY, profileId));
+  } catch (error) {
+    console.warn('Failed to clear saved game:', error);
+  }
+}
+
+export function useSavedGame(profileId: string = DEFAULT_PROFILE_ID) {
+  const key = getProfileKey(SAVED_GAME_KEY, profileId);
+  // The game that was unfinished when the page loaded, until it is resumed or discarded
+  const [savedGame, setSavedGame] = useState<SavedGame | null>(null);
+
+  // Load on mount and when the profile changes; localStorage is only available on the client
+  useEffect(() => {
+    try {
+      setSavedGame(parseSavedGame(localStorage.getItem(key)));
+    } catch (error) {
+      console.warn('Failed to read saved game:', error);
+    }
+  }, [key]);
+
+  const saveGame = useCallback((state: GameState) => {
+    try {
+      localStorage.setItem(key, JSON.stringify(createSavedGame(state)));
+    } catch (error) {
+      console.warn('Failed to save game:', error);
+    }
+  }, [key]);
+
+  const clearSavedGame = useCallback(() => {
+    setSavedGame(null);
+    try {
+      localStorage.removeItem(key);
+    } catch (error) {
+      console.warn('Failed to clear saved game:', error);
+    }
+  }, [key]);
+
+  return {
+    savedGame,
+    saveGame,
+    clearSavedGame
+  };
+}
@@ -3,23 +3,65 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
 import { TimerState } from '../types/game';
 
-export function useTimer() {
+/**
+ * A millisecond clock for the timer to read; it must never run backwards
+ * Injected in tests so time can be moved by hand
+ */
+export type TimerClock = () => number;
+
+// performance.now() is monotonic, so system clock changes can't stretch or shrink a run
+const monotonicClock: TimerClock = () =>
+  typeof performance !== 'undefined' ? performance.now() : Date.now();
+
+// Display refresh rate; the elapsed time itself is always read from the clock
+const TICK_MS = 100;
+
+interface UseTimerOptions {
+  timeLimit?: number | null; // Countdown budget in seconds; null for an open-ended stopwatch
+  clock?: TimerClock;
+}
+
+export function useTimer({ timeLimit = null, clock = monotonicClock }: UseTimerOptions = {}) {
   const [timerState, setTimerState] = useState<TimerState>({
-    timeElapsed: 0,
+    elapsedMs: 0,
     isRunning: false,
     isPaused: false
   });
 
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
-  const startTimeRef = useRef<number>(0);
-  const pausedTimeRef = useRef<number>(0);
+  const bankedMsRef = useRef<number>(0); // Time from earlier runs, before the last pause
+  const runStartRef = useRef<number | null>(null); // Clock reading when the current run began
+  const timeLimitRef = useRef<number | null>(timeLimit);
+  const clockRef = useRef<TimerClock>(clock);
+
+  useEffect(() => {
+    timeLimitRef.current = timeLimit;
+  }, [timeLimit]);
+
+  useEffect(() => {
+    clockRef.current = clock;
+  }, [clock]);
+
+  const clearTick = useCallback(() => {
+    if (intervalRef.current) {
+      clearInterval(intervalRef.current);
+      intervalRef.current = null;
+    }
+  }, []);
+
+  // Exact elapsed time right now, held at the time limit once it runs out
+  const getElapsedMs = useCallback((): number => {
+    const running = runStartRef.current === null ? 0 : clockRef.current() - runStartRef.current;
+    const elapsed = bankedMsRef.current + running;
+    const limit = timeLimitRef.current;
+    return limit !== null ? Math.min(elapsed, limit * 1000) : elapsed;
+  }, []);
 
   const start = useCallback(() => {
     if (timerState.isRunning && !timerState.isPaused) return;
 
     if (timerState.isPaused) {
       // Resume from pause
-      startTimeRef.current = Date.now() - pausedTimeRef.current;
       setTimerState(prev => ({
         ...prev,
         isRunning: true,
@@ -27,40 +69,47 @@ export function useTimer() {
       }));
     } else {
       // Start fresh
-      startTimeRef.current = Date.now();
+      bankedMsRef.current = 0;
       setTimerState({
-        timeElapsed: 0,
+        elapsedMs: 0,
         isRunning: true,
         isPaused: false
       });
     }
+    runStartRef.current = clockRef.current();
 
+    clearTick();
     intervalRef.current = setInterval(() => {
-      const currentTime = Date.now();
-      const elapsed = Math.floor((currentTime - startTimeRef.current) / 1000);
-      
+      const elapsed = getElapsedMs();
+
+      // Stop ticking once a countdown runs out
+      const limit = timeLimitRef.current;
+      if (limit !== null && elapsed >= limit * 1000) {
+        clearTick();
+      }
+
       setTimerState(prev => ({
         ...prev,
-        timeElapsed: elapsed
+        elapsedMs: elapsed
       }));
-    }, 1000);
-  }, [timerState.isRunning, timerState.isPaused]);
+    }, TICK_MS);
+  }, [timerState.isRunning, timerState.isPaused, getElapsedMs, clearTick]);
 
   const pause = useCallback(() => {
     if (!timerState.isRunning || timerState.isPaused) return;
 
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
-    }
+    clearTick();
+
+    // Bank the exact time so far; nothing is rounded away
+    bankedMsRef.current = getElapsedMs();
+    runStartRef.current = null;
 
-    pausedTimeRef.current = timerState.timeElapsed * 1000; // Store in milliseconds
-    
     setTimerState(prev => ({
       ...prev,
+      elapsedMs: bankedMsRef.current,
       isPaused: true
     }));
-  }, [timerState.isRunning, timerState.isPaused, timerState.timeElapsed]);
+  }, [timerState.isRunning, timerState.isPaused, getElapsedMs, clearTick]);
 
   const resume = useCallback(() => {
     if (!timerState.isPaused) return;
@@ -69,25 +118,35 @@ export function useTimer() {
   }, [timerState.isPaused, start]);
 
   const stop = useCallback(() => {
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
-    }
+    clearTick();
 
     setTimerState({
-      timeElapsed: 0,
+      elapsedMs: 0,
       isRunning: false,
       isPaused: false
     });
 
-    startTimeRef.current = 0;
-    pausedTimeRef.current = 0;
-  }, []);
+    bankedMsRef.current = 0;
+    runStartRef.current = null;
+  }, [clearTick]);
 
   const reset = useCallback(() => {
     stop();
   }, [stop]);
 
+  // Pick up a saved clock, paused, so the next start carries on from it
+  const restore = useCallback((elapsedMs: number) => {
+    clearTick();
+
+    bankedMsRef.current = elapsedMs;
+    runStartRef.current = null;
+    setTimerState({
+      elapsedMs,
+      isRunning: true,
+      isPaused: true
+    });
+  }, [clearTick]);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -97,30 +156,32 @@ export function useTimer() {
     };
   }, []);
 
+  const timeElapsed = Math.floor(timerState.elapsedMs / 1000);
+
   // Format time as MM:SS
-  const formatTime = useCallback((seconds: number = timerState.timeElapsed): string => {
+  const formatTime = useCallback((seconds: number = timeElapsed): string => {
     const minutes = Math.floor(seconds / 60);
     const remainingSeconds = seconds % 60;
     return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
-  }, [timerState.timeElapsed]);
+  }, [timeElapsed]);
 
   // Get time in different formats
   const getTimeInMilliseconds = useCallback((): number => {
-    return timerState.timeElapsed * 1000;
-  }, [timerState.timeElapsed]);
+    return timerState.elapsedMs;
+  }, [timerState.elapsedMs]);
 
   const getTimeInMinutes = useCallback((): number => {
-    return Math.floor(timerState.timeElapsed / 60);
-  }, [timerState.timeElapsed]);
+    return Math.floor(timeElapsed / 60);
+  }, [timeElapsed]);
 
   const getTimeBreakdown = useCallback(() => {
-    const totalSeconds = timerState.timeElapsed;
+    const totalSeconds = timeElapsed;
     const hours = Math.floor(totalSeconds / 3600);
     const minutes = Math.floor((totalSeconds % 3600) / 60);
     const seconds = totalSeconds % 60;
     
     return { hours, minutes, seconds, total: totalSeconds };
-  }, [timerState.timeElapsed]);
+  }, [timeElapsed]);
 
   // Toggle between play and pause
   const toggle = useCallback(() => {
@@ -131,9 +192,14 @@ export function useTimer() {
     }
   }, [timerState.isRunning, timerState.isPaused, pause, start]);
 
+  // Fractional seconds, so a countdown can be shown to the tenth
+  const timeRemaining = timeLimit !== null ? Math.max(0, timeLimit - timerState.elapsedMs / 1000) : null;
+
   return {
     // State
-    timeElapsed: timerState.timeElapsed,
+    timeElapsed,
+    elapsedMs: timerState.elapsedMs,
+    timeRemaining,
     isRunning: timerState.isRunning,
     isPaused: timerState.isPaused,
     
@@ -143,9 +209,11 @@ export function useTimer() {
     resume,
     stop,
     reset,
+    restore,
     toggle,
     
     // Utilities
+    getElapsedMs,
     formatTime,
     getTimeInMilliseconds,
     getTimeInMinutes,
@@ -156,9 +224,10 @@ export function useTimer() {
     formattedTime: formatTime(),
     
     // Status checks
-    hasStarted: timerState.timeElapsed > 0 || timerState.isRunning,
+    hasStarted: timerState.elapsedMs > 0 || timerState.isRunning,
     canStart: !timerState.isRunning || timerState.isPaused,
     canPause: timerState.isRunning && !timerState.isPaused,
-    canResume: timerState.isPaused
+    canResume: timerState.isPaused,
+    isTimeUp: timeRemaining === 0
   };
 }
\ No newline at end of file
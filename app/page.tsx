@@ -4,8 +4,11 @@ import { Suspense } from 'react';
 import GameBoard from './components/GameBoard';
 import ErrorBoundary from './components/ErrorBoundary';
 import LoadingSpinner from './components/LoadingSpinner';
+import ProfileSwitcher from './components/ProfileSwitcher';
+import GameDataProvider from './components/GameDataProvider';
+import { useProfiles } from './hooks/useProfiles';
 
-function GameBoardWrapper() {
+function GameBoardWrapper({ profileId }: { profileId: string }) {
   return (
     <ErrorBoundary
       fallback={
@@ -26,16 +29,50 @@ function GameBoardWrapper() {
         </div>
       }
     >
-      <GameBoard />
+      <GameDataProvider profileId={profileId}>
+        <GameBoard profileId={profileId} />
+      </GameDataProvider>
     </ErrorBoundary>
   );
 }
 
 export default function Home() {
+  const {
+    profiles,
+    activeProfile,
+    isLoaded,
+    createProfile,
+    editProfile,
+    deleteProfile,
+    switchProfile,
+    exportProfile
+  } = useProfiles();
+
+  const loadingSpinner = (
+    <div className="w-full max-w-6xl mx-auto">
+      <LoadingSpinner 
+        size="large" 
+        message="Loading game..." 
+        className="py-12"
+      />
+    </div>
+  );
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-50 to-blue-50 dark:from-purple-900 dark:to-blue-900">
       <div className="container mx-auto px-4 py-8">
         <header className="text-center mb-8">
+          <div className="flex justify-end mb-4">
+            <ProfileSwitcher
+              profiles={profiles}
+              activeProfile={activeProfile}
+              onSwitch={switchProfile}
+              onCreate={createProfile}
+              onEdit={editProfile}
+              onDelete={deleteProfile}
+              onExport={exportProfile}
+            />
+          </div>
           <h1 className="text-4xl md:text-6xl font-bold text-gray-800 dark:text-white mb-4 animate-fade-in">
             🧠 <a href='https://github.com/shaialon' target="_blank">Shai&apos;s</a> Emoji Memory Game
           </h1>
@@ -52,18 +89,13 @@ export default function Home() {
         </header>
 
         <main className="flex justify-center">
-          <Suspense 
-            fallback={
-              <div className="w-full max-w-6xl mx-auto">
-                <LoadingSpinner 
-                  size="large" 
-                  message="Loading game..." 
-                  className="py-12"
-                />
-              </div>
-            }
-          >
-            <GameBoardWrapper />
+          <Suspense fallback={loadingSpinner}>
+            {/* Remounting per profile starts each player's board from their own saved data */}
+            {isLoaded ? (
+              <GameBoardWrapper key={activeProfile.id} profileId={activeProfile.id} />
+            ) : (
+              loadingSpinner
+            )}
           </Suspense>
         </main>
 
@@ -1,5 +1,10 @@
-export type Difficulty = 'easy' | 'medium' | 'hard' | 'expert';
-export type GameStatus = 'setup' | 'playing' | 'paused' | 'completed';
+export type BuiltInDifficulty = 'easy' | 'medium' | 'hard' | 'expert';
+// Custom presets carry their grid size in the id, so a board can be rebuilt from the id alone
+export type CustomDifficulty = `custom:${number}x${number}:${string}`;
+export type Difficulty = BuiltInDifficulty | CustomDifficulty;
+export type GameStatus = 'setup' | 'preview' | 'playing' | 'paused' | 'completed' | 'failed';
+export type FailureReason = 'timeout' | 'lives';
+export type SetSize = 2 | 3 | 4;
 
 export interface Card {
   id: number;
@@ -7,6 +12,30 @@ export interface Card {
   isFlipped: boolean;
   isMatched: boolean;
   pairId: number;
+  isBlank?: boolean; // Filler for cells left over when the grid doesn't divide into whole sets
+}
+
+export type PlayerColor = 'blue' | 'red' | 'green' | 'amber';
+// How well a computer player remembers revealed cards
+export type BotStrength = 'forgetful' | 'limited' | 'perfect';
+
+// Which scoring rule set a game is played under; see app/utils/scoringRules.ts
+export type ScoringRules = 'classic' | 'timeAttack' | 'accuracy' | 'zen';
+
+// How a resolved turn went: matches are remembered or lucky, mismatches exploring or a memory error
+export type TurnKind = 'remembered' | 'lucky' | 'exploring' | 'memoryError';
+// Number of turns of each kind in a game
+export type MemoryStats = Record<TurnKind, number>;
+
+export interface PlayerSetup {
+  name: string;
+  color: PlayerColor;
+  bot?: BotStrength; // Set for computer-controlled players
+}
+
+export interface Player extends PlayerSetup {
+  matches: number;
+  score: number;
 }
 
 export interface EmojiCategory {
@@ -21,17 +50,33 @@ export interface GameState {
   flippedCards: number[];
   matchedPairs: number[];
   moves: number;
-  timeElapsed: number;
+  timeElapsed: number; // Whole seconds on the game clock
+  timeElapsedMs: number; // Exact game-clock time, as of the last clock update or split
+  splits: number[]; // Game-clock milliseconds at each match, in order
   gameStatus: GameStatus;
   difficulty: Difficulty;
   category: EmojiCategory;
+  setSize: SetSize;
   score: number;
+  seed: number | null;
+  dailyDate: string | null;
+  timeLimit: number | null;
+  livesRemaining: number | null;
+  maxLives: number | null;
+  failureReason: FailureReason | null;
+  previewDuration: number | null; // Seconds the board was shown face-up before play; null for blind games
+  players: Player[]; // Hot-seat players in turn order; empty for a solo game
+  currentPlayerIndex: number;
+  scoringRules: ScoringRules;
+  currentStreak: number; // Matches in a row since the last mismatch
+  longestStreak: number;
+  history: GameEvent[];
 }
 
 export interface GameStats {
   totalGames: number;
-  bestTimes: Record<Difficulty, number>;
-  bestMoves: Record<Difficulty, number>;
+  bestTimes: Partial<Record<Difficulty, number>>;
+  bestMoves: Partial<Record<Difficulty, number>>;
   completionRate: number;
   averageTime: number;
   averageMoves: number;
@@ -39,23 +84,74 @@ export interface GameStats {
   gamesLost: number;
 }
 
+// Which records a finished game beat, judged against the records from before it was saved
+export interface PersonalBests {
+  time: boolean;
+  moves: boolean;
+  either: boolean;
+}
+
 export interface GameAction {
-  type: 'FLIP_CARD' | 'MATCH_CARDS' | 'UNMATCH_CARDS' | 'RESET_GAME' | 'START_GAME' | 'PAUSE_GAME' | 'RESUME_GAME' | 'COMPLETE_GAME' | 'UPDATE_TIME';
+  type: 'FLIP_CARD' | 'MATCH_CARDS' | 'UNMATCH_CARDS' | 'RESET_GAME' | 'START_GAME' | 'PAUSE_GAME' | 'RESUME_GAME' | 'COMPLETE_GAME' | 'FAIL_GAME' | 'UPDATE_TIME' | 'END_PREVIEW' | 'RESTORE_GAME' | 'RECORD_SPLIT';
   payload?: {
     cardId?: number;
     cardIds?: number[];
     difficulty?: Difficulty;
     category?: EmojiCategory;
+    setSize?: SetSize;
     timeElapsed?: number;
+    timeElapsedMs?: number;
+    seed?: number;
+    dailyDate?: string;
+    board?: Card[];
+    timeLimit?: number;
+    lives?: number;
+    preview?: number;
+    players?: PlayerSetup[];
+    scoringRules?: ScoringRules;
+    reason?: FailureReason;
+    snapshot?: GameState; // RESTORE_GAME: a saved game to pick back up
   };
+  timestamp?: number;
+}
+
+/**
+ * A recorded game action, used for replays and post-game analysis
+ */
+export interface GameEvent {
+  type: GameAction['type'];
+  payload?: GameAction['payload'];
+  timestamp: number;
+}
+
+export interface StartGameOptions {
+  seed?: number;
+  dailyDate?: string;
+  timeLimited?: boolean;
+  limitedLives?: boolean;
+  setSize?: SetSize;
+  previewSeconds?: number;
+  players?: PlayerSetup[];
+  scoringRules?: ScoringRules;
 }
 
 export interface TimerState {
-  timeElapsed: number;
+  elapsedMs: number;
   isRunning: boolean;
   isPaused: boolean;
 }
 
+export interface DailyChallengeResult {
+  date: string;
+  difficulty: Difficulty;
+  category: string;
+  seed: number;
+  completed: boolean;
+  moves: number;
+  time: number;
+  score: number;
+}
+
 export interface LocalStorageData {
   gameStats: GameStats;
   highScores: Array<{
@@ -65,24 +161,94 @@ export interface LocalStorageData {
     time: number;
     score: number;
     date: string;
+    preview?: boolean; // Memorize-phase games are ranked separately from blind games
+    scoringRules?: ScoringRules; // Only games under the same rules are compared; absent means classic
+    longestStreak?: number; // Missing on scores saved before streaks were tracked
+    memory?: MemoryStats; // Missing on scores saved before memory analysis
   }>;
+  dailyHistory: DailyChallengeResult[];
+  customPresets: BoardPreset[];
+  bestRuns: BestRun[];
   preferences: {
     soundEnabled: boolean;
     animationEnabled: boolean;
     defaultDifficulty: Difficulty;
     defaultCategory: string;
+    previewSeconds: Partial<Record<Difficulty, number>>; // Memorize-phase length overrides
+    autoPause: boolean; // Pause when the tab is hidden or the window loses focus
+    concealOnPause: boolean; // Hide every card face while paused
   };
 }
 
+// Fastest blind solo run on a board, kept with its splits so later games can race it
+export interface BestRun {
+  difficulty: Difficulty;
+  category: string;
+  setSize: SetSize;
+  time: number; // Seconds, to the millisecond
+  splits: number[]; // Game-clock milliseconds at each match
+  date: string;
+}
+
+// A named player sharing the device; each has their own stats, high scores and preferences
+export interface PlayerProfile {
+  id: string;
+  name: string;
+  avatar: string; // A single emoji
+  createdAt: string;
+}
+
+export type GameOutcome = 'won' | 'lost' | 'abandoned';
+
+// One game in the long-term history, kept in IndexedDB with no cap
+export interface GameRecord {
+  id?: number; // Assigned by the history store
+  profileId?: string; // Absent on games from before profiles, which belong to the first profile
+  outcome: GameOutcome;
+  difficulty: Difficulty;
+  category: string;
+  setSize: SetSize;
+  moves: number;
+  time: number; // Seconds, to the millisecond
+  score: number;
+  scoringRules: ScoringRules;
+  seed: number | null; // Null for games migrated from high scores, which didn't keep it
+  preview: boolean;
+  players: number; // Hot-seat seats; 0 for solo games
+  dailyDate?: string;
+  startedAt: string;
+  endedAt: string;
+}
+
+export interface BoardPreset {
+  id: CustomDifficulty;
+  name: string;
+  rows: number;
+  cols: number;
+  createdAt: string;
+}
+
 export interface DifficultyConfig {
   rows: number;
   cols: number;
   pairs: number;
+  timeLimit: number; // Countdown budget in seconds for time-limited games
+  lives: number; // Mismatches allowed in limited-lives games
+  previewSeconds: number; // Default memorize-phase length
 }
 
-export const DIFFICULTY_CONFIGS: Record<Difficulty, DifficultyConfig> = {
-  easy: { rows: 4, cols: 4, pairs: 8 },
-  medium: { rows: 4, cols: 6, pairs: 12 },
-  hard: { rows: 6, cols: 6, pairs: 18 },
-  expert: { rows: 6, cols: 8, pairs: 24 }
-};
\ No newline at end of file
+export const DIFFICULTY_CONFIGS: Record<BuiltInDifficulty, DifficultyConfig> = {
+  easy: { rows: 4, cols: 4, pairs: 8, timeLimit: 90, lives: 6, previewSeconds: 3 },
+  medium: { rows: 4, cols: 6, pairs: 12, timeLimit: 150, lives: 9, previewSeconds: 5 },
+  hard: { rows: 6, cols: 6, pairs: 18, timeLimit: 240, lives: 14, previewSeconds: 8 },
+  expert: { rows: 6, cols: 8, pairs: 24, timeLimit: 360, lives: 18, previewSeconds: 12 }
+};
+
+export const SET_SIZES: SetSize[] = [2, 3, 4];
+
+// What a matching set of each size is called in the UI, e.g. "3/8 pairs"
+export const SET_SIZE_NAMES: Record<SetSize, { singular: string; plural: string }> = {
+  2: { singular: 'pair', plural: 'pairs' },
+  3: { singular: 'triple', plural: 'triples' },
+  4: { singular: 'quad', plural: 'quads' }
+};
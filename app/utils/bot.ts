@@ -0,0 +1,167 @@
+import { BotStrength, Card, SetSize } from '../types/game';
+import { RandomSource } from './random';
+
+/**
+ * Computer opponent for turn-based games.
+ * The bot only learns a card's emoji while that card is face-up on the board,
+ * exactly as a human watching the table would; it never reads pairId.
+ */
+
+export interface BotStrengthConfig {
+  label: string;
+  description: string;
+  memoryWindow: number | null; // Most recently seen cards kept; null for no limit
+  forgetChance: number; // Chance of forgetting each remembered card after every turn
+}
+
+export const BOT_STRENGTHS: Record<BotStrength, BotStrengthConfig> = {
+  forgetful: {
+    label: 'Easy',
+    description: 'Often forgets cards it has seen',
+    memoryWindow: null,
+    forgetChance: 0.35
+  },
+  limited: {
+    label: 'Medium',
+    description: 'Remembers only the last 6 cards it saw',
+    memoryWindow: 6,
+    forgetChance: 0
+  },
+  perfect: {
+    label: 'Hard',
+    description: 'Never forgets a revealed card',
+    memoryWindow: null,
+    forgetChance: 0
+  }
+};
+
+export const BOT_STRENGTH_ORDER: BotStrength[] = ['forgetful', 'limited', 'perfect'];
+
+// Accept a named strength or an ad-hoc memory model, e.g. for simulations
+function getStrengthConfig(strength: BotStrength | BotStrengthConfig): BotStrengthConfig {
+  return typeof strength === 'string' ? BOT_STRENGTHS[strength] : strength;
+}
+
+// Pause before each flip so people can follow along
+export const BOT_TIMING = {
+  THINK_MS: 900,
+  JITTER_MS: 400
+};
+
+export interface BotMemory {
+  seen: Record<number, string>; // Card id -> emoji seen face-up
+  order: number[]; // Card ids, least recently seen first
+  mismatched: Array<[number, number]>; // Card ids seen turned over together without matching
+}
+
+export function createBotMemory(): BotMemory {
+  return { seen: {}, order: [], mismatched: [] };
+}
+
+/**
+ * Remember every face-up card and drop cards that have left play
+ */
+export function observeBoard(memory: BotMemory, board: Card[], strength: BotStrength | BotStrengthConfig): BotMemory {
+  const seen = { ...memory.seen };
+  let order = [...memory.order];
+
+  board.forEach(card => {
+    if (card.isMatched) {
+      if (card.id in seen) {
+        delete seen[card.id];
+        order = order.filter(id => id !== card.id);
+      }
+    } else if (card.isFlipped) {
+      seen[card.id] = card.emoji;
+      order = [...order.filter(id => id !== card.id), card.id];
+    }
+  });
+
+  const { memoryWindow } = getStrengthConfig(strength);
+  if (memoryWindow !== null && order.length > memoryWindow) {
+    order.slice(0, order.length - memoryWindow).forEach(id => delete seen[id]);
+    order = order.slice(-memoryWindow);
+  }
+
+  return { ...memory, seen, order };
+}
+
+/**
+ * Remember a turn that failed, so the same cards are never tried together again
+ * The last card turned over is the one that broke the set, so it differs from each card before it
+ */
+export function recordMismatch(memory: BotMemory, cardIds: number[]): BotMemory {
+  const last = cardIds[cardIds.length - 1];
+  const pairs = cardIds.slice(0, -1).map((id): [number, number] => [id, last]);
+  return { ...memory, mismatched: [...memory.mismatched, ...pairs] };
+}
+
+function isKnownMismatch(memory: BotMemory, first: number, second: number): boolean {
+  return memory.mismatched.some(([a, b]) => (a === first && b === second) || (a === second && b === first));
+}
+
+/**
+ * Apply the strength's forgetting once a turn has been resolved
+ */
+export function decayMemory(
+  memory: BotMemory,
+  strength: BotStrength | BotStrengthConfig,
+  random: RandomSource
+): BotMemory {
+  const { forgetChance } = getStrengthConfig(strength);
+  if (forgetChance === 0) return memory;
+
+  const order = memory.order.filter(() => random() >= forgetChance);
+  const seen: Record<number, string> = {};
+  order.forEach(id => {
+    seen[id] = memory.seen[id];
+  });
+
+  return { ...memory, seen, order };
+}
+
+function pickRandom(cards: Card[], random: RandomSource): Card {
+  return cards[Math.floor(random() * cards.length)];
+}
+
+/**
+ * Choose the next card to flip, or null when nothing can be flipped
+ * Completes a remembered set when it can, otherwise explores cards it hasn't seen
+ */
+export function chooseBotFlip(
+  memory: BotMemory,
+  board: Card[],
+  flippedIds: number[],
+  setSize: SetSize,
+  random: RandomSource
+): number | null {
+  const available = board.filter(card => !card.isMatched && !card.isFlipped);
+  if (available.length === 0) return null;
+
+  const known = available.filter(card => card.id in memory.seen);
+  const unknown = available.filter(card => !(card.id in memory.seen));
+  const explore = () => pickRandom(unknown.length > 0 ? unknown : available, random).id;
+
+  // Mid-turn: the face-up cards show which emoji is needed
+  if (flippedIds.length > 0) {
+    const target = board.find(card => card.id === flippedIds[0]);
+    const remembered = known.find(card =>
+      memory.seen[card.id] === target?.emoji && flippedIds.every(id => !isKnownMismatch(memory, id, card.id))
+    );
+    return remembered ? remembered.id : explore();
+  }
+
+  // Start of a turn: go for a complete set if one is remembered
+  // Cards that look alike but already failed together don't count as a set
+  const groups = new Map<string, Card[]>();
+  known.forEach(card => {
+    const emoji = memory.seen[card.id];
+    const group = groups.get(emoji) ?? [];
+    if (group.every(other => !isKnownMismatch(memory, other.id, card.id))) {
+      groups.set(emoji, [...group, card]);
+    }
+  });
+  const completeSet = Array.from(groups.values()).find(cards => cards.length >= setSize);
+
+  return completeSet ? completeSet[0].id : explore();
+}
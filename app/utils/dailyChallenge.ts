@@ -0,0 +1,100 @@
+import { BuiltInDifficulty, DailyChallengeResult, DIFFICULTY_CONFIGS } from '../types/game';
+import { EMOJI_CATEGORIES } from './emojiData';
+import { MAX_SEED, createSeededRandom, hashStringToSeed } from './random';
+
+/**
+ * Configuration for a single day's challenge
+ */
+export interface DailyChallenge {
+  date: string;
+  difficulty: BuiltInDifficulty;
+  categoryId: string;
+  seed: number;
+}
+
+/**
+ * Format a date as a local calendar day key (YYYY-MM-DD)
+ */
+export function getDateKey(date: Date = new Date()): string {
+  const year = date.getFullYear();
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Parse a calendar day key back into a local date
+ */
+export function parseDateKey(dateKey: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Shift a calendar day key by a number of days
+ */
+export function addDaysToDateKey(dateKey: string, days: number): string {
+  const date = parseDateKey(dateKey);
+  date.setDate(date.getDate() + days);
+  return getDateKey(date);
+}
+
+/**
+ * Derive the challenge for a calendar day
+ * Difficulty, category and board seed all come from the date alone,
+ * so every player gets the same board on the same day
+ */
+export function getDailyChallenge(date: Date = new Date()): DailyChallenge {
+  const dateKey = getDateKey(date);
+  const random = createSeededRandom(hashStringToSeed(`daily:${dateKey}`));
+
+  const difficulties = Object.keys(DIFFICULTY_CONFIGS) as BuiltInDifficulty[];
+  const difficulty = difficulties[Math.floor(random() * difficulties.length)];
+
+  const { pairs } = DIFFICULTY_CONFIGS[difficulty];
+  const categories = EMOJI_CATEGORIES.filter(category => category.emojis.length >= pairs);
+  const category = categories[Math.floor(random() * categories.length)];
+
+  return {
+    date: dateKey,
+    difficulty,
+    categoryId: category.id,
+    seed: Math.floor(random() * (MAX_SEED + 1))
+  };
+}
+
+/**
+ * Count consecutive completed daily challenges up to today
+ * A streak stays alive until the end of today even if today is not played yet
+ */
+export function calculateDailyStreak(history: DailyChallengeResult[], today: string = getDateKey()): number {
+  const completedDays = new Set(
+    history.filter(result => result.completed).map(result => result.date)
+  );
+
+  let day = completedDays.has(today) ? today : addDaysToDateKey(today, -1);
+  let streak = 0;
+
+  while (completedDays.has(day)) {
+    streak += 1;
+    day = addDaysToDateKey(day, -1);
+  }
+
+  return streak;
+}
+
+/**
+ * Build the day keys for a month calendar, padded with nulls so the
+ * first day lines up with its weekday (weeks start on Sunday)
+ */
+export function getCalendarDays(year: number, month: number): Array<string | null> {
+  const firstWeekday = new Date(year, month, 1).getDay();
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+
+  const days: Array<string | null> = Array(firstWeekday).fill(null);
+  for (let day = 1; day <= daysInMonth; day++) {
+    days.push(getDateKey(new Date(year, month, day)));
+  }
+
+  return days;
+}
@@ -0,0 +1,156 @@
+import {
+  BoardPreset,
+  BuiltInDifficulty,
+  CustomDifficulty,
+  Difficulty,
+  DifficultyConfig,
+  DIFFICULTY_CONFIGS
+} from '../types/game';
+import { RandomSource } from './random';
+
+export const BUILT_IN_DIFFICULTIES = Object.keys(DIFFICULTY_CONFIGS) as BuiltInDifficulty[];
+
+// Grid bounds for custom presets; 8×8 needs 32 distinct emojis, so every category must have that many
+export const CUSTOM_BOARD_LIMITS = {
+  MIN_SIZE: 2,
+  MAX_SIZE: 8,
+  MAX_NAME_LENGTH: 24
+};
+
+// Bounds for the memorize-phase length preference, in seconds
+export const PREVIEW_LIMITS = {
+  MIN_SECONDS: 1,
+  MAX_SECONDS: 60
+};
+
+const CUSTOM_DIFFICULTY_PATTERN = /^custom:(\d+)x(\d+):[a-z0-9]+$/;
+
+/**
+ * Check whether a value names one of the four fixed difficulties
+ */
+export function isBuiltInDifficulty(value: unknown): value is BuiltInDifficulty {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(DIFFICULTY_CONFIGS, value);
+}
+
+/**
+ * Check whether a grid size is allowed for a custom preset
+ */
+export function isValidBoardSize(rows: number, cols: number): boolean {
+  const { MIN_SIZE, MAX_SIZE } = CUSTOM_BOARD_LIMITS;
+  return [rows, cols].every(size => Number.isInteger(size) && size >= MIN_SIZE && size <= MAX_SIZE);
+}
+
+/**
+ * Read the grid size out of a custom difficulty id
+ * Returns null for anything that is not a well-formed custom id
+ */
+export function parseCustomDifficulty(value: string): { rows: number; cols: number } | null {
+  const match = CUSTOM_DIFFICULTY_PATTERN.exec(value);
+  if (!match) return null;
+
+  const rows = Number(match[1]);
+  const cols = Number(match[2]);
+  return isValidBoardSize(rows, cols) ? { rows, cols } : null;
+}
+
+/**
+ * Check whether a value is a built-in difficulty or a well-formed custom one
+ */
+export function isValidDifficulty(value: unknown): value is Difficulty {
+  return isBuiltInDifficulty(value) || (typeof value === 'string' && parseCustomDifficulty(value) !== null);
+}
+
+/**
+ * Create a fresh id for a custom preset of the given size
+ */
+export function createCustomDifficulty(rows: number, cols: number, random: RandomSource = Math.random): CustomDifficulty {
+  const suffix = Math.floor(random() * 36 ** 6).toString(36).padStart(6, '0');
+  return `custom:${rows}x${cols}:${suffix}`;
+}
+
+/**
+ * Interpolate a per-board value by cell count between the built-in boards
+ * Sizes outside the built-in range extend the nearest segment linearly
+ */
+export function interpolateByCellCount(
+  cellCount: number,
+  valueFor: (difficulty: BuiltInDifficulty) => number
+): number {
+  const points = BUILT_IN_DIFFICULTIES
+    .map(difficulty => {
+      const { rows, cols } = DIFFICULTY_CONFIGS[difficulty];
+      return { cells: rows * cols, value: valueFor(difficulty) };
+    })
+    .sort((a, b) => a.cells - b.cells);
+
+  let segment = points.length - 2;
+  for (let i = 0; i < points.length - 1; i++) {
+    if (cellCount <= points[i + 1].cells) {
+      segment = i;
+      break;
+    }
+  }
+
+  const start = points[segment];
+  const end = points[segment + 1];
+  const slope = (end.value - start.value) / (end.cells - start.cells);
+  return start.value + (cellCount - start.cells) * slope;
+}
+
+/**
+ * Get the board configuration for any difficulty
+ * Custom boards get a time limit and lives scaled from the built-in boards of similar size
+ */
+export function getDifficultyConfig(difficulty: Difficulty): DifficultyConfig {
+  if (isBuiltInDifficulty(difficulty)) {
+    return DIFFICULTY_CONFIGS[difficulty];
+  }
+
+  const size = parseCustomDifficulty(difficulty);
+  if (!size) {
+    throw new Error(`Unknown difficulty: ${difficulty}`);
+  }
+
+  const cellCount = size.rows * size.cols;
+  const timeLimit = interpolateByCellCount(cellCount, builtIn => DIFFICULTY_CONFIGS[builtIn].timeLimit);
+  const lives = interpolateByCellCount(cellCount, builtIn => DIFFICULTY_CONFIGS[builtIn].lives);
+  const previewSeconds = interpolateByCellCount(cellCount, builtIn => DIFFICULTY_CONFIGS[builtIn].previewSeconds);
+
+  return {
+    rows: size.rows,
+    cols: size.cols,
+    pairs: Math.floor(cellCount / 2),
+    timeLimit: Math.max(20, Math.round(timeLimit / 5) * 5),
+    lives: Math.max(1, Math.round(lives)),
+    previewSeconds: Math.max(PREVIEW_LIMITS.MIN_SECONDS, Math.round(previewSeconds))
+  };
+}
+
+/**
+ * Get the memorize-phase length for a difficulty, honouring a player's overrides
+ */
+export function getPreviewSeconds(
+  difficulty: Difficulty,
+  overrides: Partial<Record<Difficulty, number>> = {}
+): number {
+  const override = overrides[difficulty];
+  if (override !== undefined && Number.isFinite(override)) {
+    return Math.min(PREVIEW_LIMITS.MAX_SECONDS, Math.max(PREVIEW_LIMITS.MIN_SECONDS, Math.round(override)));
+  }
+  return getDifficultyConfig(difficulty).previewSeconds;
+}
+
+/**
+ * Get a display name for a difficulty, using the preset name for custom boards when known
+ */
+export function getDifficultyLabel(difficulty: Difficulty, presets: BoardPreset[] = []): string {
+  if (isBuiltInDifficulty(difficulty)) {
+    return difficulty.charAt(0).toUpperCase() + difficulty.slice(1);
+  }
+
+  const preset = presets.find(candidate => candidate.id === difficulty);
+  if (preset) return preset.name;
+
+  const { rows, cols } = getDifficultyConfig(difficulty);
+  return `Custom ${cols}×${rows}`;
+}
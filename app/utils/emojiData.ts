@@ -1,4 +1,5 @@
 import { EmojiCategory } from '../types/game';
+import { RandomSource } from './random';
 
 /**
  * Complete emoji collections by category for the memory game.
@@ -34,7 +35,7 @@ export const EMOJI_CATEGORIES: EmojiCategory[] = [
     emojis: [
       '⚽', '🏀', '🏈', '⚾', '🎾', '🏐', '🏉', '🎱',
       '🏓', '🏸', '🥅', '🎯', '⛳', '🪁', '🏹', '🎣',
-      '🤿', '🥊', '🥅', '⛷️', '🏂', '🏄', '🚣', '🏊',
+      '🤿', '🥊', '🛹', '⛷️', '🏂', '🏄', '🚣', '🏊',
       '⛹️', '🏋️', '🚴', '🤸', '🤽', '🤾', '🧗', '🤺'
     ],
     description: 'Sports equipment, tools, and everyday objects'
@@ -98,14 +99,18 @@ export function validateCategoryForDifficulty(category: EmojiCategory, requiredP
 /**
  * Get random emojis from a category
  */
-export function getRandomEmojis(category: EmojiCategory, count: number): string[] {
+export function getRandomEmojis(
+  category: EmojiCategory,
+  count: number,
+  random: RandomSource = Math.random
+): string[] {
   if (count > category.emojis.length) {
     throw new Error(`Not enough emojis in category ${category.name}. Requested: ${count}, Available: ${category.emojis.length}`);
   }
 
   const shuffled = [...category.emojis];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
 
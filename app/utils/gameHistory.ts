@@ -0,0 +1,149 @@
+import { Difficulty, GameOutcome, GameRecord, GameState, LocalStorageData, ScoringRules } from '../types/game';
+import { DEFAULT_SCORING_RULES } from './scoringRules';
+import { DEFAULT_PROFILE_ID } from './profiles';
+
+/**
+ * Long-term game history: building records, and filtering, paging and summarising them
+ * Storage lives in gameHistoryStore; everything here works on plain arrays
+ */
+
+export const DEFAULT_PAGE_SIZE = 20;
+
+// Every field is optional; from and to are inclusive ISO timestamps compared against endedAt
+export interface GameHistoryQuery {
+  profileId?: string;
+  from?: string;
+  to?: string;
+  difficulty?: Difficulty;
+  category?: string;
+  outcome?: GameOutcome;
+  scoringRules?: ScoringRules;
+}
+
+export interface GameHistoryPage {
+  records: GameRecord[]; // Newest first
+  total: number; // Records matching the query across all pages
+  offset: number;
+  limit: number;
+  hasMore: boolean;
+}
+
+export interface GameHistorySummary {
+  games: number;
+  won: number;
+  lost: number;
+  abandoned: number;
+  winRate: number; // Percentage of games won, abandoned ones included
+  totalTime: number; // Seconds played across every game
+  averageTime: number; // Over won games
+  averageMoves: number; // Over won games
+  bestTime: number | null;
+  bestMoves: number | null;
+  bestScore: number | null;
+}
+
+type HighScore = LocalStorageData['highScores'][number];
+
+/**
+ * Record a game as it ends, or as it is abandoned
+ */
+export function createGameRecord(state: GameState, outcome: GameOutcome, endedAt: Date = new Date()): GameRecord {
+  const startedAt = state.history[0]?.timestamp;
+  return {
+    outcome,
+    difficulty: state.difficulty,
+    category: state.category.id,
+    setSize: state.setSize,
+    moves: state.moves,
+    time: state.timeElapsedMs / 1000,
+    score: state.score,
+    scoringRules: state.scoringRules,
+    seed: state.seed,
+    preview: state.previewDuration !== null,
+    players: state.players.length,
+    ...(state.dailyDate ? { dailyDate: state.dailyDate } : {}),
+    startedAt: startedAt ? new Date(startedAt).toISOString() : endedAt.toISOString(),
+    endedAt: endedAt.toISOString()
+  };
+}
+
+/**
+ * Whether leaving the game now would abandon it, memorize phase included
+ */
+export function isGameInProgress(state: GameState): boolean {
+  return ['preview', 'playing', 'paused'].includes(state.gameStatus) && state.history.length > 0;
+}
+
+/**
+ * A won game from the capped high score list; its start time and seed were never kept
+ */
+export function highScoreToGameRecord(score: HighScore): GameRecord {
+  return {
+    outcome: 'won',
+    difficulty: score.difficulty,
+    category: score.category,
+    setSize: 2,
+    moves: score.moves,
+    time: score.time,
+    score: score.score,
+    scoringRules: score.scoringRules ?? DEFAULT_SCORING_RULES,
+    seed: null,
+    preview: Boolean(score.preview),
+    players: 0,
+    startedAt: score.date,
+    endedAt: score.date
+  };
+}
+
+export function matchesGameQuery(record: GameRecord, query: GameHistoryQuery): boolean {
+  return (query.profileId === undefined || (record.profileId ?? DEFAULT_PROFILE_ID) === query.profileId) &&
+    (query.from === undefined || record.endedAt >= query.from) &&
+    (query.to === undefined || record.endedAt <= query.to) &&
+    (query.difficulty === undefined || record.difficulty === query.difficulty) &&
+    (query.category === undefined || record.category === query.category) &&
+    (query.outcome === undefined || record.outcome === query.outcome) &&
+    (query.scoringRules === undefined || record.scoringRules === query.scoringRules);
+}
+
+/**
+ * One page of records, newest first
+ */
+export function paginateGameRecords(
+  records: GameRecord[],
+  offset: number = 0,
+  limit: number = DEFAULT_PAGE_SIZE
+): GameHistoryPage {
+  const newestFirst = [...records].sort((a, b) => b.endedAt.localeCompare(a.endedAt));
+  return {
+    records: newestFirst.slice(offset, offset + limit),
+    total: records.length,
+    offset,
+    limit,
+    hasMore: offset + limit < records.length
+  };
+}
+
+/**
+ * Totals, averages and bests across records; bests and averages only count won games
+ */
+export function summarizeGameRecords(records: GameRecord[]): GameHistorySummary {
+  const won = records.filter(record => record.outcome === 'won');
+  const average = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+  // Reduced rather than spread into Math.min, which has an argument limit
+  const best = (values: number[], pick: (a: number, b: number) => number) =>
+    values.length > 0 ? values.reduce((kept, value) => pick(kept, value)) : null;
+
+  return {
+    games: records.length,
+    won: won.length,
+    lost: records.filter(record => record.outcome === 'lost').length,
+    abandoned: records.filter(record => record.outcome === 'abandoned').length,
+    winRate: records.length > 0 ? (won.length / records.length) * 100 : 0,
+    totalTime: records.reduce((sum, record) => sum + record.time, 0),
+    averageTime: average(won.map(record => record.time)),
+    averageMoves: average(won.map(record => record.moves)),
+    bestTime: best(won.map(record => record.time), Math.min),
+    bestMoves: best(won.map(record => record.moves), Math.min),
+    bestScore: best(won.map(record => record.score), Math.max)
+  };
+}
@@ -0,0 +1,141 @@
+import { GameRecord, LocalStorageData } from '../types/game';
+import {
+  DEFAULT_PAGE_SIZE,
+  GameHistoryPage,
+  GameHistoryQuery,
+  GameHistorySummary,
+  highScoreToGameRecord,
+  matchesGameQuery,
+  paginateGameRecords,
+  summarizeGameRecords
+} from './gameHistory';
+import { getProfileKey } from './profiles';
+
+/**
+ * IndexedDB storage for the game history
+ * Records are read through an endedAt index, so date ranges don't scan the whole store
+ */
+
+const DB_NAME = 'emoji-memory-game-history';
+const DB_VERSION = 1;
+const GAMES_STORE = 'games';
+const META_STORE = 'meta';
+const ENDED_AT_INDEX = 'endedAt';
+const HIGH_SCORES_IMPORTED = 'highScoresImported';
+
+export interface GameHistoryStore {
+  addGame: (record: GameRecord) => Promise<number>;
+  queryGames: (query?: GameHistoryQuery, offset?: number, limit?: number) => Promise<GameHistoryPage>;
+  summarizeGames: (query?: GameHistoryQuery) => Promise<GameHistorySummary>;
+  importHighScores: (highScores: LocalStorageData['highScores'], profileId: string) => Promise<number>;
+  deleteProfileGames: (profileId: string) => Promise<number>;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+}
+
+function openDatabase(factory: IDBFactory): Promise<IDBDatabase> {
+  const request = factory.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(GAMES_STORE)) {
+      const games = db.createObjectStore(GAMES_STORE, { keyPath: 'id', autoIncrement: true });
+      games.createIndex(ENDED_AT_INDEX, ENDED_AT_INDEX);
+    }
+    if (!db.objectStoreNames.contains(META_STORE)) {
+      db.createObjectStore(META_STORE);
+    }
+  };
+  return requestToPromise(request);
+}
+
+function getDateRange({ from, to }: GameHistoryQuery): IDBKeyRange | undefined {
+  if (from !== undefined && to !== undefined) return IDBKeyRange.bound(from, to);
+  if (from !== undefined) return IDBKeyRange.lowerBound(from);
+  if (to !== undefined) return IDBKeyRange.upperBound(to);
+  return undefined;
+}
+
+async function readGames(db: IDBDatabase, query: GameHistoryQuery): Promise<GameRecord[]> {
+  const index = db.transaction(GAMES_STORE, 'readonly').objectStore(GAMES_STORE).index(ENDED_AT_INDEX);
+  const records: GameRecord[] = await requestToPromise(index.getAll(getDateRange(query)));
+  return records.filter(record => matchesGameQuery(record, query));
+}
+
+/**
+ * Open the history store; null where IndexedDB isn't available (server rendering, some private modes)
+ * The database is opened on first use
+ */
+export function createGameHistoryStore(
+  factory: IDBFactory | undefined = typeof indexedDB !== 'undefined' ? indexedDB : undefined
+): GameHistoryStore | null {
+  if (!factory) return null;
+
+  let database: Promise<IDBDatabase> | null = null;
+  const getDatabase = () => {
+    database ??= openDatabase(factory);
+    return database;
+  };
+
+  return {
+    async addGame(record) {
+      const db = await getDatabase();
+      const transaction = db.transaction(GAMES_STORE, 'readwrite');
+      const id = await requestToPromise(transaction.objectStore(GAMES_STORE).add(record));
+      await transactionDone(transaction);
+      return id as number;
+    },
+
+    async queryGames(query = {}, offset = 0, limit = DEFAULT_PAGE_SIZE) {
+      return paginateGameRecords(await readGames(await getDatabase(), query), offset, limit);
+    },
+
+    async summarizeGames(query = {}) {
+      return summarizeGameRecords(await readGames(await getDatabase(), query));
+    },
+
+    // Copy a profile's capped high score list in once; returns how many records were added
+    async importHighScores(highScores, profileId) {
+      const db = await getDatabase();
+      const transaction = db.transaction([GAMES_STORE, META_STORE], 'readwrite');
+      const meta = transaction.objectStore(META_STORE);
+      const importedKey = getProfileKey(HIGH_SCORES_IMPORTED, profileId);
+      if (await requestToPromise(meta.get(importedKey))) {
+        await transactionDone(transaction);
+        return 0;
+      }
+
+      const games = transaction.objectStore(GAMES_STORE);
+      highScores.forEach(score => games.add({ ...highScoreToGameRecord(score), profileId }));
+      meta.put(new Date().toISOString(), importedKey);
+      await transactionDone(transaction);
+      return highScores.length;
+    },
+
+    // Remove a deleted profile's games and its import marker; returns how many records were removed
+    async deleteProfileGames(profileId) {
+      const db = await getDatabase();
+      const transaction = db.transaction([GAMES_STORE, META_STORE], 'readwrite');
+      const games = transaction.objectStore(GAMES_STORE);
+      const records: GameRecord[] = await requestToPromise(games.getAll());
+      const removed = records.filter(record => matchesGameQuery(record, { profileId }));
+
+      removed.forEach(record => games.delete(record.id!));
+      transaction.objectStore(META_STORE).delete(getProfileKey(HIGH_SCORES_IMPORTED, profileId));
+      await transactionDone(transaction);
+      return removed.length;
+    }
+  };
+}
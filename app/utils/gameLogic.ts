@@ -1,15 +1,17 @@
-import { Card, Difficulty, EmojiCategory, DIFFICULTY_CONFIGS } from '../types/game';
+import { Card, Difficulty, EmojiCategory, SetSize } from '../types/game';
 import { getRandomEmojis, validateCategoryForDifficulty } from './emojiData';
+import { RandomSource, createSeededRandom } from './random';
+import { getDifficultyConfig } from './difficulty';
 
 /**
  * Fisher-Yates shuffle algorithm for randomizing array elements
  * Time Complexity: O(n), Space Complexity: O(1)
  */
-export function fisherYatesShuffle<T>(array: T[]): T[] {
+export function fisherYatesShuffle<T>(array: T[], random: RandomSource = Math.random): T[] {
   const shuffled = [...array];
   
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   
@@ -19,7 +21,11 @@ export function fisherYatesShuffle<T>(array: T[]): T[] {
 /**
  * Generate pairs of emojis from a category for the game board
  */
-export function generateEmojiPairs(category: EmojiCategory, pairCount: number): string[] {
+export function generateEmojiPairs(
+  category: EmojiCategory,
+  pairCount: number,
+  random: RandomSource = Math.random
+): string[] {
   if (!validateCategoryForDifficulty(category, pairCount)) {
     throw new Error(
       `Category '${category.name}' doesn't have enough emojis for ${pairCount} pairs. ` +
@@ -27,43 +33,63 @@ export function generateEmojiPairs(category: EmojiCategory, pairCount: number):
     );
   }
 
-  return getRandomEmojis(category, pairCount);
+  return getRandomEmojis(category, pairCount, random);
+}
+
+/**
+ * Get the number of matching sets a difficulty's grid holds for a set size
+ * Cells that don't fit into a whole set are filled with blank cards
+ */
+export function getTotalSets(difficulty: Difficulty, setSize: SetSize = 2): number {
+  const { rows, cols } = getDifficultyConfig(difficulty);
+  return Math.floor((rows * cols) / setSize);
 }
 
 /**
  * Create game board with shuffled cards
+ * Passing a seed makes the emoji selection and layout fully reproducible
  */
-export function createGameBoard(difficulty: Difficulty, category: EmojiCategory): Card[] {
-  const config = DIFFICULTY_CONFIGS[difficulty];
-  const { pairs } = config;
+export function createGameBoard(
+  difficulty: Difficulty,
+  category: EmojiCategory,
+  seed?: number,
+  setSize: SetSize = 2
+): Card[] {
+  const { rows, cols } = getDifficultyConfig(difficulty);
+  const totalSets = getTotalSets(difficulty, setSize);
+  const random = seed === undefined ? Math.random : createSeededRandom(seed);
 
-  // Generate emoji pairs for the game
-  const selectedEmojis = generateEmojiPairs(category, pairs);
+  // Generate one emoji per set for the game
+  const selectedEmojis = generateEmojiPairs(category, totalSets, random);
 
-  // Create card objects - two cards per emoji
+  // Create card objects - setSize cards per emoji
   const cards: Card[] = [];
-  selectedEmojis.forEach((emoji, pairIndex) => {
-    // First card of the pair
-    cards.push({
-      id: pairIndex * 2,
-      emoji,
-      isFlipped: false,
-      isMatched: false,
-      pairId: pairIndex
-    });
+  selectedEmojis.forEach((emoji, setIndex) => {
+    for (let copy = 0; copy < setSize; copy++) {
+      cards.push({
+        id: cards.length,
+        emoji,
+        isFlipped: false,
+        isMatched: false,
+        pairId: setIndex
+      });
+    }
+  });
 
-    // Second card of the pair
+  // Fill leftover cells with blanks; they start matched so they never take part in play
+  while (cards.length < rows * cols) {
     cards.push({
-      id: pairIndex * 2 + 1,
-      emoji,
+      id: cards.length,
+      emoji: '',
       isFlipped: false,
-      isMatched: false,
-      pairId: pairIndex
+      isMatched: true,
+      pairId: -1,
+      isBlank: true
     });
-  });
+  }
 
   // Shuffle the cards
-  const shuffledCards = fisherYatesShuffle(cards);
+  const shuffledCards = fisherYatesShuffle(cards, random);
 
   // Update IDs to match shuffled positions
   shuffledCards.forEach((card, index) => {
@@ -80,6 +106,26 @@ export function areCardsMatching(card1: Card, card2: Card): boolean {
   return card1.pairId === card2.pairId && card1.id !== card2.id;
 }
 
+/**
+ * Classify the cards flipped so far this turn
+ * A turn is a mismatch as soon as two flipped cards differ, and a match once a full set is showing
+ */
+export function getTurnOutcome(
+  board: Card[],
+  flippedCardIds: number[],
+  setSize: SetSize = 2
+): 'pending' | 'match' | 'mismatch' {
+  const flipped = flippedCardIds
+    .map(cardId => board.find(card => card.id === cardId))
+    .filter((card): card is Card => card !== undefined);
+
+  if (flipped.some(card => card.pairId !== flipped[0].pairId)) {
+    return 'mismatch';
+  }
+
+  return flipped.length >= setSize ? 'match' : 'pending';
+}
+
 /**
  * Get card by ID from the board
  */
@@ -98,14 +144,14 @@ export function isGameCompleted(board: Card[]): boolean {
  * Get total pairs for a difficulty level
  */
 export function getTotalPairs(difficulty: Difficulty): number {
-  return DIFFICULTY_CONFIGS[difficulty].pairs;
+  return getDifficultyConfig(difficulty).pairs;
 }
 
 /**
  * Get board dimensions for a difficulty level
  */
 export function getBoardDimensions(difficulty: Difficulty): { rows: number; cols: number } {
-  const config = DIFFICULTY_CONFIGS[difficulty];
+  const config = getDifficultyConfig(difficulty);
   return { rows: config.rows, cols: config.cols };
 }
 
@@ -115,7 +161,8 @@ export function getBoardDimensions(difficulty: Difficulty): { rows: number; cols
 export function canFlipCard(
   card: Card | undefined,
   flippedCardsCount: number,
-  gameStatus: string
+  gameStatus: string,
+  setSize: SetSize = 2
 ): boolean {
   if (!card || gameStatus !== 'playing') {
     return false;
@@ -125,7 +172,7 @@ export function canFlipCard(
     return false;
   }
 
-  if (flippedCardsCount >= 2) {
+  if (flippedCardsCount >= setSize) {
     return false;
   }
 
@@ -150,30 +197,36 @@ export function getRemainingPairs(matchedPairs: number, totalPairs: number): num
 /**
  * Validate game board integrity
  */
-export function validateGameBoard(board: Card[], difficulty: Difficulty): boolean {
-  const config = DIFFICULTY_CONFIGS[difficulty];
-  const expectedCards = config.pairs * 2;
+export function validateGameBoard(board: Card[], difficulty: Difficulty, setSize: SetSize = 2): boolean {
+  const { rows, cols } = getDifficultyConfig(difficulty);
+  const expectedCards = rows * cols;
+  const expectedSets = getTotalSets(difficulty, setSize);
 
   // Check total card count
   if (board.length !== expectedCards) {
     return false;
   }
 
-  // Check that each pair has exactly 2 cards
-  const pairCounts = new Map<number, number>();
+  // Count cards per set, leaving blank filler cards aside
+  const setCounts = new Map<number, number>();
+  let blankCount = 0;
   for (const card of board) {
-    pairCounts.set(card.pairId, (pairCounts.get(card.pairId) || 0) + 1);
+    if (card.isBlank) {
+      blankCount++;
+      continue;
+    }
+    setCounts.set(card.pairId, (setCounts.get(card.pairId) || 0) + 1);
   }
 
-  // Verify each pair has exactly 2 cards
-  for (const count of pairCounts.values()) {
-    if (count !== 2) {
+  // Verify each set has exactly setSize cards
+  for (const count of setCounts.values()) {
+    if (count !== setSize) {
       return false;
     }
   }
 
-  // Verify correct number of pairs
-  if (pairCounts.size !== config.pairs) {
+  // Verify correct number of sets and blanks
+  if (setCounts.size !== expectedSets || blankCount !== expectedCards - expectedSets * setSize) {
     return false;
   }
 
@@ -187,7 +240,7 @@ export function resetBoard(board: Card[]): Card[] {
   return board.map(card => ({
     ...card,
     isFlipped: false,
-    isMatched: false
+    isMatched: Boolean(card.isBlank)
   }));
 }
 
@@ -202,5 +255,5 @@ export function getFlippedCards(board: Card[]): Card[] {
  * Get matched cards from the board
  */
 export function getMatchedCards(board: Card[]): Card[] {
-  return board.filter(card => card.isMatched);
+  return board.filter(card => card.isMatched && !card.isBlank);
 }
\ No newline at end of file
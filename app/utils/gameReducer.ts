@@ -0,0 +1,323 @@
+import { GameState, GameAction, GameEvent } from '../types/game';
+import { createGameBoard, getTotalSets, getTurnOutcome } from './gameLogic';
+import { createPlayers } from './players';
+import { DEFAULT_SCORING_RULES, PlayerTurn, SCORING_STRATEGIES, isScoringRules, scoreGame } from './scoringRules';
+import { getDefaultCategory } from './emojiData';
+import { generateSeed } from './random';
+
+export const initialGameState: GameState = {
+  board: [],
+  flippedCards: [],
+  matchedPairs: [],
+  moves: 0,
+  timeElapsed: 0,
+  timeElapsedMs: 0,
+  splits: [],
+  gameStatus: 'setup',
+  difficulty: 'easy',
+  category: getDefaultCategory(),
+  setSize: 2,
+  score: 0,
+  seed: null,
+  dailyDate: null,
+  timeLimit: null,
+  livesRemaining: null,
+  maxLives: null,
+  failureReason: null,
+  previewDuration: null,
+  players: [],
+  currentPlayerIndex: 0,
+  scoringRules: DEFAULT_SCORING_RULES,
+  currentStreak: 0,
+  longestStreak: 0,
+  history: []
+};
+
+// Actions that change the game and are worth keeping in the replay log
+export const RECORDED_ACTIONS: ReadonlySet<GameAction['type']> = new Set<GameAction['type']>([
+  'START_GAME',
+  'FLIP_CARD',
+  'MATCH_CARDS',
+  'UNMATCH_CARDS',
+  'PAUSE_GAME',
+  'RESUME_GAME',
+  'COMPLETE_GAME',
+  'FAIL_GAME',
+  'UPDATE_TIME',
+  'RECORD_SPLIT',
+  'END_PREVIEW'
+]);
+
+// Bank a turn's points for the player who took it, under the game's rule set
+// Penalties can't take a player below zero, just as a rule set's total can't go negative
+function creditCurrentPlayer(state: GameState, turn: Pick<PlayerTurn, 'matched' | 'streak'>): GameState['players'] {
+  const points = SCORING_STRATEGIES[state.scoringRules].scoreTurn({
+    difficulty: state.difficulty,
+    setSize: state.setSize,
+    ...turn
+  });
+  return state.players.map((player, index) =>
+    index === state.currentPlayerIndex
+      ? {
+          ...player,
+          matches: player.matches + (turn.matched ? 1 : 0),
+          score: Math.max(0, player.score + points)
+        }
+      : player
+  );
+}
+
+function applyGameAction(state: GameState, action: GameAction): GameState {
+  switch (action.type) {
+    case 'START_GAME': {
+      const { difficulty, category, setSize = 2, seed = generateSeed(), dailyDate, timeLimit, lives, preview, players, scoringRules } = action.payload || {};
+      if (!difficulty || !category) return state;
+      const board = action.payload?.board ?? createGameBoard(difficulty, category, seed, setSize);
+      const hasPreview = preview !== undefined && preview > 0;
+      return {
+        ...state,
+        // Memorize phase: every card starts face-up until END_PREVIEW
+        board: hasPreview ? board.map(card => (card.isBlank ? card : { ...card, isFlipped: true })) : board,
+        flippedCards: [],
+        matchedPairs: [],
+        moves: 0,
+        timeElapsed: 0,
+        timeElapsedMs: 0,
+        splits: [],
+        gameStatus: hasPreview ? 'preview' : 'playing',
+        difficulty,
+        category,
+        setSize,
+        score: 0,
+        seed,
+        dailyDate: dailyDate ?? null,
+        timeLimit: timeLimit ?? null,
+        livesRemaining: lives ?? null,
+        maxLives: lives ?? null,
+        failureReason: null,
+        previewDuration: hasPreview ? preview : null,
+        players: createPlayers(players ?? []),
+        currentPlayerIndex: 0,
+        scoringRules: isScoringRules(scoringRules) ? scoringRules : DEFAULT_SCORING_RULES,
+        currentStreak: 0,
+        longestStreak: 0,
+        history: []
+      };
+    }
+
+    case 'END_PREVIEW': {
+      if (state.gameStatus !== 'preview') return state;
+      return {
+        ...state,
+        board: state.board.map(card => (card.isFlipped ? { ...card, isFlipped: false } : card)),
+        gameStatus: 'playing'
+      };
+    }
+
+    case 'FLIP_CARD': {
+      const { cardId } = action.payload || {};
+      if (cardId === undefined) return state;
+      
+      // Prevent flipping if game is not playing or card is already flipped/matched
+      if (state.gameStatus !== 'playing') return state;
+      
+      const card = state.board.find(c => c.id === cardId);
+      if (!card || card.isFlipped || card.isMatched) return state;
+      
+      // Prevent flipping more than a full set, or carrying on after a mismatch is showing
+      if (state.flippedCards.length >= state.setSize) return state;
+      if (getTurnOutcome(state.board, state.flippedCards, state.setSize) === 'mismatch') return state;
+
+      const newFlippedCards = [...state.flippedCards, cardId];
+      const newBoard = state.board.map(c =>
+        c.id === cardId ? { ...c, isFlipped: true } : c
+      );
+
+      return {
+        ...state,
+        board: newBoard,
+        flippedCards: newFlippedCards
+      };
+    }
+
+    case 'MATCH_CARDS': {
+      const { cardIds } = action.payload || {};
+      if (!cardIds || cardIds.length !== state.setSize) return state;
+      if (state.gameStatus === 'completed' || state.gameStatus === 'failed') return state;
+      
+      const newBoard = state.board.map(card => {
+        if (cardIds.includes(card.id)) {
+          return { ...card, isMatched: true, isFlipped: true };
+        }
+        return card;
+      });
+
+      const firstCard = state.board.find(c => c.id === cardIds[0]);
+      const newMatchedPairs = firstCard ? [...state.matchedPairs, firstCard.pairId] : state.matchedPairs;
+      const newMoves = state.moves + 1;
+      
+      // Check if game is completed
+      const totalSets = getTotalSets(state.difficulty, state.setSize);
+      const gameCompleted = newMatchedPairs.length === totalSets;
+      const newStreak = state.currentStreak + 1;
+
+      // In hot-seat games the current player banks the match under the game's rules and keeps the turn,
+      // so the streak is always the current player's own
+      const newPlayers = creditCurrentPlayer(state, { matched: true, streak: newStreak });
+
+      return {
+        ...state,
+        board: newBoard,
+        flippedCards: [],
+        matchedPairs: newMatchedPairs,
+        moves: newMoves,
+        players: newPlayers,
+        currentStreak: newStreak,
+        longestStreak: Math.max(state.longestStreak, newStreak),
+        // A match that lands while paused leaves the game paused
+        gameStatus: gameCompleted ? 'completed' : state.gameStatus
+      };
+    }
+
+    case 'UNMATCH_CARDS': {
+      const { cardIds } = action.payload || {};
+      if (!cardIds || cardIds.length < 2) return state;
+      if (state.gameStatus === 'completed' || state.gameStatus === 'failed') return state;
+      
+      const newBoard = state.board.map(card => {
+        if (cardIds.includes(card.id)) {
+          return { ...card, isFlipped: false };
+        }
+        return card;
+      });
+
+      // Each mismatch spends a life in limited-lives games
+      const livesRemaining = state.livesRemaining === null ? null : Math.max(0, state.livesRemaining - 1);
+      const outOfLives = livesRemaining === 0;
+
+      return {
+        ...state,
+        board: newBoard,
+        flippedCards: [],
+        moves: state.moves + 1,
+        players: creditCurrentPlayer(state, { matched: false, streak: 0 }),
+        currentStreak: 0,
+        // A mismatch passes the turn to the next player
+        currentPlayerIndex: state.players.length > 0 ? (state.currentPlayerIndex + 1) % state.players.length : 0,
+        livesRemaining,
+        gameStatus: outOfLives ? 'failed' : state.gameStatus,
+        failureReason: outOfLives ? 'lives' : state.failureReason
+      };
+    }
+
+    case 'PAUSE_GAME': {
+      if (state.gameStatus !== 'playing') return state;
+      return {
+        ...state,
+        gameStatus: 'paused'
+      };
+    }
+
+    case 'RESUME_GAME': {
+      if (state.gameStatus !== 'paused') return state;
+      return {
+        ...state,
+        gameStatus: 'playing'
+      };
+    }
+
+    case 'UPDATE_TIME': {
+      const { timeElapsed } = action.payload || {};
+      if (timeElapsed === undefined || timeElapsed === state.timeElapsed) return state;
+      return {
+        ...state,
+        timeElapsed,
+        timeElapsedMs: action.payload?.timeElapsedMs ?? timeElapsed * 1000
+      };
+    }
+
+    case 'RECORD_SPLIT': {
+      // One split per match, stamped once the match has landed
+      const { timeElapsedMs } = action.payload || {};
+      if (timeElapsedMs === undefined || state.splits.length >= state.matchedPairs.length) return state;
+      return {
+        ...state,
+        splits: [...state.splits, timeElapsedMs],
+        timeElapsed: Math.floor(timeElapsedMs / 1000),
+        timeElapsedMs
+      };
+    }
+
+    case 'RESET_GAME': {
+      return {
+        ...initialGameState,
+        difficulty: state.difficulty,
+        category: state.category
+      };
+    }
+
+    case 'RESTORE_GAME': {
+      // The snapshot already carries its own replay log, so it replaces the state wholesale
+      const { snapshot } = action.payload || {};
+      return snapshot ?? state;
+    }
+
+    case 'COMPLETE_GAME': {
+      return {
+        ...state,
+        gameStatus: 'completed'
+      };
+    }
+
+    case 'FAIL_GAME': {
+      const { reason } = action.payload || {};
+      if (!reason) return state;
+      if (state.gameStatus !== 'playing' && state.gameStatus !== 'paused') return state;
+
+      // Turn any unresolved cards back over; matched cards stay revealed
+      const newBoard = state.board.map(card =>
+        card.isFlipped && !card.isMatched ? { ...card, isFlipped: false } : card
+      );
+
+      return {
+        ...state,
+        board: newBoard,
+        flippedCards: [],
+        gameStatus: 'failed',
+        failureReason: reason
+      };
+    }
+
+    default:
+      return state;
+  }
+}
+
+/**
+ * Game reducer that also records every accepted action into the replay log
+ * Recording starts at START_GAME; rejected actions (no state change) are skipped
+ * The running score is recalculated from the log by the game's scoring rules
+ */
+export function gameReducer(state: GameState, action: GameAction): GameState {
+  const nextState = applyGameAction(state, action);
+
+  const isRecording = action.type === 'START_GAME' || nextState.history.length > 0;
+  if (nextState === state || !isRecording || !RECORDED_ACTIONS.has(action.type)) {
+    return nextState;
+  }
+
+  const event: GameEvent = {
+    type: action.type,
+    payload: action.payload,
+    timestamp: action.timestamp ?? 0
+  };
+
+  const history = [...nextState.history, event];
+  const rescore = SCORING_STRATEGIES[nextState.scoringRules].rescoreOn.includes(action.type);
+
+  return {
+    ...nextState,
+    score: rescore ? scoreGame(history).totalScore : nextState.score,
+    history
+  };
+}
@@ -0,0 +1,61 @@
+import { BestRun, Difficulty, SetSize } from '../types/game';
+
+/**
+ * Ghost races: replay the pace of a stored best run, match by match,
+ * against the game clock of the run being played
+ */
+
+export interface GhostProgress {
+  matches: number; // Matches the ghost had made by this point on the clock
+  total: number;
+  deltaMs: number | null; // Positive when behind the ghost, negative when ahead; null before there is anything to compare
+}
+
+/**
+ * The stored best run for a board, if there is one
+ */
+export function findBestRun(
+  bestRuns: BestRun[],
+  difficulty: Difficulty,
+  category: string,
+  setSize: SetSize = 2
+): BestRun | undefined {
+  return bestRuns.find(run => run.difficulty === difficulty && run.category === category && run.setSize === setSize);
+}
+
+/**
+ * Keep a run if it is the first or fastest on its board; returns the list unchanged otherwise
+ */
+export function updateBestRuns(bestRuns: BestRun[], run: BestRun): BestRun[] {
+  const best = findBestRun(bestRuns, run.difficulty, run.category, run.setSize);
+  if (best && best.time <= run.time) return bestRuns;
+  return [...bestRuns.filter(entry => entry !== best), run];
+}
+
+/**
+ * Where the ghost is at a point on the game clock, and how far the player is from it
+ * Once the player is overdue on the ghost's next split the gap grows live;
+ * otherwise it is the gap at the player's last match
+ */
+export function getGhostProgress(ghostSplits: number[], playerSplits: number[], elapsedMs: number): GhostProgress {
+  const matches = ghostSplits.filter(split => split <= elapsedMs).length;
+  const next = playerSplits.length;
+
+  let deltaMs: number | null = null;
+  if (next < ghostSplits.length && elapsedMs > ghostSplits[next]) {
+    deltaMs = elapsedMs - ghostSplits[next];
+  } else if (next > 0 && next <= ghostSplits.length) {
+    deltaMs = playerSplits[next - 1] - ghostSplits[next - 1];
+  }
+
+  return { matches, total: ghostSplits.length, deltaMs };
+}
+
+/**
+ * Format a gap to the ghost, e.g. "−3.2s ahead" or "+1.5s behind"
+ */
+export function formatGhostDelta(deltaMs: number): string {
+  const seconds = (Math.abs(deltaMs) / 1000).toFixed(1);
+  if (seconds === '0.0') return 'Level with your ghost';
+  return deltaMs < 0 ? `−${seconds}s ahead` : `+${seconds}s behind`;
+}
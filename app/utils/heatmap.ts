@@ -0,0 +1,137 @@
+import { Card, GameEvent } from '../types/game';
+import { analyzeTurns } from './moveAnalysis';
+
+/**
+ * Per-position statistics for the post-game heatmap, rebuilt from the replay log
+ * so a board's weak spots can be read off its final layout.
+ */
+
+export type HeatmapMetric = 'flips' | 'timeToMatch' | 'errors';
+
+export interface PositionHeat {
+  flips: number;
+  secondsToMatch: number | null; // Game-clock seconds from first reveal to match; null while unmatched
+  errors: number; // Memory-error turns this card was turned over in
+}
+
+export const HEATMAP_METRICS: Record<HeatmapMetric, { label: string; description: string }> = {
+  flips: {
+    label: 'Flip Count',
+    description: 'How many times each card was turned over'
+  },
+  timeToMatch: {
+    label: 'Time to First Match',
+    description: 'Seconds from a card\'s first reveal until it was matched'
+  },
+  errors: {
+    label: 'Errors',
+    description: 'Memory errors each card was part of'
+  }
+};
+
+export const HEATMAP_METRIC_ORDER: HeatmapMetric[] = ['flips', 'timeToMatch', 'errors'];
+
+/**
+ * Tally flips, time to match and memory errors for every card in a replay log
+ * Blank cells are left out; the game clock comes from UPDATE_TIME, so pauses don't count
+ */
+export function buildHeatmap(history: GameEvent[]): Record<number, PositionHeat> {
+  let heatmap: Record<number, PositionHeat> = {};
+  let firstSeen: Record<number, number> = {};
+  let clock = 0;
+
+  history.forEach(event => {
+    switch (event.type) {
+      case 'START_GAME': {
+        heatmap = {};
+        firstSeen = {};
+        clock = 0;
+        const hasPreview = (event.payload?.preview ?? 0) > 0;
+        (event.payload?.board ?? []).forEach(card => {
+          if (card.isBlank) return;
+          heatmap[card.id] = { flips: 0, secondsToMatch: null, errors: 0 };
+          // The memorize phase reveals every card before the clock starts
+          if (hasPreview) firstSeen[card.id] = 0;
+        });
+        break;
+      }
+      case 'UPDATE_TIME':
+        clock = event.payload?.timeElapsed ?? clock;
+        break;
+      case 'FLIP_CARD': {
+        const cardId = event.payload?.cardId ?? -1;
+        if (!heatmap[cardId]) break;
+        heatmap[cardId].flips++;
+        firstSeen[cardId] = firstSeen[cardId] ?? clock;
+        break;
+      }
+      case 'MATCH_CARDS':
+        (event.payload?.cardIds ?? []).forEach(cardId => {
+          if (!heatmap[cardId]) return;
+          heatmap[cardId].secondsToMatch = clock - (firstSeen[cardId] ?? clock);
+        });
+        break;
+    }
+  });
+
+  analyzeTurns(history)
+    .filter(turn => turn.kind === 'memoryError')
+    .forEach(turn => turn.flips.forEach(flip => {
+      if (heatmap[flip.cardId]) heatmap[flip.cardId].errors++;
+    }));
+
+  return heatmap;
+}
+
+/**
+ * The value shown for a position, or null when there is nothing to show
+ */
+export function getHeatValue(heat: PositionHeat | undefined, metric: HeatmapMetric): number | null {
+  if (!heat) return null;
+  switch (metric) {
+    case 'flips':
+      return heat.flips;
+    case 'timeToMatch':
+      return heat.secondsToMatch;
+    case 'errors':
+      return heat.errors;
+  }
+}
+
+/**
+ * Find the row and column with the highest average value, 0-based
+ * Positions without a value are skipped; null when no line has one
+ */
+export function getHottestLines(
+  board: Card[],
+  cols: number,
+  heatmap: Record<number, PositionHeat>,
+  metric: HeatmapMetric
+): { row: number | null; column: number | null } {
+  const rows = new Map<number, number[]>();
+  const columns = new Map<number, number[]>();
+
+  board.forEach((card, index) => {
+    const value = getHeatValue(heatmap[card.id], metric);
+    if (value === null) return;
+    const row = Math.floor(index / cols);
+    const column = index % cols;
+    rows.set(row, [...(rows.get(row) ?? []), value]);
+    columns.set(column, [...(columns.get(column) ?? []), value]);
+  });
+
+  const hottest = (lines: Map<number, number[]>) => {
+    let best: number | null = null;
+    let bestAverage = 0;
+    lines.forEach((values, line) => {
+      const average = values.reduce((sum, value) => sum + value, 0) / values.length;
+      if (average > bestAverage) {
+        best = line;
+        bestAverage = average;
+      }
+    });
+    return best;
+  };
+
+  return { row: hottest(rows), column: hottest(columns) };
+}
@@ -0,0 +1,146 @@
+import { Card, GameEvent, MemoryStats, SetSize, TurnKind } from '../types/game';
+
+/**
+ * Post-hoc analysis of a game's flips, separating memory skill from shuffle luck.
+ * Works from the replay log alone, so it can be run on live games and imported replays alike.
+ */
+
+export interface MoveAnalysis {
+  luckyMatches: number; // Sets completed by turning over cards nobody had seen yet
+  avoidableMistakes: number; // Mismatches made while a complete set was already known
+}
+
+// Every move taken at face value: no luck to discount and no known mistakes
+export const EMPTY_MOVE_ANALYSIS: MoveAnalysis = {
+  luckyMatches: 0,
+  avoidableMistakes: 0
+};
+
+export const TURN_KINDS: TurnKind[] = ['remembered', 'lucky', 'exploring', 'memoryError'];
+
+export interface FlipInsight {
+  cardId: number;
+  emoji: string;
+  seenBefore: boolean; // The card had been face-up earlier in the game
+  partnerKnown: boolean; // Every card still needed to complete its set had been seen
+}
+
+export interface TurnInsight {
+  turn: number; // 1-based, matching the move counter
+  kind: TurnKind;
+  flips: FlipInsight[];
+}
+
+/**
+ * Classify every turn in a replay log
+ * A turn is resolved by the flip that completes or breaks the set, so the log
+ * doesn't need to include the MATCH_CARDS/UNMATCH_CARDS that follow it
+ */
+export function analyzeTurns(history: GameEvent[]): TurnInsight[] {
+  const cards = new Map<number, Card>();
+  const seen = new Set<number>();
+  const matched = new Set<number>();
+  let setSize: SetSize = 2;
+
+  let turns: TurnInsight[] = [];
+  let flips: FlipInsight[] = [];
+  let knownSetAtStart = false; // A whole set was known before the first flip
+  let partnersKnown = false; // The rest of the first card's set was known mid-turn
+  let flippedBlind = false; // A card after the first had never been seen
+
+  const hasKnownSet = () => {
+    const counts = new Map<string, number>();
+    seen.forEach(id => {
+      const card = cards.get(id);
+      if (!card || matched.has(id)) return;
+      counts.set(card.emoji, (counts.get(card.emoji) ?? 0) + 1);
+    });
+    return Array.from(counts.values()).some(count => count >= setSize);
+  };
+
+  // Cards of the same set that aren't already face-up this turn
+  const getPartners = (card: Card, faceUp: number[]) =>
+    Array.from(cards.values()).filter(other =>
+      other.emoji === card.emoji && other.id !== card.id && !faceUp.includes(other.id)
+    );
+
+  const resolveTurn = (kind: TurnKind) => {
+    turns.push({ turn: turns.length + 1, kind, flips });
+    flips = [];
+  };
+
+  history.forEach(event => {
+    if (event.type === 'START_GAME') {
+      cards.clear();
+      seen.clear();
+      matched.clear();
+      turns = [];
+      flips = [];
+      setSize = event.payload?.setSize ?? 2;
+
+      (event.payload?.board ?? []).forEach(card => {
+        cards.set(card.id, card);
+        if (card.isBlank) {
+          matched.add(card.id);
+        } else if ((event.payload?.preview ?? 0) > 0) {
+          // The memorize phase shows every card
+          seen.add(card.id);
+        }
+      });
+      return;
+    }
+
+    if (event.type !== 'FLIP_CARD') return;
+    const card = cards.get(event.payload?.cardId ?? -1);
+    if (!card) return;
+
+    const turn = flips.map(flip => flip.cardId);
+    if (turn.length === 0) {
+      knownSetAtStart = hasKnownSet();
+      partnersKnown = false;
+      flippedBlind = false;
+    } else {
+      const first = cards.get(turn[0]);
+      const partners = first ? getPartners(first, turn) : [];
+      partnersKnown = partnersKnown || partners.every(partner => seen.has(partner.id));
+      flippedBlind = flippedBlind || !seen.has(card.id);
+    }
+
+    flips.push({
+      cardId: card.id,
+      emoji: card.emoji,
+      seenBefore: seen.has(card.id),
+      partnerKnown: getPartners(card, turn).every(partner => seen.has(partner.id))
+    });
+    seen.add(card.id);
+
+    const isMismatch = flips.some(flip => flip.emoji !== card.emoji);
+    if (isMismatch) {
+      resolveTurn(knownSetAtStart || partnersKnown ? 'memoryError' : 'exploring');
+    } else if (flips.length === setSize) {
+      flips.forEach(flip => matched.add(flip.cardId));
+      resolveTurn(flippedBlind ? 'lucky' : 'remembered');
+    }
+  });
+
+  return turns;
+}
+
+/**
+ * Count the turns of each kind
+ */
+export function getMemoryStats(turns: TurnInsight[]): MemoryStats {
+  const stats: MemoryStats = { remembered: 0, lucky: 0, exploring: 0, memoryError: 0 };
+  turns.forEach(turn => {
+    stats[turn.kind]++;
+  });
+  return stats;
+}
+
+/**
+ * Count the lucky matches and avoidable mistakes in a replay log
+ */
+export function analyzeMoves(history: GameEvent[]): MoveAnalysis {
+  const stats = getMemoryStats(analyzeTurns(history));
+  return { luckyMatches: stats.lucky, avoidableMistakes: stats.memoryError };
+}
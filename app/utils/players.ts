@@ -0,0 +1,66 @@
+import { Player, PlayerColor, PlayerSetup } from '../types/game';
+
+export const PLAYER_LIMITS = {
+  MIN_PLAYERS: 2,
+  MAX_PLAYERS: 4,
+  MAX_NAME_LENGTH: 16
+};
+
+export const PLAYER_COLORS: PlayerColor[] = ['blue', 'red', 'green', 'amber'];
+
+// Tailwind classes per colour; spelled out in full so they survive class purging
+export const PLAYER_COLOR_STYLES: Record<PlayerColor, { swatch: string; badge: string; ring: string }> = {
+  blue: { swatch: 'bg-blue-500', badge: 'bg-blue-100 text-blue-800 border-blue-300', ring: 'ring-blue-500' },
+  red: { swatch: 'bg-red-500', badge: 'bg-red-100 text-red-800 border-red-300', ring: 'ring-red-500' },
+  green: { swatch: 'bg-green-500', badge: 'bg-green-100 text-green-800 border-green-300', ring: 'ring-green-500' },
+  amber: { swatch: 'bg-amber-500', badge: 'bg-amber-100 text-amber-800 border-amber-300', ring: 'ring-amber-500' }
+};
+
+/**
+ * Default names and colours for a hot-seat game of the given size
+ */
+export function getDefaultPlayerSetups(count: number): PlayerSetup[] {
+  return Array.from({ length: count }, (_, index) => ({
+    name: `Player ${index + 1}`,
+    color: PLAYER_COLORS[index % PLAYER_COLORS.length]
+  }));
+}
+
+/**
+ * Turn setup entries into players with empty tallies
+ * Blank names fall back to "Player N"; more than the maximum number of players are dropped
+ * Fewer than the minimum means a solo game, which has no players
+ */
+export function createPlayers(setups: PlayerSetup[]): Player[] {
+  if (setups.length < PLAYER_LIMITS.MIN_PLAYERS) return [];
+  return setups.slice(0, PLAYER_LIMITS.MAX_PLAYERS).map((setup, index) => ({
+    ...setup,
+    name: setup.name.trim().slice(0, PLAYER_LIMITS.MAX_NAME_LENGTH) || `Player ${index + 1}`,
+    matches: 0,
+    score: 0
+  }));
+}
+
+/**
+ * Get the player(s) with the most matches
+ * More than one entry means the game is tied; score is not used as a tie-breaker
+ */
+export function getWinners(players: Player[]): Player[] {
+  if (players.length === 0) return [];
+  const mostMatches = Math.max(...players.map(player => player.matches));
+  return players.filter(player => player.matches === mostMatches);
+}
+
+/**
+ * Players ordered for a results table: most matches first, then score
+ */
+export function getStandings(players: Player[]): Player[] {
+  return [...players].sort((a, b) => b.matches - a.matches || b.score - a.score);
+}
+
+/**
+ * Strip the tallies from players so the same table can start another game
+ */
+export function getPlayerSetups(players: Player[]): PlayerSetup[] {
+  return players.map(({ name, color, bot }) => (bot ? { name, color, bot } : { name, color }));
+}
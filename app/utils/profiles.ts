@@ -0,0 +1,154 @@
+import { PlayerProfile } from '../types/game';
+import { RandomSource } from './random';
+
+/**
+ * Player profiles: who is playing on a shared device
+ * Each profile's data lives under its own localStorage keys; the first profile keeps the
+ * original, unsuffixed keys so data from before profiles belongs to it without being moved
+ */
+export const PROFILES_VERSION = 1;
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const PROFILE_LIMITS = {
+  MAX_PROFILES: 8,
+  MAX_NAME_LENGTH: 20
+};
+
+export const PROFILE_AVATARS = ['🙂', '🦊', '🐼', '🐸', '🦄', '🐙', '🚀', '🌈', '⚽', '🎸', '🌵', '🍩'];
+
+export interface ProfileRegistry {
+  version: number;
+  activeId: string;
+  profiles: PlayerProfile[];
+}
+
+/**
+ * The registry for a device that has no profiles yet: its existing data becomes the first profile
+ */
+export function createDefaultRegistry(now: Date = new Date()): ProfileRegistry {
+  return {
+    version: PROFILES_VERSION,
+    activeId: DEFAULT_PROFILE_ID,
+    profiles: [{ id: DEFAULT_PROFILE_ID, name: 'Player 1', avatar: PROFILE_AVATARS[0], createdAt: now.toISOString() }]
+  };
+}
+
+/**
+ * The localStorage key holding one profile's copy of some data
+ */
+export function getProfileKey(baseKey: string, profileId: string): string {
+  return profileId === DEFAULT_PROFILE_ID ? baseKey : `${baseKey}:${profileId}`;
+}
+
+function isProfile(value: unknown): value is PlayerProfile {
+  const profile = value as PlayerProfile;
+  return typeof value === 'object' && value !== null &&
+    typeof profile.id === 'string' && profile.id !== '' &&
+    typeof profile.name === 'string' &&
+    typeof profile.avatar === 'string' &&
+    typeof profile.createdAt === 'string';
+}
+
+/**
+ * Parse the stored registry; null when there is none or it can't be read
+ */
+export function parseProfileRegistry(json: string | null): ProfileRegistry | null {
+  if (!json) return null;
+
+  let parsed: Partial<ProfileRegistry>;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return null;
+  }
+
+  if (!parsed || typeof parsed !== 'object' || parsed.version !== PROFILES_VERSION) return null;
+  if (!Array.isArray(parsed.profiles) || parsed.profiles.length === 0 || !parsed.profiles.every(isProfile)) return null;
+
+  const { profiles } = parsed;
+  const activeId = profiles.some(profile => profile.id === parsed.activeId) ? parsed.activeId! : profiles[0].id;
+  return { version: PROFILES_VERSION, activeId, profiles };
+}
+
+// Trim and cap a name; an empty name is an error rather than a silent default
+function normalizeProfileName(name: string): string {
+  const trimmed = name.trim().slice(0, PROFILE_LIMITS.MAX_NAME_LENGTH);
+  if (!trimmed) {
+    throw new Error('Profile name cannot be empty');
+  }
+  return trimmed;
+}
+
+/**
+ * Add a profile and make it the active one
+ */
+export function addProfile(
+  registry: ProfileRegistry,
+  name: string,
+  avatar: string,
+  random: RandomSource = Math.random,
+  now: Date = new Date()
+): ProfileRegistry {
+  if (registry.profiles.length >= PROFILE_LIMITS.MAX_PROFILES) {
+    throw new Error(`A device can have at most ${PROFILE_LIMITS.MAX_PROFILES} profiles`);
+  }
+
+  const profile: PlayerProfile = {
+    id: Math.floor(random() * 36 ** 8).toString(36).padStart(8, '0'),
+    name: normalizeProfileName(name),
+    avatar,
+    createdAt: now.toISOString()
+  };
+  return { ...registry, activeId: profile.id, profiles: [...registry.profiles, profile] };
+}
+
+/**
+ * Rename a profile or change its avatar
+ */
+export function updateProfile(
+  registry: ProfileRegistry,
+  id: string,
+  updates: Partial<Pick<PlayerProfile, 'name' | 'avatar'>>
+): ProfileRegistry {
+  const name = updates.name !== undefined ? normalizeProfileName(updates.name) : undefined;
+  return {
+    ...registry,
+    profiles: registry.profiles.map(profile =>
+      profile.id === id
+        ? { ...profile, ...(name !== undefined ? { name } : {}), ...(updates.avatar ? { avatar: updates.avatar } : {}) }
+        : profile
+    )
+  };
+}
+
+/**
+ * Remove a profile; deleting the active one switches to the first that remains
+ * The last profile can't be deleted
+ */
+export function removeProfile(registry: ProfileRegistry, id: string): ProfileRegistry {
+  const profiles = registry.profiles.filter(profile => profile.id !== id);
+  if (profiles.length === 0) {
+    throw new Error('The last profile cannot be deleted');
+  }
+  return {
+    ...registry,
+    activeId: registry.activeId === id ? profiles[0].id : registry.activeId,
+    profiles
+  };
+}
+
+/**
+ * File name for a profile's exported stats, e.g. emoji-memory-anna-2026-03-01.json
+ */
+export function getProfileExportFileName(profile: PlayerProfile, date: Date = new Date()): string {
+  const slug = profile.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'profile';
+  return `emoji-memory-${slug}-${date.toISOString().slice(0, 10)}.json`;
+}
+
+/**
+ * Switch to a profile; unknown ids leave the registry unchanged
+ */
+export function setActiveProfile(registry: ProfileRegistry, id: string): ProfileRegistry {
+  return registry.profiles.some(profile => profile.id === id) ? { ...registry, activeId: id } : registry;
+}
@@ -0,0 +1,69 @@
+/**
+ * Seedable pseudo-random number generation.
+ * Boards generated from the same seed are identical, which makes games
+ * reproducible and shareable.
+ */
+
+/**
+ * A function returning a float in [0, 1), compatible with Math.random
+ */
+export type RandomSource = () => number;
+
+export const MAX_SEED = 0xffffffff;
+
+/**
+ * Create a deterministic random source using the Mulberry32 algorithm
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generate a new random 32-bit seed
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * (MAX_SEED + 1)) >>> 0;
+}
+
+/**
+ * Format a seed as a short shareable code (base 36, uppercase)
+ */
+export function formatSeed(seed: number): string {
+  return (seed >>> 0).toString(36).toUpperCase();
+}
+
+/**
+ * Parse a shareable seed code back into a seed
+ * Returns null when the input is not a valid seed code
+ */
+export function parseSeed(input: string): number | null {
+  const normalized = input.trim().toLowerCase();
+  if (!/^[0-9a-z]{1,7}$/.test(normalized)) {
+    return null;
+  }
+
+  const seed = parseInt(normalized, 36);
+  return seed <= MAX_SEED ? seed : null;
+}
+
+/**
+ * Derive a stable seed from a string (FNV-1a hash)
+ */
+export function hashStringToSeed(value: string): number {
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return hash >>> 0;
+}
@@ -0,0 +1,235 @@
+import { Card, Difficulty, GameEvent, GameState, PlayerColor, SetSize } from '../types/game';
+import { RECORDED_ACTIONS, gameReducer, initialGameState } from './gameReducer';
+import { getDifficultyConfig, isValidDifficulty } from './difficulty';
+import { PLAYER_COLORS } from './players';
+import { BOT_STRENGTHS } from './bot';
+import {
+  amount,
+  count,
+  dateKey,
+  difficulty,
+  flag,
+  is,
+  listOf,
+  optional,
+  Rule,
+  scoringRules,
+  setSize,
+  shape,
+  text,
+  validate
+} from './validation';
+
+/**
+ * Replay file format version
+ * Bump this whenever the shape of GameReplay or GameEvent changes
+ */
+export const REPLAY_VERSION = 1;
+
+// Pauses are collapsed to this length during playback so viewers don't wait on idle time
+const PAUSED_GAP_MS = 1000;
+
+export interface GameReplay {
+  version: number;
+  createdAt: string;
+  difficulty: Difficulty;
+  categoryId: string;
+  seed: number | null;
+  events: GameEvent[];
+}
+
+export interface ReplayFrame {
+  state: GameState;
+  event: GameEvent;
+  playbackTime: number; // ms since the start of the replay
+}
+
+// The START_GAME payload, checked before the reducer and viewer trust it
+const validateStartPayload = shape({
+  difficulty,
+  category: shape({ id: text, name: text, emojis: listOf(text), description: text }),
+  board: listOf(shape({
+    id: count,
+    emoji: text,
+    isFlipped: flag,
+    isMatched: flag,
+    pairId: is(Number.isInteger, 'a whole number'),
+    isBlank: optional(flag)
+  })),
+  setSize: optional(setSize),
+  seed: optional(is(Number.isInteger, 'a whole number')),
+  dailyDate: optional(dateKey),
+  timeLimit: optional(amount),
+  lives: optional(count),
+  preview: optional(amount),
+  players: optional(listOf(shape({
+    name: text,
+    color: is(value => PLAYER_COLORS.includes(value as PlayerColor), 'a player color'),
+    bot: optional(is(value => typeof value === 'string' && Object.prototype.hasOwnProperty.call(BOT_STRENGTHS, value), 'a computer player strength'))
+  }))),
+  scoringRules: optional(scoringRules)
+});
+
+// Payload rules for the events after START_GAME, checked against the replay's own board
+function createEventPayloadRules(board: Card[], setSize: SetSize): Partial<Record<GameEvent['type'], Rule>> {
+  const cardIds = new Set(board.map(card => card.id));
+  const card = is(value => cardIds.has(value as number), 'a card on the board');
+  const cards = (min: number, max: number): Rule => (value, path, issues) => {
+    if (!Array.isArray(value) || value.length < min || value.length > max) {
+      issues.push(`${path} must list ${min === max ? min : `${min} to ${max}`} cards`);
+      return;
+    }
+    listOf(card)(value, path, issues);
+  };
+
+  return {
+    FLIP_CARD: shape({ cardId: card }),
+    MATCH_CARDS: shape({ cardIds: cards(setSize, setSize) }),
+    // A mismatch shows as soon as one card breaks the set, so it can be short of a full set
+    UNMATCH_CARDS: shape({ cardIds: cards(2, setSize) }),
+    UPDATE_TIME: shape({ timeElapsed: amount, timeElapsedMs: optional(amount) }),
+    RECORD_SPLIT: shape({ timeElapsedMs: amount }),
+    FAIL_GAME: shape({ reason: is(value => value === 'timeout' || value === 'lives', 'a failure reason') })
+  };
+}
+
+/**
+ * Create a replay from a game's recorded history
+ */
+export function createReplay(gameState: GameState): GameReplay {
+  return {
+    version: REPLAY_VERSION,
+    createdAt: new Date().toISOString(),
+    difficulty: gameState.difficulty,
+    categoryId: gameState.category.id,
+    seed: gameState.seed,
+    events: gameState.history
+  };
+}
+
+/**
+ * Serialize a replay to a JSON file body
+ */
+export function serializeReplay(replay: GameReplay): string {
+  return JSON.stringify(replay);
+}
+
+/**
+ * Build a download file name for a replay
+ */
+export function getReplayFileName(replay: GameReplay): string {
+  const date = replay.createdAt.slice(0, 10);
+  return `memory-replay-${replay.difficulty}-${replay.categoryId}-${date}.json`;
+}
+
+/**
+ * Parse and validate a replay file
+ * Throws an Error with a player-facing message when the file can't be used
+ */
+export function parseReplay(json: string): GameReplay {
+  let parsed: Partial<GameReplay>;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Replay file is not valid JSON');
+  }
+
+  if (!parsed || typeof parsed !== 'object' || typeof parsed.version !== 'number') {
+    throw new Error('Replay file is missing a version');
+  }
+
+  if (parsed.version > REPLAY_VERSION) {
+    throw new Error(`Replay was created by a newer version of the game (v${parsed.version})`);
+  }
+
+  if (parsed.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: v${parsed.version}`);
+  }
+
+  if (!isValidDifficulty(parsed.difficulty)) {
+    throw new Error('Replay has an unknown difficulty');
+  }
+
+  const events = parsed.events;
+  if (!Array.isArray(events) || events.length === 0) {
+    throw new Error('Replay contains no events');
+  }
+
+  const [startEvent] = events;
+  if (startEvent.type !== 'START_GAME' || !Array.isArray(startEvent.payload?.board)) {
+    throw new Error('Replay must begin with a START_GAME event that includes the board');
+  }
+
+  if (events.some(event => typeof event.type !== 'string' || typeof event.timestamp !== 'number')) {
+    throw new Error('Replay contains malformed events');
+  }
+
+  const startIssue = validate(validateStartPayload, startEvent.payload, 'start');
+  if (startIssue) {
+    throw new Error(`Replay has an invalid start: ${startIssue}`);
+  }
+
+  const { rows, cols } = getDifficultyConfig(startEvent.payload.difficulty!);
+  if (startEvent.payload.board!.length !== rows * cols) {
+    throw new Error(`Replay board has ${startEvent.payload.board!.length} cards, but a ${cols}×${rows} board needs ${rows * cols}`);
+  }
+
+  // The game only ever logs its recorded actions, and a log holds a single start
+  const unexpected = events.slice(1).find(event => event.type === 'START_GAME' || !RECORDED_ACTIONS.has(event.type));
+  if (unexpected) {
+    throw new Error(`Replay contains an event the game never records: ${unexpected.type}`);
+  }
+
+  const payloadRules = createEventPayloadRules(startEvent.payload.board!, startEvent.payload.setSize ?? 2);
+  for (const [index, event] of events.entries()) {
+    const rule = payloadRules[event.type];
+    const eventIssue = rule && validate(rule, event.payload, `events[${index}].payload`);
+    if (eventIssue) {
+      throw new Error(`Replay has an invalid event: ${eventIssue}`);
+    }
+  }
+
+  return {
+    version: parsed.version,
+    createdAt: typeof parsed.createdAt === 'string' ? parsed.createdAt : new Date().toISOString(),
+    difficulty: parsed.difficulty,
+    categoryId: typeof parsed.categoryId === 'string' ? parsed.categoryId : '',
+    seed: typeof parsed.seed === 'number' ? parsed.seed : null,
+    events
+  };
+}
+
+/**
+ * Re-run a replay through the game reducer, producing one frame per event
+ */
+export function buildReplayFrames(replay: GameReplay): ReplayFrame[] {
+  const frames: ReplayFrame[] = [];
+  let state = initialGameState;
+  let playbackTime = 0;
+  let previous: GameEvent | null = null;
+
+  for (const event of replay.events) {
+    state = gameReducer(state, { type: event.type, payload: event.payload, timestamp: event.timestamp });
+
+    if (previous) {
+      const gap = Math.max(0, event.timestamp - previous.timestamp);
+      playbackTime += previous.type === 'PAUSE_GAME' ? Math.min(gap, PAUSED_GAP_MS) : gap;
+    }
+
+    frames.push({ state, event, playbackTime });
+    previous = event;
+  }
+
+  return frames;
+}
+
+/**
+ * Find the last frame at or before a playback time
+ */
+export function getFrameIndexAtTime(frames: ReplayFrame[], playbackTime: number): number {
+  let index = 0;
+  while (index + 1 < frames.length && frames[index + 1].playbackTime <= playbackTime) {
+    index += 1;
+  }
+  return index;
+}
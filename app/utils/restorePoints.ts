@@ -0,0 +1,137 @@
+import { Difficulty, LocalStorageData } from '../types/game';
+import { addDaysToDateKey, getDateKey } from './dailyChallenge';
+import { parseStoredData, serializeStoredData } from './storageSchema';
+
+/**
+ * Restore points: timestamped snapshots of the saved game data, taken once a day
+ * and before anything that overwrites or wipes it
+ */
+export const RESTORE_POINT_LIMITS = {
+  RECENT: 10, // The newest snapshots are always kept
+  DAILY_DAYS: 7 // Plus the newest snapshot of each of this many calendar days
+};
+
+export type RestorePointReason = 'daily' | 'clearAllData' | 'clearStats' | 'import' | 'restore';
+
+export const RESTORE_POINT_REASONS: Record<RestorePointReason, string> = {
+  daily: 'Daily snapshot',
+  clearAllData: 'Before clearing all data',
+  clearStats: 'Before clearing statistics',
+  import: 'Before importing data',
+  restore: 'Before restoring a snapshot'
+};
+
+export interface RestorePoint {
+  createdAt: string; // Also identifies the point
+  reason: RestorePointReason;
+  data: string; // The data in its stored form, so restoring goes through the usual migrations
+}
+
+export interface RestorePointSummary {
+  gamesPlayed: number;
+  gamesWon: number;
+  bestScore: number | null;
+  bestTimes: Array<{ difficulty: Difficulty; time: number }>;
+  data: LocalStorageData;
+}
+
+// Whether there is anything in the data worth keeping a snapshot of
+function hasProgress(data: LocalStorageData): boolean {
+  return data.gameStats.totalGames > 0 ||
+    data.highScores.length > 0 ||
+    data.dailyHistory.length > 0 ||
+    data.customPresets.length > 0 ||
+    data.bestRuns.length > 0;
+}
+
+/**
+ * Snapshot the data
+ */
+export function createRestorePoint(data: LocalStorageData, reason: RestorePointReason, now: Date = new Date()): RestorePoint {
+  return { createdAt: now.toISOString(), reason, data: serializeStoredData(data) };
+}
+
+/**
+ * Drop snapshots beyond the newest RECENT, except the newest of each of the last DAILY_DAYS days
+ * Returns the points newest first
+ */
+export function pruneRestorePoints(points: RestorePoint[], now: Date = new Date()): RestorePoint[] {
+  const sorted = [...points].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const oldestDay = addDaysToDateKey(getDateKey(now), 1 - RESTORE_POINT_LIMITS.DAILY_DAYS);
+  const daysKept = new Set<string>();
+
+  return sorted.filter((point, index) => {
+    const day = getDateKey(new Date(point.createdAt));
+    const isNewestOfDay = day >= oldestDay && !daysKept.has(day);
+    daysKept.add(day);
+    return index < RESTORE_POINT_LIMITS.RECENT || isNewestOfDay;
+  });
+}
+
+/**
+ * Add a snapshot of the data, unless there is nothing to keep or it matches the newest snapshot
+ * Returns the list unchanged when nothing was added
+ */
+export function addRestorePoint(
+  points: RestorePoint[],
+  data: LocalStorageData,
+  reason: RestorePointReason,
+  now: Date = new Date()
+): RestorePoint[] {
+  const point = createRestorePoint(data, reason, now);
+  const newest = pruneRestorePoints(points, now)[0];
+  if (!hasProgress(data) || newest?.data === point.data) return points;
+  return pruneRestorePoints([point, ...points], now);
+}
+
+/**
+ * Whether a snapshot has already been taken on the calendar day of now
+ */
+export function hasRestorePointOn(points: RestorePoint[], now: Date = new Date()): boolean {
+  const today = getDateKey(now);
+  return points.some(point => getDateKey(new Date(point.createdAt)) === today);
+}
+
+/**
+ * Parse the stored list of restore points, skipping any malformed entries
+ */
+export function parseRestorePoints(json: string | null): RestorePoint[] {
+  if (!json) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(parsed)) return [];
+
+  return parsed.filter((point): point is RestorePoint =>
+    typeof point === 'object' && point !== null &&
+    typeof point.createdAt === 'string' && !Number.isNaN(Date.parse(point.createdAt)) &&
+    Object.prototype.hasOwnProperty.call(RESTORE_POINT_REASONS, point.reason) &&
+    typeof point.data === 'string'
+  );
+}
+
+/**
+ * What a snapshot holds; null when its data no longer loads
+ */
+export function summarizeRestorePoint(point: RestorePoint): RestorePointSummary | null {
+  const parsed = parseStoredData(point.data);
+  if (!parsed.ok) return null;
+
+  const { gameStats, highScores } = parsed.data;
+  const bestTimes = Object.entries(gameStats.bestTimes).map(([difficulty, time]) => ({
+    difficulty: difficulty as Difficulty,
+    time: time as number
+  }));
+
+  return {
+    gamesPlayed: gameStats.totalGames,
+    gamesWon: gameStats.gamesWon,
+    bestScore: highScores.length > 0 ? Math.max(...highScores.map(score => score.score)) : null,
+    bestTimes,
+    data: parsed.data
+  };
+}
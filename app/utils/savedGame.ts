@@ -0,0 +1,95 @@
+import { GameEvent, GameState } from '../types/game';
+import { isValidDifficulty } from './difficulty';
+
+/**
+ * Snapshots of an unfinished game, kept so a reload or closed tab doesn't lose it
+ * Bump SAVED_GAME_VERSION whenever the shape of GameState changes
+ */
+export const SAVED_GAME_VERSION = 2;
+
+export interface SavedGame {
+  version: number;
+  savedAt: string;
+  state: GameState;
+}
+
+/**
+ * Whether a game is still in progress and worth saving
+ */
+export function isResumable(state: GameState): boolean {
+  return (state.gameStatus === 'playing' || state.gameStatus === 'paused') && state.history.length > 0;
+}
+
+/**
+ * Snapshot a game in progress
+ */
+export function createSavedGame(state: GameState): SavedGame {
+  return {
+    version: SAVED_GAME_VERSION,
+    savedAt: new Date().toISOString(),
+    state
+  };
+}
+
+/**
+ * Parse a stored snapshot; null when there is none or it can't be resumed
+ */
+export function parseSavedGame(json: string | null): SavedGame | null {
+  if (!json) return null;
+
+  let parsed: Partial<SavedGame>;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return null;
+  }
+
+  if (!parsed || typeof parsed !== 'object' || parsed.version !== SAVED_GAME_VERSION) return null;
+
+  const state = parsed.state;
+  if (!state || !isValidDifficulty(state.difficulty) || !Array.isArray(state.board) || state.board.length === 0) {
+    return null;
+  }
+  if (!Array.isArray(state.history) || state.history[0]?.type !== 'START_GAME' || !isResumable(state)) {
+    return null;
+  }
+
+  return {
+    version: parsed.version,
+    savedAt: typeof parsed.savedAt === 'string' ? parsed.savedAt : new Date().toISOString(),
+    state
+  };
+}
+
+// Drop the flips of a turn that was never resolved, so the log ends on a whole turn
+function dropUnresolvedFlips(history: GameEvent[]): GameEvent[] {
+  let turnStart = 0;
+  history.forEach((event, index) => {
+    if (event.type === 'MATCH_CARDS' || event.type === 'UNMATCH_CARDS' || event.type === 'START_GAME') {
+      turnStart = index + 1;
+    }
+  });
+  return history.filter((event, index) => index < turnStart || event.type !== 'FLIP_CARD');
+}
+
+/**
+ * The state to resume a saved game from
+ * A turn left half-flipped is turned back over, and the game comes back paused
+ */
+export function getResumeState(savedGame: SavedGame): GameState {
+  const { state } = savedGame;
+  const history = dropUnresolvedFlips(state.history);
+
+  // Log the time away as a pause so replays skip over it
+  if (state.gameStatus !== 'paused') {
+    history.push({ type: 'PAUSE_GAME', timestamp: history[history.length - 1].timestamp });
+  }
+
+  return {
+    ...state,
+    board: state.board.map(card => (card.isFlipped && !card.isMatched ? { ...card, isFlipped: false } : card)),
+    flippedCards: [],
+    gameStatus: 'paused',
+    history
+  };
+}
@@ -1,30 +1,88 @@
-import { Difficulty, GameStats, DIFFICULTY_CONFIGS } from '../types/game';
+import { BuiltInDifficulty, Difficulty, GameStats, SetSize } from '../types/game';
+import { getTotalSets } from './gameLogic';
+import { getDifficultyConfig, interpolateByCellCount, isBuiltInDifficulty } from './difficulty';
+import { EMPTY_MOVE_ANALYSIS, MoveAnalysis } from './moveAnalysis';
 
 /**
  * Scoring system configuration
  */
 export const SCORING_CONFIG = {
-  BASE_MATCH_POINTS: 100,           // Base points for each successful match
+  BASE_MATCH_POINTS: 100,           // Base points per extra card in each successful match
   PERFECT_MATCH_BONUS: 500,         // Bonus for completing without mistakes
   TIME_BONUS_MAX: 1000,             // Maximum time bonus points
   TIME_BONUS_THRESHOLD: 300,        // Time in seconds for maximum bonus (5 minutes)
-  MOVE_PENALTY_MULTIPLIER: 10,      // Points deducted per move beyond optimal
+  MOVE_PENALTY_MULTIPLIER: 10,      // Points per move under/over the expected moves
+  AVOIDABLE_MISTAKE_PENALTY: 25,    // Points deducted per mismatch made while the match was known
+  PERFECT_MOVE_TOLERANCE: 0.1,      // Luck-free moves may exceed the expectation by this fraction in a perfect game
   DIFFICULTY_MULTIPLIERS: {
     easy: 1.0,
     medium: 1.5,
     hard: 2.0,
     expert: 2.5
-  } as Record<Difficulty, number>,
+  } as Record<BuiltInDifficulty, number>,
+  MIN_DIFFICULTY_MULTIPLIER: 0.5,   // Floor for custom boards smaller than Easy
   STREAK_BONUS: 50,                 // Bonus points for consecutive matches
-  COMPLETION_BONUS: 200             // Bonus for completing the game
+  COMPLETION_BONUS: 200,            // Bonus for completing the game
+  UNUSED_LIFE_BONUS: 150            // Bonus per life left in limited-lives games
+};
+
+/**
+ * Get the score multiplier for a difficulty
+ * Custom boards are rated by cell count against the built-in boards
+ */
+export function getDifficultyMultiplier(difficulty: Difficulty): number {
+  const { DIFFICULTY_MULTIPLIERS, MIN_DIFFICULTY_MULTIPLIER } = SCORING_CONFIG;
+  if (isBuiltInDifficulty(difficulty)) {
+    return DIFFICULTY_MULTIPLIERS[difficulty];
+  }
+
+  const { rows, cols } = getDifficultyConfig(difficulty);
+  const multiplier = interpolateByCellCount(rows * cols, builtIn => DIFFICULTY_MULTIPLIERS[builtIn]);
+  return Math.max(MIN_DIFFICULTY_MULTIPLIER, Math.round(multiplier * 100) / 100);
+}
+
+/**
+ * Luck-free moves (moves + lucky matches) a perfect-memory player needs, as perSet × sets + offset
+ * Fitted to `npm run simulate`; luck-free counts barely vary with the shuffle
+ */
+export const EXPECTED_MOVES_MODEL: Record<SetSize, { perSet: number; offset: number }> = {
+  2: { perSet: 1.61, offset: 0.2 },
+  3: { perSet: 2.13, offset: 0 },
+  4: { perSet: 2.64, offset: -0.4 }
 };
 
 /**
  * Calculate optimal number of moves for a difficulty
- * Optimal moves = number of pairs (minimum moves if perfect memory)
+ * Optimal moves = number of sets (minimum moves if perfect memory)
+ * This is a lower bound that only a lucky shuffle reaches; scoring uses calculateExpectedMoves
+ */
+export function calculateOptimalMoves(difficulty: Difficulty, setSize: SetSize = 2): number {
+  return getTotalSets(difficulty, setSize);
+}
+
+/**
+ * Calculate the luck-free moves a perfect-memory player needs on average
+ * Never below the optimal moves
+ */
+export function calculateExpectedMoves(difficulty: Difficulty, setSize: SetSize = 2): number {
+  const sets = getTotalSets(difficulty, setSize);
+  const { perSet, offset } = EXPECTED_MOVES_MODEL[setSize];
+  return Math.max(sets, Math.round((perSet * sets + offset) * 10) / 10);
+}
+
+/**
+ * Moves with every lucky match counted as the extra turn it would normally cost
+ */
+export function calculateLuckFreeMoves(moves: number, analysis: MoveAnalysis = EMPTY_MOVE_ANALYSIS): number {
+  return moves + analysis.luckyMatches;
+}
+
+/**
+ * Calculate base points for matched sets
+ * A set of N cards is worth N - 1 pair matches, so triples and quads pay more per set
  */
-export function calculateOptimalMoves(difficulty: Difficulty): number {
-  return DIFFICULTY_CONFIGS[difficulty].pairs;
+export function calculateSetPoints(matchedSets: number, setSize: SetSize = 2): number {
+  return matchedSets * (setSize - 1) * SCORING_CONFIG.BASE_MATCH_POINTS;
 }
 
 /**
@@ -43,30 +101,82 @@ export function calculateTimeBonus(timeElapsed: number): number {
 }
 
 /**
- * Calculate move efficiency bonus/penalty
- * Fewer moves than optimal = bonus, more moves = penalty
+ * Calculate move efficiency bonus/penalty against a perfect-memory player
+ * Fewer moves than expected = bonus, more moves = penalty
+ * Moves spent on avoidable mistakes are left to calculateMistakePenalty, and
+ * lucky matches to calculateLuckAdjustment, so each move is only counted once
  */
-export function calculateMoveEfficiencyScore(moves: number, difficulty: Difficulty): number {
-  const optimalMoves = calculateOptimalMoves(difficulty);
-  const moveDifference = moves - optimalMoves;
-  
-  if (moveDifference <= 0) {
-    // Bonus for efficiency (completing in optimal or fewer moves)
-    return Math.abs(moveDifference) * SCORING_CONFIG.MOVE_PENALTY_MULTIPLIER;
-  } else {
-    // Penalty for extra moves
-    return -moveDifference * SCORING_CONFIG.MOVE_PENALTY_MULTIPLIER;
-  }
+export function calculateMoveEfficiencyScore(
+  moves: number,
+  difficulty: Difficulty,
+  setSize: SetSize = 2,
+  analysis: MoveAnalysis = EMPTY_MOVE_ANALYSIS
+): number {
+  const expectedMoves = calculateExpectedMoves(difficulty, setSize);
+  const movesSaved = expectedMoves - (moves - analysis.avoidableMistakes);
+  return Math.round(movesSaved * SCORING_CONFIG.MOVE_PENALTY_MULTIPLIER);
+}
+
+/**
+ * Take back the moves saved by matching cards nobody had seen yet
+ */
+export function calculateLuckAdjustment(analysis: MoveAnalysis = EMPTY_MOVE_ANALYSIS): number {
+  return analysis.luckyMatches > 0 ? -analysis.luckyMatches * SCORING_CONFIG.MOVE_PENALTY_MULTIPLIER : 0;
+}
+
+/**
+ * Penalty for mismatches made while the matching cards were already known
+ */
+export function calculateMistakePenalty(analysis: MoveAnalysis = EMPTY_MOVE_ANALYSIS): number {
+  return analysis.avoidableMistakes > 0 ? -analysis.avoidableMistakes * SCORING_CONFIG.AVOIDABLE_MISTAKE_PENALTY : 0;
+}
+
+/**
+ * A perfect game has no avoidable mistakes and luck-free moves close to a perfect-memory player's
+ */
+export function isPerfectGame(
+  moves: number,
+  difficulty: Difficulty,
+  setSize: SetSize = 2,
+  analysis: MoveAnalysis = EMPTY_MOVE_ANALYSIS
+): boolean {
+  const allowedMoves = calculateExpectedMoves(difficulty, setSize) * (1 + SCORING_CONFIG.PERFECT_MOVE_TOLERANCE);
+  return analysis.avoidableMistakes === 0 && calculateLuckFreeMoves(moves, analysis) <= allowedMoves;
+}
+
+/**
+ * Calculate bonus for lives left over in limited-lives games
+ * Scaled by difficulty, since larger boards make every life harder to keep
+ */
+export function calculateLivesBonus(livesRemaining: number | null, difficulty: Difficulty): number {
+  if (livesRemaining === null || livesRemaining <= 0) return 0;
+  return Math.round(livesRemaining * SCORING_CONFIG.UNUSED_LIFE_BONUS * getDifficultyMultiplier(difficulty));
 }
 
 /**
  * Calculate difficulty multiplier bonus
  */
 export function calculateDifficultyBonus(baseScore: number, difficulty: Difficulty): number {
-  const multiplier = SCORING_CONFIG.DIFFICULTY_MULTIPLIERS[difficulty];
+  const multiplier = getDifficultyMultiplier(difficulty);
   return Math.round(baseScore * (multiplier - 1));
 }
 
+/**
+ * Calculate the streak bonus for a match that extends a run of consecutive matches
+ * The first match of a run earns nothing; each one after it earns one more STREAK_BONUS
+ */
+export function calculateStreakBonus(consecutiveMatches: number, difficulty: Difficulty): number {
+  if (consecutiveMatches <= 1) return 0;
+  return Math.round((consecutiveMatches - 1) * SCORING_CONFIG.STREAK_BONUS * getDifficultyMultiplier(difficulty));
+}
+
+/**
+ * Calculate the streak bonuses for a whole game from the streak length at each match
+ */
+export function calculateTotalStreakBonus(matchStreaks: number[], difficulty: Difficulty): number {
+  return matchStreaks.reduce((total, streak) => total + calculateStreakBonus(streak, difficulty), 0);
+}
+
 /**
  * Calculate score for a single match
  */
@@ -74,21 +184,11 @@ export function calculateMatchScore(
   difficulty: Difficulty,
   timeElapsed: number,
   totalMoves: number,
-  consecutiveMatches: number = 0
+  consecutiveMatches: number = 0,
+  setSize: SetSize = 2
 ): number {
-  const { BASE_MATCH_POINTS, STREAK_BONUS } = SCORING_CONFIG;
-  
-  let score = BASE_MATCH_POINTS;
-  
-  // Add streak bonus
-  if (consecutiveMatches > 1) {
-    score += (consecutiveMatches - 1) * STREAK_BONUS;
-  }
-  
-  // Apply difficulty multiplier
-  score *= SCORING_CONFIG.DIFFICULTY_MULTIPLIERS[difficulty];
-  
-  return Math.round(score);
+  const score = calculateSetPoints(1, setSize) * getDifficultyMultiplier(difficulty);
+  return Math.round(score) + calculateStreakBonus(consecutiveMatches, difficulty);
 }
 
 /**
@@ -98,34 +198,44 @@ export function calculateGameScore(
   difficulty: Difficulty,
   timeElapsed: number,
   moves: number,
-  matchedPairs: number,
-  isCompleted: boolean = false
+  matchedSets: number,
+  isCompleted: boolean = false,
+  livesRemaining: number | null = null,
+  setSize: SetSize = 2,
+  analysis: MoveAnalysis = EMPTY_MOVE_ANALYSIS,
+  streakBonus: number = 0
 ): number {
-  const { BASE_MATCH_POINTS, COMPLETION_BONUS, PERFECT_MATCH_BONUS } = SCORING_CONFIG;
+  const { COMPLETION_BONUS, PERFECT_MATCH_BONUS } = SCORING_CONFIG;
   
   // Base score from matches
-  let score = matchedPairs * BASE_MATCH_POINTS;
+  let score = calculateSetPoints(matchedSets, setSize);
   
   // Apply difficulty multiplier to base score
-  score *= SCORING_CONFIG.DIFFICULTY_MULTIPLIERS[difficulty];
+  score *= getDifficultyMultiplier(difficulty);
+
+  // Streak bonuses are banked as the matches happen
+  score += streakBonus;
   
   if (isCompleted) {
     // Time bonus for completion
     const timeBonus = calculateTimeBonus(timeElapsed);
     score += timeBonus;
     
-    // Move efficiency bonus/penalty
-    const moveEfficiency = calculateMoveEfficiencyScore(moves, difficulty);
-    score += moveEfficiency;
+    // Move efficiency bonus/penalty, with shuffle luck and memory mistakes split out
+    score += calculateMoveEfficiencyScore(moves, difficulty, setSize, analysis);
+    score += calculateLuckAdjustment(analysis);
+    score += calculateMistakePenalty(analysis);
     
     // Completion bonus
     score += COMPLETION_BONUS;
     
-    // Perfect game bonus (completed in optimal moves)
-    const optimalMoves = calculateOptimalMoves(difficulty);
-    if (moves === optimalMoves) {
+    // Perfect game bonus (perfect-memory play)
+    if (isPerfectGame(moves, difficulty, setSize, analysis)) {
       score += PERFECT_MATCH_BONUS;
     }
+
+    // Unused lives bonus (limited-lives games only)
+    score += calculateLivesBonus(livesRemaining, difficulty);
   }
   
   return Math.max(0, Math.round(score));
@@ -138,9 +248,13 @@ export interface ScoreBreakdown {
   baseScore: number;
   timeBonus: number;
   moveEfficiency: number;
+  luckAdjustment: number;
+  mistakePenalty: number;
   difficultyBonus: number;
+  streakBonus: number;
   completionBonus: number;
   perfectBonus: number;
+  livesBonus: number;
   totalScore: number;
 }
 
@@ -148,56 +262,79 @@ export function calculateScoreBreakdown(
   difficulty: Difficulty,
   timeElapsed: number,
   moves: number,
-  matchedPairs: number,
-  isCompleted: boolean = false
+  matchedSets: number,
+  isCompleted: boolean = false,
+  livesRemaining: number | null = null,
+  setSize: SetSize = 2,
+  analysis: MoveAnalysis = EMPTY_MOVE_ANALYSIS,
+  streakBonus: number = 0
 ): ScoreBreakdown {
-  const { BASE_MATCH_POINTS, COMPLETION_BONUS, PERFECT_MATCH_BONUS } = SCORING_CONFIG;
+  const { COMPLETION_BONUS, PERFECT_MATCH_BONUS } = SCORING_CONFIG;
   
-  const baseScore = matchedPairs * BASE_MATCH_POINTS;
+  const baseScore = calculateSetPoints(matchedSets, setSize);
   const difficultyBonus = calculateDifficultyBonus(baseScore, difficulty);
   
   let timeBonus = 0;
   let moveEfficiency = 0;
+  let luckAdjustment = 0;
+  let mistakePenalty = 0;
   let completionBonus = 0;
   let perfectBonus = 0;
+  let livesBonus = 0;
   
   if (isCompleted) {
     timeBonus = calculateTimeBonus(timeElapsed);
-    moveEfficiency = calculateMoveEfficiencyScore(moves, difficulty);
+    moveEfficiency = calculateMoveEfficiencyScore(moves, difficulty, setSize, analysis);
+    luckAdjustment = calculateLuckAdjustment(analysis);
+    mistakePenalty = calculateMistakePenalty(analysis);
     completionBonus = COMPLETION_BONUS;
     
-    const optimalMoves = calculateOptimalMoves(difficulty);
-    if (moves === optimalMoves) {
+    if (isPerfectGame(moves, difficulty, setSize, analysis)) {
       perfectBonus = PERFECT_MATCH_BONUS;
     }
+
+    livesBonus = calculateLivesBonus(livesRemaining, difficulty);
   }
   
-  const totalScore = Math.max(0, baseScore + difficultyBonus + timeBonus + moveEfficiency + completionBonus + perfectBonus);
+  const totalScore = Math.max(
+    0,
+    baseScore + difficultyBonus + streakBonus + timeBonus + moveEfficiency + luckAdjustment + mistakePenalty +
+      completionBonus + perfectBonus + livesBonus
+  );
   
   return {
     baseScore,
     timeBonus,
     moveEfficiency,
+    luckAdjustment,
+    mistakePenalty,
     difficultyBonus,
+    streakBonus,
     completionBonus,
     perfectBonus,
+    livesBonus,
     totalScore
   };
 }
 
 /**
  * Calculate game efficiency rating (0-100)
+ * Moves are compared luck-free against a perfect-memory player, and each
+ * avoidable mistake counts as an extra move on top of the one it cost
  */
 export function calculateEfficiencyRating(
   difficulty: Difficulty,
   timeElapsed: number,
-  moves: number
+  moves: number,
+  setSize: SetSize = 2,
+  analysis: MoveAnalysis = EMPTY_MOVE_ANALYSIS
 ): number {
-  const optimalMoves = calculateOptimalMoves(difficulty);
+  const expectedMoves = calculateExpectedMoves(difficulty, setSize);
   const { TIME_BONUS_THRESHOLD } = SCORING_CONFIG;
+  const ratedMoves = calculateLuckFreeMoves(moves, analysis) + analysis.avoidableMistakes;
   
   // Move efficiency (0-50 points)
-  const moveEfficiency = Math.max(0, 50 - ((moves - optimalMoves) / optimalMoves) * 25);
+  const moveEfficiency = Math.min(50, Math.max(0, 50 - ((ratedMoves - expectedMoves) / expectedMoves) * 25));
   
   // Time efficiency (0-50 points)
   const timeEfficiency = Math.max(0, 50 - (timeElapsed / TIME_BONUS_THRESHOLD) * 25);
@@ -231,11 +368,13 @@ export function updateGameStats(
   
   // Update best times and moves for this difficulty
   if (isWon) {
-    if (!updatedStats.bestTimes[difficulty] || timeElapsed < updatedStats.bestTimes[difficulty]) {
+    const bestTime = updatedStats.bestTimes[difficulty];
+    if (!bestTime || timeElapsed < bestTime) {
       updatedStats.bestTimes[difficulty] = timeElapsed;
     }
     
-    if (!updatedStats.bestMoves[difficulty] || moves < updatedStats.bestMoves[difficulty]) {
+    const bestMoves = updatedStats.bestMoves[difficulty];
+    if (!bestMoves || moves < bestMoves) {
       updatedStats.bestMoves[difficulty] = moves;
     }
   }
@@ -270,10 +409,19 @@ export function formatScore(score: number): string {
 }
 
 /**
- * Format time for display (MM:SS)
+ * Format time for display (MM:SS); fractions of a second are dropped
  */
 export function formatTime(seconds: number): string {
   const minutes = Math.floor(seconds / 60);
-  const remainingSeconds = seconds % 60;
+  const remainingSeconds = Math.floor(seconds % 60);
   return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Format time to the tenth of a second for display (MM:SS.t)
+ */
+export function formatPreciseTime(seconds: number): string {
+  // Work in whole tenths so float error can't turn 2.3s into 2.2s
+  const tenths = Math.floor(Math.round(seconds * 1000) / 100);
+  return `${formatTime(Math.floor(tenths / 10))}.${tenths % 10}`;
 }
\ No newline at end of file
@@ -0,0 +1,364 @@
+import { Difficulty, GameAction, GameEvent, ScoringRules, SetSize } from '../types/game';
+import { getTotalSets } from './gameLogic';
+import { getDifficultyConfig } from './difficulty';
+import { analyzeMoves } from './moveAnalysis';
+import {
+  calculateScoreBreakdown,
+  calculateSetPoints,
+  calculateStreakBonus,
+  calculateTotalStreakBonus,
+  getDifficultyMultiplier
+} from './scoring';
+
+/**
+ * Scoring rule sets. Every rule set scores a game from its replay log alone,
+ * so live games, replays and imported files are always scored the same way.
+ */
+
+export const DEFAULT_SCORING_RULES: ScoringRules = 'classic';
+
+/**
+ * Settings for the non-classic rule sets; Classic uses SCORING_CONFIG
+ */
+export const RULE_SET_CONFIG = {
+  TIME_ATTACK: {
+    MATCH_POINTS: 25,           // Points per extra card in each match, kept small so the clock decides
+    SECOND_UNDER_PAR_POINTS: 25, // Points per second left of the board's countdown budget
+    COMPLETION_BONUS: 200
+  },
+  ACCURACY: {
+    MISMATCH_PENALTY: 75,           // Points deducted for every mismatch, as it happens
+    AVOIDABLE_MISTAKE_PENALTY: 100, // Extra deduction at the end for mismatches made while the match was known
+    HIT_RATE_BONUS_MAX: 1000        // Awarded in full when every move was a match
+  }
+};
+
+/**
+ * What a rule set needs to know about a game, rebuilt from its replay log
+ */
+export interface GameSummary {
+  scoringRules: ScoringRules;
+  difficulty: Difficulty;
+  setSize: SetSize;
+  timeElapsed: number; // Seconds, to the millisecond when the log has it
+  moves: number;
+  matchedSets: number;
+  mismatches: number;
+  matchStreaks: number[]; // Streak length reached by each match, in order
+  longestStreak: number;
+  isCompleted: boolean;
+  livesRemaining: number | null;
+  maxLives: number | null;
+}
+
+// How a breakdown line is presented: base is unsigned, bonus always shows +, signed is green or red
+export type ScoreLineTone = 'base' | 'bonus' | 'signed' | 'muted' | 'penalty' | 'highlight';
+
+export interface ScoreLine {
+  label: string;
+  points: number;
+  tone: ScoreLineTone;
+}
+
+export interface RuleSetScore {
+  lines: ScoreLine[]; // In display order
+  totalScore: number;
+}
+
+/**
+ * One hot-seat turn, as the rule set sees it when crediting the player who took it
+ */
+export interface PlayerTurn {
+  difficulty: Difficulty;
+  setSize: SetSize;
+  matched: boolean;
+  streak: number; // The player's streak including this match; 0 after a mismatch
+}
+
+export interface ScoringStrategy {
+  label: string;
+  icon: string;
+  description: string;
+  showsTimer: boolean;
+  showsScore: boolean;
+  awardsStreaks: boolean; // Consecutive matches earn SCORING_CONFIG.STREAK_BONUS
+  rescoreOn: ReadonlyArray<GameAction['type']>; // Actions after which the running score is recalculated
+  score: (summary: GameSummary, history: GameEvent[]) => RuleSetScore;
+  scoreTurn: (turn: PlayerTurn) => number; // Points a hot-seat player banks for a turn; negative for a penalty
+}
+
+const NO_SCORE: RuleSetScore = { lines: [], totalScore: 0 };
+
+function sumLines(lines: ScoreLine[]): number {
+  return Math.max(0, Math.round(lines.reduce((sum, line) => sum + line.points, 0)));
+}
+
+function plural(count: number, singular: string, pluralForm: string): string {
+  return `${count} ${count === 1 ? singular : pluralForm}`;
+}
+
+// Streak bonuses are banked match by match, so they count mid-game as well
+function getStreakLine(summary: GameSummary): ScoreLine | null {
+  const points = calculateTotalStreakBonus(summary.matchStreaks, summary.difficulty);
+  return points > 0
+    ? { label: `Streak Bonus (best ${summary.longestStreak} in a row)`, points, tone: 'bonus' }
+    : null;
+}
+
+const classic: ScoringStrategy = {
+  label: 'Classic',
+  icon: '🎯',
+  description: 'Matches, speed and memory all count',
+  showsTimer: true,
+  showsScore: true,
+  awardsStreaks: true,
+  rescoreOn: ['MATCH_CARDS', 'RECORD_SPLIT'],
+  score: (summary, history) => {
+    // Move analysis only feeds the completion bonuses, so skip it mid-game
+    const analysis = summary.isCompleted ? analyzeMoves(history) : undefined;
+    const streakLine = getStreakLine(summary);
+    const breakdown = calculateScoreBreakdown(
+      summary.difficulty,
+      summary.timeElapsed,
+      summary.moves,
+      summary.matchedSets,
+      summary.isCompleted,
+      summary.livesRemaining,
+      summary.setSize,
+      analysis,
+      streakLine?.points
+    );
+
+    const lines: ScoreLine[] = [
+      { label: 'Base Score', points: breakdown.baseScore, tone: 'base' },
+      { label: 'Difficulty Bonus', points: breakdown.difficultyBonus, tone: 'bonus' }
+    ];
+    if (streakLine) {
+      lines.push(streakLine);
+    }
+    lines.push(
+      { label: 'Time Bonus', points: breakdown.timeBonus, tone: 'bonus' },
+      { label: 'Move Efficiency', points: breakdown.moveEfficiency, tone: 'signed' }
+    );
+    if (analysis && breakdown.luckAdjustment !== 0) {
+      lines.push({
+        label: `Luck (${plural(analysis.luckyMatches, 'blind match', 'blind matches')})`,
+        points: breakdown.luckAdjustment,
+        tone: 'muted'
+      });
+    }
+    if (analysis && breakdown.mistakePenalty !== 0) {
+      lines.push({
+        label: `Avoidable Mistakes (${analysis.avoidableMistakes})`,
+        points: breakdown.mistakePenalty,
+        tone: 'penalty'
+      });
+    }
+    lines.push({ label: 'Completion Bonus', points: breakdown.completionBonus, tone: 'bonus' });
+    if (summary.maxLives !== null) {
+      lines.push({
+        label: `Lives Bonus (${summary.livesRemaining ?? 0}/${summary.maxLives} ❤️)`,
+        points: breakdown.livesBonus,
+        tone: 'bonus'
+      });
+    }
+    if (breakdown.perfectBonus > 0) {
+      lines.push({ label: 'Perfect Game!', points: breakdown.perfectBonus, tone: 'highlight' });
+    }
+
+    return { lines, totalScore: breakdown.totalScore };
+  },
+  scoreTurn: turn => turn.matched
+    ? Math.round(calculateSetPoints(1, turn.setSize) * getDifficultyMultiplier(turn.difficulty)) +
+      calculateStreakBonus(turn.streak, turn.difficulty)
+    : 0
+};
+
+const timeAttack: ScoringStrategy = {
+  label: 'Time Attack',
+  icon: '⚡',
+  description: 'Every second under par is worth points; moves don\'t matter',
+  showsTimer: true,
+  showsScore: true,
+  awardsStreaks: false,
+  rescoreOn: ['MATCH_CARDS', 'RECORD_SPLIT'],
+  score: summary => {
+    const { MATCH_POINTS, SECOND_UNDER_PAR_POINTS, COMPLETION_BONUS } = RULE_SET_CONFIG.TIME_ATTACK;
+    const multiplier = getDifficultyMultiplier(summary.difficulty);
+    // Par is the board's countdown budget from time-limited mode
+    const par = getDifficultyConfig(summary.difficulty).timeLimit;
+    const secondsUnderPar = Math.max(0, par - summary.timeElapsed);
+
+    const lines: ScoreLine[] = [
+      {
+        label: 'Matches',
+        points: Math.round(summary.matchedSets * (summary.setSize - 1) * MATCH_POINTS * multiplier),
+        tone: 'base'
+      },
+      {
+        label: `Speed Bonus (${plural(Math.floor(secondsUnderPar), 'second', 'seconds')} under par)`,
+        points: summary.isCompleted ? Math.round(secondsUnderPar * SECOND_UNDER_PAR_POINTS * multiplier) : 0,
+        tone: 'bonus'
+      },
+      { label: 'Completion Bonus', points: summary.isCompleted ? COMPLETION_BONUS : 0, tone: 'bonus' }
+    ];
+
+    return { lines, totalScore: sumLines(lines) };
+  },
+  scoreTurn: turn => turn.matched
+    ? Math.round((turn.setSize - 1) * RULE_SET_CONFIG.TIME_ATTACK.MATCH_POINTS * getDifficultyMultiplier(turn.difficulty))
+    : 0
+};
+
+const accuracy: ScoringStrategy = {
+  label: 'Accuracy',
+  icon: '🔍',
+  description: 'Every mismatch costs points; the clock doesn\'t matter',
+  showsTimer: true,
+  showsScore: true,
+  awardsStreaks: true,
+  rescoreOn: ['MATCH_CARDS', 'UNMATCH_CARDS'],
+  score: (summary, history) => {
+    const { MISMATCH_PENALTY, AVOIDABLE_MISTAKE_PENALTY, HIT_RATE_BONUS_MAX } = RULE_SET_CONFIG.ACCURACY;
+    const multiplier = getDifficultyMultiplier(summary.difficulty);
+
+    const lines: ScoreLine[] = [
+      {
+        label: 'Matches',
+        points: Math.round(calculateSetPoints(summary.matchedSets, summary.setSize) * multiplier),
+        tone: 'base'
+      },
+      {
+        label: `Mismatches (${summary.mismatches})`,
+        points: summary.mismatches > 0 ? -Math.round(summary.mismatches * MISMATCH_PENALTY * multiplier) : 0,
+        tone: 'penalty'
+      }
+    ];
+    const streakLine = getStreakLine(summary);
+    if (streakLine) {
+      lines.push(streakLine);
+    }
+
+    if (summary.isCompleted) {
+      const hitRate = summary.moves > 0 ? summary.matchedSets / summary.moves : 0;
+      const { avoidableMistakes } = analyzeMoves(history);
+      lines.push({
+        label: `Hit Rate (${Math.round(hitRate * 100)}%)`,
+        points: Math.round(hitRate * HIT_RATE_BONUS_MAX * multiplier),
+        tone: 'bonus'
+      });
+      if (avoidableMistakes > 0) {
+        lines.push({
+          label: `Avoidable Mistakes (${avoidableMistakes})`,
+          points: -avoidableMistakes * AVOIDABLE_MISTAKE_PENALTY,
+          tone: 'penalty'
+        });
+      }
+    }
+
+    return { lines, totalScore: sumLines(lines) };
+  },
+  scoreTurn: turn => {
+    const multiplier = getDifficultyMultiplier(turn.difficulty);
+    return turn.matched
+      ? Math.round(calculateSetPoints(1, turn.setSize) * multiplier) + calculateStreakBonus(turn.streak, turn.difficulty)
+      : -Math.round(RULE_SET_CONFIG.ACCURACY.MISMATCH_PENALTY * multiplier);
+  }
+};
+
+const zen: ScoringStrategy = {
+  label: 'Zen',
+  icon: '🧘',
+  description: 'No clock and no score, just the cards',
+  showsTimer: false,
+  showsScore: false,
+  awardsStreaks: false,
+  rescoreOn: [],
+  score: () => NO_SCORE,
+  scoreTurn: () => 0
+};
+
+export const SCORING_STRATEGIES: Record<ScoringRules, ScoringStrategy> = {
+  classic,
+  timeAttack,
+  accuracy,
+  zen
+};
+
+export const SCORING_RULES_ORDER: ScoringRules[] = ['classic', 'timeAttack', 'accuracy', 'zen'];
+
+export function isScoringRules(value: unknown): value is ScoringRules {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(SCORING_STRATEGIES, value);
+}
+
+/**
+ * Rebuild the scoring inputs from a replay log; null until the log has a START_GAME
+ */
+export function summarizeGame(history: GameEvent[]): GameSummary | null {
+  let summary: GameSummary | null = null;
+  let currentStreak = 0;
+
+  history.forEach(event => {
+    if (event.type === 'START_GAME') {
+      currentStreak = 0;
+      const { difficulty, setSize = 2, lives, scoringRules } = event.payload ?? {};
+      summary = difficulty
+        ? {
+            scoringRules: isScoringRules(scoringRules) ? scoringRules : DEFAULT_SCORING_RULES,
+            difficulty,
+            setSize,
+            timeElapsed: 0,
+            moves: 0,
+            matchedSets: 0,
+            mismatches: 0,
+            matchStreaks: [],
+            longestStreak: 0,
+            isCompleted: false,
+            livesRemaining: lives ?? null,
+            maxLives: lives ?? null
+          }
+        : null;
+      return;
+    }
+    if (!summary) return;
+
+    if (event.type === 'MATCH_CARDS') {
+      currentStreak++;
+      summary.moves++;
+      summary.matchedSets++;
+      summary.matchStreaks.push(currentStreak);
+      summary.longestStreak = Math.max(summary.longestStreak, currentStreak);
+      summary.isCompleted = summary.matchedSets === getTotalSets(summary.difficulty, summary.setSize);
+    } else if (event.type === 'UNMATCH_CARDS') {
+      currentStreak = 0;
+      summary.moves++;
+      summary.mismatches++;
+      if (summary.livesRemaining !== null) {
+        summary.livesRemaining = Math.max(0, summary.livesRemaining - 1);
+      }
+    } else if (event.type === 'UPDATE_TIME' && event.payload?.timeElapsed !== undefined) {
+      summary.timeElapsed = (event.payload.timeElapsedMs ?? event.payload.timeElapsed * 1000) / 1000;
+    } else if (event.type === 'RECORD_SPLIT' && event.payload?.timeElapsedMs !== undefined) {
+      summary.timeElapsed = event.payload.timeElapsedMs / 1000;
+    }
+  });
+
+  return summary;
+}
+
+/**
+ * Score a game from its replay log under the rules it was started with
+ */
+export function scoreGame(history: GameEvent[]): RuleSetScore {
+  const summary = summarizeGame(history);
+  if (!summary) return NO_SCORE;
+  return SCORING_STRATEGIES[summary.scoringRules].score(summary, history);
+}
+
+/**
+ * Label for a rule set in records and leaderboards, e.g. "⚡ Time Attack"
+ */
+export function getScoringRulesLabel(scoringRules: ScoringRules): string {
+  const { icon, label } = SCORING_STRATEGIES[scoringRules];
+  return `${icon} ${label}`;
+}
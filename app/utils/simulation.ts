@@ -0,0 +1,145 @@
+import { BotStrength, Difficulty, GameState, SetSize } from '../types/game';
+import { createGameBoard, getTurnOutcome } from './gameLogic';
+import { gameReducer, initialGameState } from './gameReducer';
+import { getDefaultCategory } from './emojiData';
+import { createSeededRandom } from './random';
+import { BOT_STRENGTHS, BotStrengthConfig, chooseBotFlip, createBotMemory, decayMemory, observeBoard, recordMismatch } from './bot';
+import { MoveAnalysis, analyzeMoves } from './moveAnalysis';
+
+/**
+ * Headless simulation of solo games, used to measure how many moves a board
+ * really takes. Games run through gameReducer itself, with the computer
+ * player's memory models standing in for the person at the keyboard.
+ */
+
+export type SimulationStrategy = BotStrength | 'goldfish';
+
+export const SIMULATION_STRATEGIES: Record<SimulationStrategy, BotStrengthConfig> = {
+  perfect: BOT_STRENGTHS.perfect,
+  limited: BOT_STRENGTHS.limited,
+  forgetful: BOT_STRENGTHS.forgetful,
+  goldfish: {
+    label: 'Goldfish',
+    description: 'Remembers only the last 4 cards it saw',
+    memoryWindow: 4,
+    forgetChance: 0
+  }
+};
+
+export interface MoveDistribution {
+  games: number;
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  p10: number;
+  p90: number;
+}
+
+export interface SimulatedGame {
+  moves: number;
+  analysis: MoveAnalysis;
+}
+
+export interface BoardSimulation {
+  moves: MoveDistribution;
+  luckFreeMoves: MoveDistribution; // Moves + lucky matches, the basis of the expected-moves model
+  avoidableMistakes: number; // Mean per game
+}
+
+export interface SimulationOptions {
+  games?: number;
+  setSize?: SetSize;
+  seed?: number; // First board seed; game i uses seed + i
+}
+
+// Mixed into the board seed so the strategy's choices don't mirror the shuffle
+const STRATEGY_SEED_SALT = 0x9e3779b9;
+
+/**
+ * Play one game to completion and return the moves it took
+ */
+export function simulateGame(
+  difficulty: Difficulty,
+  strategy: BotStrengthConfig,
+  seed: number,
+  setSize: SetSize = 2
+): SimulatedGame {
+  const board = createGameBoard(difficulty, getDefaultCategory(), seed, setSize);
+  const random = createSeededRandom((seed ^ STRATEGY_SEED_SALT) >>> 0);
+
+  let state: GameState = gameReducer(initialGameState, {
+    type: 'START_GAME',
+    payload: { difficulty, category: getDefaultCategory(), setSize, seed, board }
+  });
+  let memory = createBotMemory();
+
+  // Generous cap so a bug in the rules can't spin forever
+  const maxFlips = board.length * board.length * setSize * 100;
+  for (let flips = 0; state.gameStatus === 'playing'; flips++) {
+    if (flips > maxFlips) {
+      throw new Error(`Simulation did not finish within ${maxFlips} flips`);
+    }
+
+    const cardId = chooseBotFlip(memory, state.board, state.flippedCards, setSize, random);
+    if (cardId === null) {
+      throw new Error('Simulation ran out of cards to flip');
+    }
+
+    state = gameReducer(state, { type: 'FLIP_CARD', payload: { cardId } });
+    memory = observeBoard(memory, state.board, strategy);
+
+    const outcome = getTurnOutcome(state.board, state.flippedCards, setSize);
+    if (outcome === 'pending') continue;
+
+    const cardIds = state.flippedCards;
+    state = gameReducer(state, { type: outcome === 'match' ? 'MATCH_CARDS' : 'UNMATCH_CARDS', payload: { cardIds } });
+    memory = observeBoard(outcome === 'mismatch' ? recordMismatch(memory, cardIds) : memory, state.board, strategy);
+    memory = decayMemory(memory, strategy, random);
+  }
+
+  return { moves: state.moves, analysis: analyzeMoves(state.history) };
+}
+
+/**
+ * Summarise a list of move counts
+ */
+export function getMoveDistribution(moveCounts: number[]): MoveDistribution {
+  if (moveCounts.length === 0) {
+    return { games: 0, min: 0, max: 0, mean: 0, median: 0, p10: 0, p90: 0 };
+  }
+
+  const sorted = [...moveCounts].sort((a, b) => a - b);
+  // Nearest-rank percentile
+  const percentile = (p: number) => sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+
+  return {
+    games: sorted.length,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean: Math.round((sorted.reduce((sum, moves) => sum + moves, 0) / sorted.length) * 10) / 10,
+    median: percentile(50),
+    p10: percentile(10),
+    p90: percentile(90)
+  };
+}
+
+/**
+ * Play many seeded games on one board size and report the move counts
+ */
+export function simulateBoard(
+  difficulty: Difficulty,
+  strategy: BotStrengthConfig,
+  { games = 1000, setSize = 2, seed = 1 }: SimulationOptions = {}
+): BoardSimulation {
+  const results = Array.from({ length: games }, (_, index) =>
+    simulateGame(difficulty, strategy, (seed + index) >>> 0, setSize)
+  );
+  const totalMistakes = results.reduce((sum, result) => sum + result.analysis.avoidableMistakes, 0);
+
+  return {
+    moves: getMoveDistribution(results.map(result => result.moves)),
+    luckFreeMoves: getMoveDistribution(results.map(result => result.moves + result.analysis.luckyMatches)),
+    avoidableMistakes: Math.round((totalMistakes / games) * 10) / 10
+  };
+}
@@ -0,0 +1,212 @@
+import { GameStats, LocalStorageData } from '../types/game';
+import { TURN_KINDS } from './moveAnalysis';
+import {
+  amount,
+  count,
+  customDifficulty,
+  dateKey,
+  difficulty,
+  difficultyMapOf,
+  flag,
+  is,
+  isRecord,
+  listOf,
+  number,
+  optional,
+  percentage,
+  scoringRules,
+  setSize,
+  shape,
+  text,
+  timestamp,
+  validate
+} from './validation';
+
+/**
+ * The stored form of LocalStorageData: a versioned blob, its migrations and a runtime validator
+ * Bump STORAGE_VERSION and add a migration whenever the stored shape changes
+ */
+export const STORAGE_VERSION = 1;
+
+export interface StoredData extends LocalStorageData {
+  version: number;
+}
+
+// Stored data that failed to load, set aside instead of being overwritten
+export interface QuarantinedData {
+  quarantinedAt: string;
+  reason: string;
+  raw: string;
+}
+
+export type StorageParseResult =
+  | { ok: true; data: LocalStorageData; migrated: boolean }
+  | { ok: false; reason: string };
+
+// "No record yet" is an absent key: Infinity would be written out as null by JSON.stringify
+export const defaultGameStats: GameStats = {
+  totalGames: 0,
+  bestTimes: {},
+  bestMoves: {},
+  completionRate: 0,
+  averageTime: 0,
+  averageMoves: 0,
+  gamesWon: 0,
+  gamesLost: 0
+};
+
+export const defaultLocalStorageData: LocalStorageData = {
+  gameStats: defaultGameStats,
+  highScores: [],
+  dailyHistory: [],
+  customPresets: [],
+  bestRuns: [],
+  preferences: {
+    soundEnabled: true,
+    animationEnabled: true,
+    defaultDifficulty: 'easy',
+    defaultCategory: 'food',
+    previewSeconds: {},
+    autoPause: true,
+    concealOnPause: true
+  }
+};
+
+type StoredRecord = Record<string, unknown>;
+
+// Fill in a missing section; anything that isn't an object is left for the validator to reject
+function withDefaults(value: unknown, defaults: object): unknown {
+  if (value === undefined) return defaults;
+  return isRecord(value) ? { ...defaults, ...value } : value;
+}
+
+// Drop entries that JSON.stringify turned from Infinity into null
+function dropNullRecords(value: unknown): unknown {
+  return isRecord(value) ? Object.fromEntries(Object.entries(value).filter(([, record]) => record !== null)) : value;
+}
+
+// MIGRATIONS[n] upgrades version n data to version n + 1
+const MIGRATIONS: Array<(data: StoredRecord) => StoredRecord> = [
+  // 0 → 1: the unversioned blob, where sections and preferences added over time may be missing
+  data => {
+    const gameStats = withDefaults(data.gameStats, defaultGameStats);
+    return {
+      ...data,
+      gameStats: isRecord(gameStats)
+        ? { ...gameStats, bestTimes: dropNullRecords(gameStats.bestTimes), bestMoves: dropNullRecords(gameStats.bestMoves) }
+        : gameStats,
+      highScores: data.highScores ?? [],
+      dailyHistory: data.dailyHistory ?? [],
+      customPresets: data.customPresets ?? [],
+      bestRuns: data.bestRuns ?? [],
+      preferences: withDefaults(data.preferences, defaultLocalStorageData.preferences),
+      version: 1
+    };
+  }
+];
+
+const memoryStats = shape(Object.fromEntries(TURN_KINDS.map(kind => [kind, count])));
+
+const validateStoredData = shape({
+  gameStats: shape({
+    totalGames: count,
+    bestTimes: difficultyMapOf(amount),
+    bestMoves: difficultyMapOf(count),
+    completionRate: percentage,
+    averageTime: amount,
+    averageMoves: amount,
+    gamesWon: count,
+    gamesLost: count
+  }),
+  highScores: listOf(shape({
+    difficulty,
+    category: text,
+    moves: count,
+    time: amount,
+    score: number,
+    date: timestamp,
+    preview: optional(flag),
+    scoringRules: optional(scoringRules),
+    longestStreak: optional(count),
+    memory: optional(memoryStats)
+  })),
+  dailyHistory: listOf(shape({
+    date: dateKey,
+    difficulty,
+    category: text,
+    seed: is(Number.isInteger, 'a whole number'),
+    completed: flag,
+    moves: count,
+    time: amount,
+    score: number
+  })),
+  customPresets: listOf(shape({
+    id: customDifficulty,
+    name: text,
+    rows: count,
+    cols: count,
+    createdAt: timestamp
+  })),
+  bestRuns: listOf(shape({
+    difficulty,
+    category: text,
+    setSize,
+    time: amount,
+    splits: listOf(amount),
+    date: timestamp
+  })),
+  preferences: shape({
+    soundEnabled: flag,
+    animationEnabled: flag,
+    defaultDifficulty: difficulty,
+    defaultCategory: text,
+    previewSeconds: difficultyMapOf(amount),
+    autoPause: flag,
+    concealOnPause: flag
+  })
+});
+
+/**
+ * Parse stored or imported data, migrating older versions
+ * Fails on anything that isn't valid JSON, is from a newer version, or doesn't match the schema
+ */
+export function parseStoredData(json: string): StorageParseResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return { ok: false, reason: 'Stored data is not valid JSON' };
+  }
+  if (!isRecord(parsed)) {
+    return { ok: false, reason: 'Stored data must be an object' };
+  }
+
+  const version = parsed.version ?? 0;
+  if (!Number.isInteger(version) || (version as number) < 0) {
+    return { ok: false, reason: 'version must be a whole number ≥ 0' };
+  }
+  if ((version as number) > STORAGE_VERSION) {
+    return { ok: false, reason: `Stored data is from a newer version (${version}) of the game` };
+  }
+
+  const data = MIGRATIONS.slice(version as number).reduce((migrated, migrate) => migrate(migrated), parsed);
+  const issue = validate(validateStoredData, data);
+  if (issue) {
+    return { ok: false, reason: issue };
+  }
+
+  const { gameStats, highScores, dailyHistory, customPresets, bestRuns, preferences } = data as unknown as StoredData;
+  return {
+    ok: true,
+    data: { gameStats, highScores, dailyHistory, customPresets, bestRuns, preferences },
+    migrated: version !== STORAGE_VERSION
+  };
+}
+
+/**
+ * The stored form of the data, tagged with the current version
+ */
+export function serializeStoredData(data: LocalStorageData, space?: number): string {
+  const stored: StoredData = { version: STORAGE_VERSION, ...data };
+  return JSON.stringify(stored, null, space);
+}
@@ -0,0 +1,90 @@
+import { SET_SIZES, SetSize } from '../types/game';
+import { isBuiltInDifficulty, isValidDifficulty } from './difficulty';
+import { isScoringRules } from './scoringRules';
+
+/**
+ * Runtime validation for data from outside the app: stored data, imports and replay files
+ * Rules collect every problem with a path, so messages can point at the field that is wrong
+ */
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// A rule adds a message to issues for each problem it finds at path
+export type Rule = (value: unknown, path: string, issues: string[]) => void;
+
+export function is(check: (value: unknown) => boolean, expected: string): Rule {
+  return (value, path, issues) => {
+    if (!check(value)) issues.push(`${path} must be ${expected}`);
+  };
+}
+
+export function optional(rule: Rule): Rule {
+  return (value, path, issues) => {
+    if (value !== undefined) rule(value, path, issues);
+  };
+}
+
+export function listOf(rule: Rule): Rule {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push(`${path} must be a list`);
+      return;
+    }
+    value.forEach((item, index) => rule(item, `${path}[${index}]`, issues));
+  };
+}
+
+export function difficultyMapOf(rule: Rule): Rule {
+  return (value, path, issues) => {
+    if (!isRecord(value)) {
+      issues.push(`${path} must be an object`);
+      return;
+    }
+    Object.entries(value).forEach(([key, item]) => {
+      if (isValidDifficulty(key)) {
+        rule(item, `${path}.${key}`, issues);
+      } else {
+        issues.push(`${path}.${key} is not a difficulty`);
+      }
+    });
+  };
+}
+
+export function shape(fields: Record<string, Rule>): Rule {
+  return (value, path, issues) => {
+    if (!isRecord(value)) {
+      issues.push(`${path || 'data'} must be an object`);
+      return;
+    }
+    Object.entries(fields).forEach(([key, rule]) => rule(value[key], path ? `${path}.${key}` : key, issues));
+  };
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+export const number = is(isNumber, 'a number');
+export const amount = is(value => isNumber(value) && value >= 0, 'a number ≥ 0');
+export const count = is(value => Number.isInteger(value) && (value as number) >= 0, 'a whole number ≥ 0');
+export const percentage = is(value => isNumber(value) && value >= 0 && value <= 100, 'a percentage');
+export const text = is(value => typeof value === 'string', 'text');
+export const flag = is(value => typeof value === 'boolean', 'true or false');
+export const timestamp = is(value => typeof value === 'string' && !Number.isNaN(Date.parse(value)), 'a date and time');
+export const dateKey = is(value => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value), 'a YYYY-MM-DD date');
+export const difficulty = is(isValidDifficulty, 'a difficulty');
+export const customDifficulty = is(value => isValidDifficulty(value) && !isBuiltInDifficulty(value), 'a custom board id');
+export const scoringRules = is(isScoringRules, 'a scoring rule set');
+export const setSize = is(value => SET_SIZES.includes(value as SetSize), 'a set size');
+
+/**
+ * Check a value against a rule; the first problem, with a count of the rest, or null when it passes
+ */
+export function validate(rule: Rule, value: unknown, path: string = ''): string | null {
+  const issues: string[] = [];
+  rule(value, path, issues);
+  if (issues.length === 0) return null;
+
+  const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : '';
+  return `${issues[0]}${more}`;
+}
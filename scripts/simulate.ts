@@ -0,0 +1,100 @@
+/**
+ * Print move-count distributions from headless simulated games.
+ *
+ * Usage: npm run simulate -- [--games 2000] [--set-size 2] [--seed 1]
+ *                            [--sizes 3x4,5x5] [--strategies perfect,limited]
+ *
+ * Built-in difficulties are always included; --sizes adds custom COLSxROWS boards.
+ */
+
+import { BUILT_IN_DIFFICULTIES, CUSTOM_BOARD_LIMITS, getDifficultyLabel, isValidBoardSize } from '../app/utils/difficulty';
+import { SIMULATION_STRATEGIES, SimulationStrategy, simulateBoard } from '../app/utils/simulation';
+import { calculateExpectedMoves, calculateOptimalMoves } from '../app/utils/scoring';
+import { getTotalSets } from '../app/utils/gameLogic';
+import { Difficulty, SET_SIZES, SetSize } from '../app/types/game';
+
+function readFlag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+function parseCustomSizes(value: string | undefined): Difficulty[] {
+  if (!value) return [];
+  return value.split(',').map(size => {
+    const match = /^(\d+)x(\d+)$/.exec(size.trim());
+    const cols = Number(match?.[1]);
+    const rows = Number(match?.[2]);
+    if (!match || !isValidBoardSize(rows, cols)) {
+      fail(`Invalid size "${size}": use COLSxROWS between ${CUSTOM_BOARD_LIMITS.MIN_SIZE} and ${CUSTOM_BOARD_LIMITS.MAX_SIZE}`);
+    }
+    return `custom:${rows}x${cols}:sim` as Difficulty;
+  });
+}
+
+function parseStrategies(value: string | undefined): SimulationStrategy[] {
+  const all = Object.keys(SIMULATION_STRATEGIES) as SimulationStrategy[];
+  if (!value) return all;
+  return value.split(',').map(name => {
+    const strategy = name.trim() as SimulationStrategy;
+    if (!all.includes(strategy)) {
+      fail(`Unknown strategy "${name}": choose from ${all.join(', ')}`);
+    }
+    return strategy;
+  });
+}
+
+function formatRow(cells: (string | number)[], widths: number[]): string {
+  return cells.map((cell, index) => String(cell).padStart(widths[index])).join('  ');
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const games = Number(readFlag(args, 'games') ?? 1000);
+  const setSize = Number(readFlag(args, 'set-size') ?? 2) as SetSize;
+  const seed = Number(readFlag(args, 'seed') ?? 1);
+
+  if (!Number.isInteger(games) || games < 1) fail('--games must be a positive whole number');
+  if (!SET_SIZES.includes(setSize)) fail(`--set-size must be one of ${SET_SIZES.join(', ')}`);
+  if (!Number.isInteger(seed)) fail('--seed must be a whole number');
+
+  const boards: Difficulty[] = [...BUILT_IN_DIFFICULTIES, ...parseCustomSizes(readFlag(args, 'sizes'))];
+  const strategies = parseStrategies(readFlag(args, 'strategies'));
+
+  // Luck-free moves count each lucky match as an extra move; the expected-moves model is fitted to them
+  const headers = ['Strategy', 'Min', 'P10', 'Median', 'Mean', 'P90', 'Max', 'Luck-free', 'Mistakes'];
+  const widths = [10, 5, 5, 6, 6, 5, 5, 9, 8];
+
+  console.log(`Simulated ${games} games per board and strategy (set size ${setSize}, seed ${seed})`);
+
+  boards.forEach(difficulty => {
+    const sets = getTotalSets(difficulty, setSize);
+    console.log('');
+    console.log(
+      `${getDifficultyLabel(difficulty)}: ${sets} sets, optimal moves ${calculateOptimalMoves(difficulty, setSize)}, ` +
+      `expected luck-free moves ${calculateExpectedMoves(difficulty, setSize)}`
+    );
+    console.log(formatRow(headers, widths));
+
+    strategies.forEach(strategy => {
+      const { moves, luckFreeMoves, avoidableMistakes } = simulateBoard(
+        difficulty,
+        SIMULATION_STRATEGIES[strategy],
+        { games, setSize, seed }
+      );
+      console.log(formatRow(
+        [
+          strategy, moves.min, moves.p10, moves.median, moves.mean.toFixed(1), moves.p90, moves.max,
+          luckFreeMoves.mean.toFixed(1), avoidableMistakes.toFixed(1)
+        ],
+        widths
+      ));
+    });
+  });
+}
+
+main();